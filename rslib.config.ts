@@ -1,11 +1,17 @@
 import { pluginReact } from "@rsbuild/plugin-react";
 import { defineConfig } from "@rslib/core";
 
+// Node entry (react-audio-wavekit/server): bundled on its own so its declarations get their own dts entry
+// (bundleless libs only bundle declarations from src/index)
+const serverEntry = { server: "./src/server.ts" };
+const browserEntry = { index: ["./src/**/*.{ts,tsx}", "!./src/_storybook/**", "!./src/server.ts"] };
+
 export default defineConfig({
   lib: [
     {
       format: "esm",
       bundle: false,
+      source: { entry: browserEntry },
       dts: { bundle: true },
       output: {
         distPath: { root: "./dist" },
@@ -19,6 +25,7 @@ export default defineConfig({
     {
       format: "cjs",
       bundle: false,
+      source: { entry: browserEntry },
       output: {
         distPath: { root: "./dist" },
       },
@@ -27,12 +34,27 @@ export default defineConfig({
         peerDependencies: true,
       },
     },
-  ],
-  source: {
-    entry: {
-      index: ["./src/**/*.{ts,tsx}", "!./src/_storybook/**"],
+    {
+      format: "esm",
+      source: { entry: serverEntry },
+      dts: { bundle: true },
+      output: {
+        target: "node",
+        distPath: { root: "./dist" },
+      },
+      // Node resolves the WASM decoders from node_modules
+      autoExternal: true,
     },
-  },
+    {
+      format: "cjs",
+      source: { entry: serverEntry },
+      output: {
+        target: "node",
+        distPath: { root: "./dist" },
+      },
+      autoExternal: true,
+    },
+  ],
   output: {
     target: "web",
     externals: ["@types/react"],
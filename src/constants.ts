@@ -17,6 +17,55 @@ export const DEFAULT_PLAYHEAD_APPEARANCE = {
   playheadWidth: 2,
 } as const;
 
+export const DEFAULT_LOADING_APPEARANCE = {
+  loadingColor: "rgba(148, 163, 184, 0.2)",
+} as const;
+
+export const DEFAULT_DIMMED_APPEARANCE = {
+  dimmedOpacity: 0.3,
+} as const;
+
+export const DEFAULT_LOUDNESS_APPEARANCE = {
+  loudnessColor: "#f59e0b",
+  loudnessTargetColor: "rgba(239, 68, 68, 0.6)",
+} as const;
+
+export const DEFAULT_BEAT_APPEARANCE = {
+  beatColor: "rgba(148, 163, 184, 0.6)",
+} as const;
+
+export const DEFAULT_REGION_APPEARANCE = {
+  regionColor: "rgba(59, 130, 246, 0.2)",
+  regionHandleColor: "rgba(59, 130, 246, 0.8)",
+  regionLabelColor: "#1e293b",
+} as const;
+
+export const DEFAULT_MARKER_APPEARANCE = {
+  markerColor: "#10b981",
+  markerLabelColor: "#ffffff",
+} as const;
+
+export const DEFAULT_HOVER_APPEARANCE = {
+  hoverColor: "rgba(100, 116, 139, 0.8)",
+  hoverLabelColor: "#ffffff",
+  hoverLabelBackground: "rgba(15, 23, 42, 0.8)",
+} as const;
+
+export const DEFAULT_SPECTROGRAM_APPEARANCE = {
+  colorMap: "viridis",
+} as const;
+
+export const DEFAULT_OVERVIEW_APPEARANCE = {
+  viewportColor: "rgba(59, 130, 246, 0.15)",
+  viewportBorderColor: "rgba(59, 130, 246, 0.8)",
+} as const;
+
+export const DEFAULT_TIMELINE_APPEARANCE = {
+  tickColor: "rgba(100, 116, 139, 0.6)",
+  labelColor: "#64748b",
+  fontSize: 10,
+} as const;
+
 export const DEFAULT_SCROLLBAR_APPEARANCE: Required<ScrollbarAppearance> = {
   thumbColor: "rgba(148, 163, 184, 0.5)",
   hidden: false,
@@ -1,5 +1,8 @@
 // Components
 
+export type { WaveformOverviewProps, WaveformOverviewRef } from "./overview/index.js";
+// Overview minimap
+export { WaveformOverview } from "./overview/index.js";
 export { LiveRecorder } from "./recorder/live-recorder/index.js";
 export { LiveStreamingRecorder } from "./recorder/live-streaming/recorder/recorder-compound.js";
 export { LiveStreamingStackRecorder } from "./recorder/live-streaming/stack-recorder/stack-recorder-compound.js";
@@ -8,5 +11,96 @@ export type { UseAudioRecorderReturn } from "./recorder/use-audio-recorder.js";
 
 // Hook
 export { useAudioRecorder } from "./recorder/use-audio-recorder.js";
-export type { AudioWaveformAppearance, ScrollbarAppearance, WaveformAppearance } from "./types.js";
+export type { SpectrogramProps, SpectrogramRef } from "./spectrogram/index.js";
+export { Spectrogram } from "./spectrogram/index.js";
+export type { SpectrogramColorMap } from "./spectrogram/util-color-map.js";
+export type {
+  DecodeSpectrogramOptions,
+  SpectrogramData,
+  SpectrogramFrequencyScale,
+  SpectrogramOptions,
+  SpectrogramWindowFunction,
+} from "./spectrogram/util-spectrogram.js";
+// Spectrogram
+export { computeSpectrogram, decodeSpectrogram } from "./spectrogram/util-spectrogram.js";
+export type { WaveformTimelineProps, WaveformTimelineRef } from "./timeline/index.js";
+// Time ruler
+export { WaveformTimeline } from "./timeline/index.js";
+export type { TimelineFormat } from "./timeline/util-ticks.js";
+export type {
+  AudioWaveformAppearance,
+  ScrollbarAppearance,
+  SpectrogramAppearance,
+  WaveformAppearance,
+  WaveformFill,
+  WaveformGradient,
+  WaveformOverviewAppearance,
+  WaveformTimelineAppearance,
+} from "./types.js";
 export { AudioWaveform } from "./waveform/index.js";
+export type {
+  AudioMetadata,
+  DecodedAudio,
+  PeakFormat,
+  PeakPair,
+  PeakPyramid,
+  TimeSpan,
+  WaveformChannelLayout,
+  WaveformMarker,
+  WaveformPeaks,
+  WaveformPeaksInput,
+  WaveformPeaksSource,
+  WaveformRegion,
+} from "./waveform/types.js";
+export type { DecodeWaveformOptions, PrefetchPeaksOptions } from "./waveform/util-audio-decoder.js";
+// Decoding and peak cache
+export { decodeAudio, prefetchPeaks } from "./waveform/util-audio-decoder.js";
+export type { AudioCodec } from "./waveform/util-audio-sniff.js";
+export type {
+  AudiowaveformBits,
+  AudiowaveformData,
+  AudiowaveformDecodeOptions,
+  AudiowaveformJSON,
+  AudiowaveformSerializeInput,
+} from "./waveform/util-audiowaveform.js";
+// BBC audiowaveform peak files
+export {
+  decodeAudioBlobToAudiowaveform,
+  parseAudiowaveformDat,
+  parseAudiowaveformJSON,
+  toAudiowaveformDat,
+  toAudiowaveformJSON,
+} from "./waveform/util-audiowaveform.js";
+export type { BeatAnalysis, BeatDetectionOptions } from "./waveform/util-beats.js";
+// Onset and beat detection
+export { detectAudioBeats, detectBeats } from "./waveform/util-beats.js";
+export type {
+  AudioDecodeError,
+  AudioDecoder,
+  AudioDecoderInput,
+  DecodedAudioChannels,
+  RegisterDecoderOptions,
+} from "./waveform/util-decoder-registry.js";
+// Decoder registry
+export { isAudioDecodeError, registerDecoder, unregisterDecoder } from "./waveform/util-decoder-registry.js";
+export type { DecoderWorkerFactory } from "./waveform/util-decoder-worker.js";
+export type {
+  LoudnessCurve,
+  LoudnessResult,
+  MeasureAudioLoudnessOptions,
+  MeasureLoudnessOptions,
+} from "./waveform/util-loudness.js";
+// Loudness measurement
+export { measureAudioLoudness, measureLoudness } from "./waveform/util-loudness.js";
+export type { PeakCacheEntry, PeakCacheOptions } from "./waveform/util-peak-cache.js";
+export { configurePeakCache, inspectPeakCache, invalidatePeakCache } from "./waveform/util-peak-cache.js";
+export type { PeakPyramidOptions } from "./waveform/util-peak-pyramid.js";
+// Multi-resolution peaks
+export { createPeakPyramid, extractPeakPyramid, selectPyramidLevel } from "./waveform/util-peak-pyramid.js";
+export type { AmplitudeScale, PeakNormalization, PeakScaling } from "./waveform/util-peaks.js";
+export type { SilenceOptions, SilenceRange, TrimSilenceOptions } from "./waveform/util-silence.js";
+// Silence detection
+export { detectAudioSilence, detectSilence, trimSilence } from "./waveform/util-silence.js";
+// Time labels
+export { formatTime } from "./waveform/util-time.js";
+export { encodeWAV } from "./waveform/util-wav-encoder.js";
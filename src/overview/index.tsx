@@ -0,0 +1,209 @@
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from "react";
+import { DEFAULT_OVERVIEW_APPEARANCE } from "../constants";
+import type { WaveformOverviewAppearance } from "../types";
+import { AudioWaveform, type AudioWaveformProps, type AudioWaveformRef } from "../waveform";
+import type { TimeSpan } from "../waveform/types";
+import { formatTime } from "../waveform/util-time";
+
+// ============================================================================
+// WaveformOverview - Full-file minimap with a draggable viewport for a zoomed AudioWaveform
+// ============================================================================
+
+export interface WaveformOverviewProps
+  extends Omit<
+    AudioWaveformProps,
+    | "appearance"
+    | "pyramid"
+    | "zoom"
+    | "maxZoom"
+    | "onZoomChange"
+    | "followPlayhead"
+    | "onVisibleRangeChange"
+    | "onRegionsChange"
+    | "onMarkerClick"
+    | "onMarkersChange"
+    | "onSeek"
+    | "onSeekStart"
+    | "onSeekDrag"
+    | "onSeekEnd"
+  > {
+  /** Zoomed detail waveform that the viewport scrolls */
+  waveformRef: React.RefObject<AudioWaveformRef | null>;
+  /** Range shown by the detail waveform (its `onVisibleRangeChange`), drawn as the viewport rectangle */
+  visibleRange?: TimeSpan;
+  /** Waveform and viewport appearance configuration */
+  appearance?: WaveformOverviewAppearance;
+}
+
+export interface WaveformOverviewRef {
+  canvas: HTMLCanvasElement | null;
+}
+
+// Arrow keys move the viewport by this fraction of its width (Page Up/Down by a whole width)
+const KEYBOARD_STEP = 0.1;
+
+/**
+ * Always decodes a peak pyramid: with the same `blob`, `splitChannels` and clip as the zoomed detail waveform,
+ * both resolve to one peak cache entry, so the audio is decoded once
+ */
+export const WaveformOverview = forwardRef<WaveformOverviewRef, WaveformOverviewProps>(function WaveformOverview(
+  { waveformRef, visibleRange, appearance, className, style, ...props },
+  ref
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const overviewRef = useRef<AudioWaveformRef>(null);
+  // Whole clip as reported by the (unzoomed) overview waveform
+  const [clip, setClip] = useState<TimeSpan | null>(null);
+
+  useImperativeHandle(ref, () => ({
+    get canvas() {
+      return overviewRef.current?.canvas ?? null;
+    },
+  }));
+
+  const clipDuration = clip ? clip.endTime - clip.startTime : 0;
+  const span = visibleRange ? visibleRange.endTime - visibleRange.startTime : 0;
+  const hasViewport = !!clip && !!visibleRange && clipDuration > 0 && span > 0;
+
+  // Latest layout for the document-level drag handlers
+  const layoutRef = useRef({ clip, visibleRange, span });
+  layoutRef.current = { clip, visibleRange, span };
+
+  const getTimeFromPosition = useCallback((clientX: number): number | null => {
+    const container = containerRef.current;
+    const { clip } = layoutRef.current;
+    if (!container || !clip) return null;
+    const rect = container.getBoundingClientRect();
+    if (rect.width <= 0) return null;
+    const ratio = Math.max(0, Math.min((clientX - rect.left) / rect.width, 1));
+    return clip.startTime + ratio * (clip.endTime - clip.startTime);
+  }, []);
+
+  // Center the detail view so the viewport starts at `startTime`
+  const scrollViewportTo = useCallback(
+    (startTime: number) => {
+      waveformRef.current?.scrollToTime(startTime + layoutRef.current.span / 2);
+    },
+    [waveformRef]
+  );
+
+  // Pointer's distance (seconds) from the viewport start while the viewport is dragged
+  const grabOffsetRef = useRef(0);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const startDrag = useCallback((grabOffset: number) => {
+    grabOffsetRef.current = grabOffset;
+    setIsDragging(true);
+  }, []);
+
+  // Document-level drag handlers, removed on mouseup or when the overview unmounts mid-drag
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const time = getTimeFromPosition(e.clientX);
+      if (time !== null) scrollViewportTo(time - grabOffsetRef.current);
+    };
+    const handleMouseUp = () => setIsDragging(false);
+
+    document.body.style.cursor = "grabbing";
+    document.body.style.userSelect = "none";
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+      document.body.style.cursor = "";
+      document.body.style.userSelect = "";
+    };
+  }, [isDragging, getTimeFromPosition, scrollViewportTo]);
+
+  // Press on the viewport: grab it where it was pressed
+  const handleViewportMouseDown = useCallback(
+    (e: React.MouseEvent<HTMLDivElement>) => {
+      const time = getTimeFromPosition(e.clientX);
+      const { visibleRange } = layoutRef.current;
+      if (e.button !== 0 || time === null || !visibleRange) return;
+      e.preventDefault();
+      startDrag(time - visibleRange.startTime);
+    },
+    [getTimeFromPosition, startDrag]
+  );
+
+  // Press elsewhere: center the viewport on the pointer and keep dragging
+  const handleCanvasMouseDown = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      const time = getTimeFromPosition(e.clientX);
+      if (e.button !== 0 || time === null || !layoutRef.current.visibleRange) return;
+      e.preventDefault();
+      const grabOffset = layoutRef.current.span / 2;
+      scrollViewportTo(time - grabOffset);
+      startDrag(grabOffset);
+    },
+    [getTimeFromPosition, scrollViewportTo, startDrag]
+  );
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLDivElement>) => {
+      const { clip, visibleRange, span } = layoutRef.current;
+      if (!clip || !visibleRange) return;
+
+      const targets: Record<string, number> = {
+        ArrowLeft: visibleRange.startTime - span * KEYBOARD_STEP,
+        ArrowRight: visibleRange.startTime + span * KEYBOARD_STEP,
+        PageUp: visibleRange.startTime - span,
+        PageDown: visibleRange.startTime + span,
+        Home: clip.startTime,
+        End: clip.endTime - span,
+      };
+      const target = targets[e.key];
+      if (target === undefined) return;
+      e.preventDefault();
+      scrollViewportTo(target);
+    },
+    [scrollViewportTo]
+  );
+
+  const viewportColor = appearance?.viewportColor ?? DEFAULT_OVERVIEW_APPEARANCE.viewportColor;
+  const viewportBorderColor = appearance?.viewportBorderColor ?? DEFAULT_OVERVIEW_APPEARANCE.viewportBorderColor;
+
+  return (
+    <div ref={containerRef} className={className} style={{ position: "relative", ...style }}>
+      <AudioWaveform
+        ref={overviewRef}
+        {...props}
+        pyramid
+        appearance={appearance}
+        onVisibleRangeChange={setClip}
+        onMouseDown={handleCanvasMouseDown}
+        style={{ display: "block", width: "100%", height: "100%", cursor: hasViewport ? "pointer" : undefined }}
+      />
+      {hasViewport && (
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label="Visible range"
+          aria-valuemin={clip.startTime}
+          aria-valuemax={clip.endTime}
+          aria-valuenow={visibleRange.startTime}
+          aria-valuetext={`${formatTime(visibleRange.startTime)} - ${formatTime(visibleRange.endTime)}`}
+          onMouseDown={handleViewportMouseDown}
+          onKeyDown={handleKeyDown}
+          style={{
+            position: "absolute",
+            top: 0,
+            bottom: 0,
+            left: `${((visibleRange.startTime - clip.startTime) / clipDuration) * 100}%`,
+            width: `${(span / clipDuration) * 100}%`,
+            boxSizing: "border-box",
+            background: viewportColor,
+            border: `1px solid ${viewportBorderColor}`,
+            cursor: "grab",
+          }}
+        />
+      )}
+    </div>
+  );
+});
+
+export default WaveformOverview;
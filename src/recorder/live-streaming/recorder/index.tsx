@@ -3,6 +3,10 @@
  * Use compound component API instead: LiveStreamingRecorder.Root, LiveStreamingRecorder.Canvas
  */
 
-export type { LiveStreamingRecorderCanvasProps, LiveStreamingRecorderRootProps } from "./recorder-compound";
+export type {
+  LiveStreamingRecorderCanvasProps,
+  LiveStreamingRecorderRootProps,
+  LiveStreamingRecorderTimelineProps,
+} from "./recorder-compound";
 export { LiveStreamingRecorder } from "./recorder-compound";
 export { useLiveStreamingRecorderContext } from "./recorder-context";
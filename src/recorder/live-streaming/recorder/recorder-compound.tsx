@@ -1,7 +1,8 @@
-import { useOverlayScrollbars } from "overlayscrollbars-react";
-import { forwardRef, type HTMLAttributes, type ReactNode, useCallback, useEffect, useId, useRef } from "react";
-import { DEFAULT_SCROLLBAR_APPEARANCE, DEFAULT_WAVEFORM_APPEARANCE } from "../../../constants";
-import type { LiveStreamingRecorderAppearance } from "../../../types";
+import { forwardRef, type HTMLAttributes, type ReactNode, useCallback, useEffect, useRef, useState } from "react";
+import { DEFAULT_WAVEFORM_APPEARANCE } from "../../../constants";
+import { WaveformTimeline, type WaveformTimelineProps, type WaveformTimelineRef } from "../../../timeline";
+import type { LiveStreamingRecorderAppearance, WaveformAppearance, WaveformTimelineAppearance } from "../../../types";
+import { useThemedScrollbars } from "../../../use-themed-scrollbars";
 import type { UseRecordingAmplitudesOptions } from "../use-recording-amplitudes";
 import { LiveStreamingRecorderProvider, useLiveStreamingRecorderContext } from "./recorder-context";
 
@@ -34,30 +35,7 @@ const LiveStreamingRecorderRoot = forwardRef<HTMLDivElement, LiveStreamingRecord
   ) {
     const containerRef = useRef<HTMLDivElement>(null);
 
-    // Generate unique scrollbar theme class name (prevent style conflicts between instances)
-    const uniqueId = useId().replace(/:/g, "");
-    const themeClassName = `os-theme-lsr-${uniqueId}`;
-
-    // Extract scrollbar appearance values
-    const scrollbar = appearance?.scrollbar;
-    const thumbColor = scrollbar?.thumbColor ?? DEFAULT_SCROLLBAR_APPEARANCE.thumbColor;
-    const hidden = scrollbar?.hidden ?? DEFAULT_SCROLLBAR_APPEARANCE.hidden;
-
-    // Initialize OverlayScrollbars hook
-    const [initializeOS, osInstance] = useOverlayScrollbars({
-      options: {
-        overflow: { x: "scroll", y: "hidden" },
-        scrollbars: {
-          theme: themeClassName,
-          visibility: hidden ? "hidden" : "auto",
-          autoHide: "leave", // Hide when mouse leaves area (most common UX)
-          autoHideDelay: 400,
-          dragScroll: true,
-          clickScroll: true,
-        },
-      },
-      defer: true,
-    });
+    const [initializeOS] = useThemedScrollbars(appearance?.scrollbar);
 
     // Initialize OverlayScrollbars on container
     useEffect(() => {
@@ -66,47 +44,6 @@ const LiveStreamingRecorderRoot = forwardRef<HTMLDivElement, LiveStreamingRecord
       }
     }, [initializeOS]);
 
-    // Update scrollbar visibility when hidden option changes
-    useEffect(() => {
-      const instance = osInstance();
-      if (instance) {
-        instance.options({
-          scrollbars: {
-            visibility: hidden ? "hidden" : "auto",
-          },
-        });
-      }
-    }, [osInstance, hidden]);
-
-    // Inject OverlayScrollbars theme CSS variables (only thumbColor is customizable)
-    useEffect(() => {
-      const styleId = `lsr-os-theme-${uniqueId}`;
-      document.getElementById(styleId)?.remove();
-
-      const styleElement = document.createElement("style");
-      styleElement.id = styleId;
-      styleElement.textContent = `
-        .${themeClassName} {
-          --os-size: 8px;
-          --os-padding-perpendicular: 2px;
-          --os-padding-axis: 2px;
-          --os-track-border-radius: 4px;
-          --os-track-bg: transparent;
-          --os-track-bg-hover: transparent;
-          --os-handle-border-radius: 4px;
-          --os-handle-bg: ${thumbColor};
-          --os-handle-bg-hover: ${thumbColor};
-          --os-handle-bg-active: ${thumbColor};
-          --os-handle-min-size: 30px;
-        }
-      `;
-      document.head.appendChild(styleElement);
-
-      return () => {
-        document.getElementById(styleId)?.remove();
-      };
-    }, [uniqueId, themeClassName, thumbColor]);
-
     // Forward ref to container element
     useEffect(() => {
       if (ref) {
@@ -140,7 +77,7 @@ const LiveStreamingRecorderRoot = forwardRef<HTMLDivElement, LiveStreamingRecord
 export interface LiveStreamingRecorderCanvasProps extends HTMLAttributes<HTMLCanvasElement> {
   /** Additional className for canvas element */
   className?: string;
-  /** Inline styles for canvas element */
+  /** Inline styles for canvas element (set `height` to leave room for a Timeline below; default fills the Root) */
   style?: React.CSSProperties;
   /** Waveform appearance configuration (barColor, barWidth, etc.) - scrollbar settings only apply in Root */
   appearance?: LiveStreamingRecorderAppearance;
@@ -157,6 +94,8 @@ const LiveStreamingRecorderCanvas = forwardRef<HTMLCanvasElement, LiveStreamingR
 
     // Track canvas width in growWidth mode to ensure it never shrinks
     const prevCanvasWidthRef = useRef<number>(0);
+    // An explicit height (e.g. leaving room for a Timeline) is measured on the canvas instead of the container
+    const hasOwnHeight = style?.height !== undefined && style.height !== "100%";
 
     // Forward ref
     useEffect(() => {
@@ -189,7 +128,7 @@ const LiveStreamingRecorderCanvas = forwardRef<HTMLCanvasElement, LiveStreamingR
       // Get container's actual size (use parent element's size)
       const container = canvas.parentElement;
       const containerWidth = container?.clientWidth || canvas.clientWidth;
-      const containerHeight = container?.clientHeight || canvas.clientHeight;
+      const containerHeight = (hasOwnHeight && canvas.clientHeight) || container?.clientHeight || canvas.clientHeight;
 
       // Extract styles from appearance (with defaults)
       const barColor = appearance?.barColor ?? DEFAULT_WAVEFORM_APPEARANCE.barColor;
@@ -237,7 +176,7 @@ const LiveStreamingRecorderCanvas = forwardRef<HTMLCanvasElement, LiveStreamingR
         ctx.fill();
       }
       // Don't draw anything if not recording and no data
-    }, [amplitudes, isRecording, appearance]);
+    }, [amplitudes, isRecording, appearance, hasOwnHeight]);
 
     // Track container size with ResizeObserver and get OverlayScrollbars viewport reference
     useEffect(() => {
@@ -315,6 +254,54 @@ const LiveStreamingRecorderCanvas = forwardRef<HTMLCanvasElement, LiveStreamingR
   }
 );
 
+// ============================================================================
+// LiveStreamingRecorder.Timeline
+// ============================================================================
+
+export interface LiveStreamingRecorderTimelineProps
+  extends Omit<WaveformTimelineProps, "startTime" | "endTime" | "duration" | "pixelsPerSecond" | "appearance"> {
+  /**
+   * Tick and label styles plus the Canvas bar layout: pass the same barWidth / barGap as Canvas
+   * so one second on the ruler matches one second of bars
+   */
+  appearance?: WaveformTimelineAppearance & Pick<WaveformAppearance, "barWidth" | "barGap">;
+}
+
+const LiveStreamingRecorderTimeline = forwardRef<WaveformTimelineRef, LiveStreamingRecorderTimelineProps>(
+  function LiveStreamingRecorderTimeline({ appearance, ...props }, ref) {
+    const { amplitudes, isRecording, isPaused, sampleInterval } = useLiveStreamingRecorderContext();
+    const [duration, setDuration] = useState(0);
+
+    // Amplitudes grow in place (same array), so poll the length each frame while recording, like Canvas
+    useEffect(() => {
+      const update = () => setDuration((amplitudes.length * sampleInterval) / 1000);
+      update();
+      if (!isRecording || isPaused) return;
+
+      let frame = requestAnimationFrame(function loop() {
+        update();
+        frame = requestAnimationFrame(loop);
+      });
+      return () => cancelAnimationFrame(frame);
+    }, [amplitudes, isRecording, isPaused, sampleInterval]);
+
+    // One bar per sample: bar + gap pixels every sampleInterval
+    const barWidth = appearance?.barWidth ?? DEFAULT_WAVEFORM_APPEARANCE.barWidth;
+    const barGap = appearance?.barGap ?? DEFAULT_WAVEFORM_APPEARANCE.barGap;
+    const pixelsPerSecond = ((barWidth + barGap) * 1000) / sampleInterval;
+
+    return (
+      <WaveformTimeline
+        ref={ref}
+        duration={duration}
+        pixelsPerSecond={pixelsPerSecond}
+        appearance={appearance}
+        {...props}
+      />
+    );
+  }
+);
+
 // ============================================================================
 // Compound Component Composition
 // ============================================================================
@@ -322,4 +309,5 @@ const LiveStreamingRecorderCanvas = forwardRef<HTMLCanvasElement, LiveStreamingR
 export const LiveStreamingRecorder = Object.assign(LiveStreamingRecorderRoot, {
   Root: LiveStreamingRecorderRoot,
   Canvas: LiveStreamingRecorderCanvas,
+  Timeline: LiveStreamingRecorderTimeline,
 });
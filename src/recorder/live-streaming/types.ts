@@ -34,6 +34,8 @@ export interface UseRecordingAmplitudesReturn {
   isPaused: boolean;
   /** Clear all amplitude data */
   clearAmplitudes: () => void;
+  /** Interval in ms between amplitude samples (each amplitude covers this much time) */
+  sampleInterval: number;
 }
 
 // ============================================================================
@@ -157,5 +157,6 @@ export function useRecordingAmplitudes(options: UseRecordingAmplitudesOptions):
     isRecording: mediaRecorder?.state === "recording",
     isPaused: mediaRecorder?.state === "paused",
     clearAmplitudes,
+    sampleInterval,
   };
 }
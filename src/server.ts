@@ -0,0 +1,126 @@
+// ============================================================================
+// Server Entry (react-audio-wavekit/server)
+// Peak generation for Node, route handlers and React Server Components
+// No DOM / Web Audio dependency: WAV is parsed in TypeScript, other formats use the WASM decoders
+// ============================================================================
+
+import type { DecodedAudio, PeakFormat, PeakPyramid, WaveformPeaks } from "./waveform/types.js";
+import type { ProgressCallback } from "./waveform/util-abort.js";
+import { getCodecFromMimeType, sniffAudioCodec } from "./waveform/util-audio-sniff.js";
+import {
+  getDecodedAudioInfo,
+  getReductionMetadata,
+  type PeakReduction,
+  type PeakReductionResult,
+  reduceChannelData,
+  sliceChannelData,
+  type TimeRange,
+  withPyramidSampleRate,
+} from "./waveform/util-peak-reduction.js";
+import type { PeakScaling } from "./waveform/util-peaks.js";
+import { decodeWithFallback } from "./waveform/util-wasm-decoder.js";
+
+export type {
+  AudioMetadata,
+  DecodedAudio,
+  PeakFormat,
+  PeakPair,
+  PeakPyramid,
+  WaveformPeaks,
+  WaveformPeaksInput,
+} from "./waveform/types.js";
+export type { AudioCodec } from "./waveform/util-audio-sniff.js";
+export type { AmplitudeScale, PeakNormalization, PeakScaling } from "./waveform/util-peaks.js";
+
+/**
+ * Encoded audio: a Blob/File, an ArrayBuffer, or a view such as a Node.js Buffer
+ */
+export type ServerAudioInput = Blob | ArrayBuffer | ArrayBufferView;
+
+export interface ServerDecodeOptions extends PeakScaling, TimeRange {
+  /** Number of peaks. Default: 500 (same as AudioWaveform during SSR) */
+  sampleCount?: number;
+  /** Keep every channel instead of only the first. Default: false */
+  splitChannels?: boolean;
+  /** Peak format to produce: "average" (`number[]`, 0-1) or "minmax" (interleaved `Float32Array`). Default: "average" */
+  peakFormat?: PeakFormat;
+  /** Build a multi-resolution peak pyramid instead of `sampleCount` peaks (ignores `peakFormat`). Default: false */
+  pyramid?: boolean;
+  /** Audio samples per peak at the finest pyramid level. Default: 256 */
+  samplesPerPeak?: number;
+  /** MIME type hint for data without recognizable magic bytes (defaults to the Blob's type) */
+  mimeType?: string;
+  /** Cancel decoding (rejects with an AbortError) */
+  signal?: AbortSignal;
+  /** Called with decode progress (0-1) */
+  onProgress?: ProgressCallback;
+}
+
+async function readInput(input: ServerAudioInput): Promise<ArrayBuffer> {
+  let arrayBuffer: ArrayBuffer;
+  if (input instanceof ArrayBuffer) {
+    arrayBuffer = input;
+  } else if (ArrayBuffer.isView(input)) {
+    // Copy the viewed range: a Node.js Buffer often shares a larger pooled ArrayBuffer
+    arrayBuffer = new Uint8Array(input.buffer, input.byteOffset, input.byteLength).slice().buffer;
+  } else {
+    arrayBuffer = await input.arrayBuffer();
+  }
+
+  if (arrayBuffer.byteLength === 0) {
+    throw new Error("Audio data is empty");
+  }
+
+  return arrayBuffer;
+}
+
+/**
+ * Decode audio into peaks plus its duration, sample rate, channel count and codec, outside the browser
+ * Produces the same peak format as the client decoder, ready for AudioWaveform's `peaks` prop
+ * Supports WAV, MP3, Ogg Vorbis, Opus and FLAC
+ */
+export function decodeAudio(
+  input: ServerAudioInput,
+  options: ServerDecodeOptions & { pyramid: true }
+): Promise<DecodedAudio<PeakPyramid>>;
+export function decodeAudio(
+  input: ServerAudioInput,
+  options?: ServerDecodeOptions & { pyramid?: false }
+): Promise<DecodedAudio<WaveformPeaks[]>>;
+export function decodeAudio(
+  input: ServerAudioInput,
+  options?: ServerDecodeOptions
+): Promise<DecodedAudio<PeakReductionResult>>;
+export async function decodeAudio(
+  input: ServerAudioInput,
+  {
+    sampleCount = 500,
+    splitChannels = false,
+    peakFormat = "average",
+    pyramid = false,
+    samplesPerPeak = 256,
+    mimeType,
+    normalize,
+    scale,
+    dbFloor,
+    startTime,
+    endTime,
+    signal,
+    onProgress,
+  }: ServerDecodeOptions = {}
+): Promise<DecodedAudio<PeakReductionResult>> {
+  const arrayBuffer = await readInput(input);
+  const type = mimeType ?? (typeof Blob !== "undefined" && input instanceof Blob ? input.type : "");
+  const codec = sniffAudioCodec(new Uint8Array(arrayBuffer)) ?? getCodecFromMimeType(type);
+
+  const decoded = await decodeWithFallback(arrayBuffer, type, { signal, onProgress });
+  const range: TimeRange = { startTime, endTime };
+  const selected = splitChannels ? decoded.channelData : decoded.channelData.slice(0, 1);
+  const channels = sliceChannelData(selected, decoded.sampleRate, range);
+  const reduction: PeakReduction = pyramid
+    ? { kind: "pyramid", samplesPerPeak }
+    : { kind: "peaks", sampleCount, peakFormat, scaling: { normalize, scale, dbFloor } };
+
+  const metadata = getReductionMetadata(getDecodedAudioInfo(decoded), codec, reduction, range);
+  return { peaks: withPyramidSampleRate(reduceChannelData(channels, reduction), metadata.sampleRate), ...metadata };
+}
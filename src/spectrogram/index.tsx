@@ -0,0 +1,269 @@
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from "react";
+import { DEFAULT_PLAYHEAD_APPEARANCE, DEFAULT_SPECTROGRAM_APPEARANCE } from "../constants";
+import type { SpectrogramAppearance } from "../types";
+import { type SeekCallbacks, useSeekInteraction } from "../waveform/use-seek-interaction";
+import { getDefaultSampleCount } from "../waveform/util-audio-decoder";
+import { unwrapPromise } from "../waveform/util-suspense";
+import { getColorLookup, type SpectrogramColorMap } from "./util-color-map";
+import { getSpectrogram, type SpectrogramData, type SpectrogramOptions } from "./util-spectrogram";
+
+// ============================================================================
+// Spectrogram - Time/frequency heat map with the same playback props as AudioWaveform
+// ============================================================================
+
+export interface SpectrogramProps
+  extends React.CanvasHTMLAttributes<HTMLCanvasElement>,
+    SeekCallbacks,
+    SpectrogramOptions {
+  /** Audio blob to analyze (provide either blob or data) */
+  blob?: Blob | null;
+  /** Pre-computed spectrogram (skips decoding when provided) */
+  data?: SpectrogramData;
+  /** Spectrogram appearance configuration (colorMap, playheadColor, etc.) */
+  appearance?: SpectrogramAppearance;
+  /** Enable Suspense mode (requires Suspense boundary in parent) */
+  suspense?: boolean;
+  /** Current playback time in seconds (shows playhead) */
+  currentTime?: number;
+  /** Total audio duration in seconds (for playhead positioning). Default: decoded duration */
+  duration?: number;
+  /** Called with decode progress (0-1) */
+  onDecodeProgress?: (progress: number) => void;
+}
+
+export interface SpectrogramRef {
+  canvas: HTMLCanvasElement | null;
+}
+
+/**
+ * Paint levels into an offscreen canvas with one pixel per frame and frequency row (low frequencies at the bottom)
+ */
+function createSpectrogramImage(data: SpectrogramData, colorMap: SpectrogramColorMap): HTMLCanvasElement | null {
+  const { values, frameCount, frequencyBins } = data;
+  if (frameCount === 0 || frequencyBins === 0) return null;
+
+  const image = document.createElement("canvas");
+  image.width = frameCount;
+  image.height = frequencyBins;
+  const ctx = image.getContext("2d");
+  if (!ctx) return null;
+
+  const lookup = getColorLookup(colorMap);
+  const pixels = ctx.createImageData(frameCount, frequencyBins);
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let bin = 0; bin < frequencyBins; bin++) {
+      const color = Math.round(values[frame * frequencyBins + bin] * 255) * 3;
+      const offset = ((frequencyBins - 1 - bin) * frameCount + frame) * 4;
+      pixels.data[offset] = lookup[color];
+      pixels.data[offset + 1] = lookup[color + 1];
+      pixels.data[offset + 2] = lookup[color + 2];
+      pixels.data[offset + 3] = 255;
+    }
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return image;
+}
+
+export const Spectrogram = forwardRef<SpectrogramRef, SpectrogramProps>(function Spectrogram(
+  {
+    blob,
+    data: precomputedData,
+    fftSize,
+    windowFunction,
+    frequencyScale,
+    frequencyBins,
+    minFrequency,
+    maxFrequency,
+    frameCount,
+    dbRange,
+    appearance,
+    suspense = false,
+    currentTime,
+    duration,
+    onDecodeProgress,
+    onSeek,
+    onSeekStart,
+    onSeekDrag,
+    onSeekEnd,
+    onClick,
+    style,
+    ...props
+  },
+  ref
+) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sizeRef = useRef({ width: 0, height: 0 });
+  const rafRef = useRef<number>(0);
+  const [decodedData, setDecodedData] = useState<SpectrogramData | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [isMounted, setIsMounted] = useState(false);
+  const onDecodeProgressRef = useRef(onDecodeProgress);
+  onDecodeProgressRef.current = onDecodeProgress;
+  const reportProgress = useCallback((progress: number) => onDecodeProgressRef.current?.(progress), []);
+
+  useImperativeHandle(ref, () => ({
+    canvas: canvasRef.current,
+  }));
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  // One column per screen pixel by default, like AudioWaveform's sample count
+  const defaultFrameCount = useMemo(() => getDefaultSampleCount(), []);
+  const options = useMemo<SpectrogramOptions>(
+    () => ({
+      fftSize,
+      windowFunction,
+      frequencyScale,
+      frequencyBins,
+      minFrequency,
+      maxFrequency,
+      frameCount: frameCount ?? defaultFrameCount,
+      dbRange,
+    }),
+    [
+      fftSize,
+      windowFunction,
+      frequencyScale,
+      frequencyBins,
+      minFrequency,
+      maxFrequency,
+      frameCount,
+      defaultFrameCount,
+      dbRange,
+    ]
+  );
+
+  const shouldDecode = !precomputedData && blob;
+
+  // Suspense mode: unwrap the cached promise during render
+  const suspenseData =
+    shouldDecode && suspense && isMounted
+      ? unwrapPromise(getSpectrogram(blob, { ...options, onProgress: reportProgress }))
+      : null;
+
+  // Non-suspense mode: decode when blob or options change (aborted on change/unmount)
+  useEffect(() => {
+    if (!shouldDecode || suspense) {
+      if (!shouldDecode) {
+        setDecodedData(null);
+        setError(null);
+      }
+      return;
+    }
+
+    const controller = new AbortController();
+    setError(null);
+
+    getSpectrogram(shouldDecode, { ...options, signal: controller.signal, onProgress: reportProgress })
+      .then((result) => {
+        if (!controller.signal.aborted) {
+          setDecodedData(result);
+        }
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err : new Error(err?.message || "Failed to decode audio"));
+        }
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [shouldDecode, suspense, options, reportProgress]);
+
+  if (error) {
+    throw error;
+  }
+
+  const data = precomputedData ?? (shouldDecode ? (suspense ? suspenseData : decodedData) : null);
+  const totalDuration = duration ?? data?.duration ?? 0;
+  const colorMap = appearance?.colorMap ?? DEFAULT_SPECTROGRAM_APPEARANCE.colorMap;
+
+  // Rebuilt only when the data or color map changes; resizing just rescales it
+  const image = useMemo(
+    () => (data && typeof document !== "undefined" ? createSpectrogramImage(data, colorMap) : null),
+    [data, colorMap]
+  );
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const { width, height } = sizeRef.current;
+    if (!canvas || width === 0 || height === 0) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const targetWidth = width * dpr;
+    const targetHeight = height * dpr;
+    if (canvas.width !== targetWidth || canvas.height !== targetHeight) {
+      canvas.width = targetWidth;
+      canvas.height = targetHeight;
+    }
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    if (!image) return;
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(image, 0, 0, width, height);
+
+    // Render playhead (only when currentTime and duration are available)
+    if (currentTime !== undefined && totalDuration > 0 && currentTime >= 0 && currentTime <= totalDuration) {
+      const playheadX = (currentTime / totalDuration) * width;
+      const playheadColor = appearance?.playheadColor ?? DEFAULT_PLAYHEAD_APPEARANCE.playheadColor;
+      const playheadWidth = appearance?.playheadWidth ?? DEFAULT_PLAYHEAD_APPEARANCE.playheadWidth;
+
+      ctx.fillStyle = playheadColor;
+      ctx.fillRect(playheadX - playheadWidth / 2, 0, playheadWidth, height);
+    }
+  }, [image, currentTime, totalDuration, appearance]);
+
+  // ResizeObserver with RAF throttling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const resizeObserver = new ResizeObserver((entries) => {
+      const entry = entries[0];
+      if (!entry) return;
+
+      const { width, height } = entry.contentRect;
+      if (sizeRef.current.width === width && sizeRef.current.height === height) return;
+
+      sizeRef.current = { width, height };
+
+      cancelAnimationFrame(rafRef.current);
+      rafRef.current = requestAnimationFrame(draw);
+    });
+
+    resizeObserver.observe(canvas);
+    return () => {
+      resizeObserver.disconnect();
+      cancelAnimationFrame(rafRef.current);
+    };
+  }, [draw]);
+
+  useEffect(() => {
+    draw();
+  }, [draw]);
+
+  const { cursor, canvasProps } = useSeekInteraction({
+    canvasRef,
+    currentTime,
+    startTime: 0,
+    endTime: totalDuration,
+    onSeek,
+    onSeekStart,
+    onSeekDrag,
+    onSeekEnd,
+    onClick,
+    labels: { interactive: "Audio seek", static: "Audio spectrogram" },
+  });
+
+  return <canvas ref={canvasRef} {...canvasProps} style={{ cursor, ...style }} {...props} />;
+});
+
+export default Spectrogram;
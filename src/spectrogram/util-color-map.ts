@@ -0,0 +1,50 @@
+// ============================================================================
+// Color Maps - Level (0-1) to RGB lookup tables for the spectrogram
+// ============================================================================
+
+export type SpectrogramColorMap = "viridis" | "magma" | "grayscale";
+
+// Evenly spaced stops, interpolated linearly
+const COLOR_STOPS: Record<SpectrogramColorMap, string[]> = {
+  viridis: [
+    "#440154",
+    "#482878",
+    "#3e4989",
+    "#31688e",
+    "#26828e",
+    "#1f9e89",
+    "#35b779",
+    "#6ece58",
+    "#b5de2b",
+    "#fde725",
+  ],
+  magma: ["#000004", "#180f3d", "#440f76", "#721f81", "#9e2f7f", "#cd4071", "#f1605d", "#fd9668", "#feca8d", "#fcfdbf"],
+  grayscale: ["#000000", "#ffffff"],
+};
+
+const LOOKUP_SIZE = 256;
+const lookupCache = new Map<SpectrogramColorMap, Uint8ClampedArray>();
+
+const parseHex = (hex: string) => [1, 3, 5].map((offset) => Number.parseInt(hex.slice(offset, offset + 2), 16));
+
+/**
+ * 256-entry RGB lookup table for a color map (memoized)
+ */
+export function getColorLookup(colorMap: SpectrogramColorMap): Uint8ClampedArray {
+  let lookup = lookupCache.get(colorMap);
+  if (lookup) return lookup;
+
+  const stops = COLOR_STOPS[colorMap].map(parseHex);
+  lookup = new Uint8ClampedArray(LOOKUP_SIZE * 3);
+  for (let i = 0; i < LOOKUP_SIZE; i++) {
+    const position = (i / (LOOKUP_SIZE - 1)) * (stops.length - 1);
+    const index = Math.min(stops.length - 2, Math.floor(position));
+    const fraction = position - index;
+    for (let c = 0; c < 3; c++) {
+      lookup[i * 3 + c] = stops[index][c] + (stops[index + 1][c] - stops[index][c]) * fraction;
+    }
+  }
+
+  lookupCache.set(colorMap, lookup);
+  return lookup;
+}
@@ -0,0 +1,305 @@
+import { throwIfAborted } from "../waveform/util-abort";
+import { decodeAudioChannels } from "../waveform/util-audio-decoder";
+import type { AudioDecodeOptions } from "../waveform/util-decoder-registry";
+import { getCachedPeaks } from "../waveform/util-peak-cache";
+
+// ============================================================================
+// Spectrogram - Short-time Fourier transform of decoded audio
+// ============================================================================
+
+export type SpectrogramWindowFunction = "hann" | "hamming" | "blackman" | "rectangular";
+
+/**
+ * Frequency axis of the spectrogram
+ * - `linear`: equal Hz per row (one row per FFT bin by default)
+ * - `log`: equal ratio per row (octaves get the same height)
+ * - `mel`: mel scale (triangular filter bank), close to pitch perception - good for speech
+ */
+export type SpectrogramFrequencyScale = "linear" | "log" | "mel";
+
+export interface SpectrogramOptions {
+  /** FFT size in samples (power of 2). Default: 1024 */
+  fftSize?: number;
+  /** Window function applied to each frame. Default: "hann" */
+  windowFunction?: SpectrogramWindowFunction;
+  /** Frequency axis. Default: "linear" */
+  frequencyScale?: SpectrogramFrequencyScale;
+  /** Number of frequency rows. Default: fftSize / 2 for "linear", 128 for "log" and "mel" */
+  frequencyBins?: number;
+  /** Lowest frequency in Hz. Default: 0 (20 for "log") */
+  minFrequency?: number;
+  /** Highest frequency in Hz. Default: half the sample rate */
+  maxFrequency?: number;
+  /**
+   * Number of time frames (columns); frames overlap or skip samples to fit
+   * Default: one frame every fftSize / 4 samples, capped so frames x frequencyBins stays within 2^21 levels (8 MiB)
+   */
+  frameCount?: number;
+  /** Dynamic range in dB mapped onto 0-1 (levels below -dbRange dBFS are 0). Default: 90 */
+  dbRange?: number;
+}
+
+export interface SpectrogramData {
+  /** Row-major levels (0-1): `values[frame * frequencyBins + bin]`, bin 0 is the lowest frequency */
+  values: Float32Array;
+  /** Number of time frames (columns) */
+  frameCount: number;
+  /** Number of frequency rows */
+  frequencyBins: number;
+  /** Center frequency of each row in Hz */
+  frequencies: Float32Array;
+  /** Duration of the analyzed audio in seconds */
+  duration: number;
+  sampleRate: number;
+}
+
+// Bounds the default resolution of long audio, e.g. 4096 frames of 512 rows
+const MAX_DEFAULT_LEVELS = 1 << 21;
+
+// ============================================================================
+// FFT
+// ============================================================================
+
+function createWindow(type: SpectrogramWindowFunction, size: number): Float32Array {
+  return Float32Array.from({ length: size }, (_, i) => {
+    const phase = (2 * Math.PI * i) / (size - 1);
+    switch (type) {
+      case "hann":
+        return 0.5 - 0.5 * Math.cos(phase);
+      case "hamming":
+        return 0.54 - 0.46 * Math.cos(phase);
+      case "blackman":
+        return 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+      default:
+        return 1;
+    }
+  });
+}
+
+/**
+ * In-place iterative radix-2 FFT
+ */
+function fft(real: Float64Array, imag: Float64Array) {
+  const size = real.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < size; start += length) {
+      let twiddleReal = 1;
+      let twiddleImag = 0;
+      for (let k = 0; k < length / 2; k++) {
+        const even = start + k;
+        const odd = even + length / 2;
+        const oddReal = real[odd] * twiddleReal - imag[odd] * twiddleImag;
+        const oddImag = real[odd] * twiddleImag + imag[odd] * twiddleReal;
+        real[odd] = real[even] - oddReal;
+        imag[odd] = imag[even] - oddImag;
+        real[even] += oddReal;
+        imag[even] += oddImag;
+        const nextReal = twiddleReal * stepReal - twiddleImag * stepImag;
+        twiddleImag = twiddleReal * stepImag + twiddleImag * stepReal;
+        twiddleReal = nextReal;
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Frequency Scales
+// ============================================================================
+
+const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const fromMel = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+/**
+ * FFT bins and weights that make up one output row
+ */
+interface FrequencyRow {
+  bins: number[];
+  weights: number[];
+}
+
+/**
+ * Map FFT bins onto output rows with triangular filters spaced evenly on the chosen scale
+ * Rows narrower than one FFT bin interpolate between the two nearest bins
+ */
+function createFrequencyRows(
+  scale: SpectrogramFrequencyScale,
+  rowCount: number,
+  minFrequency: number,
+  maxFrequency: number,
+  fftSize: number,
+  sampleRate: number
+): { rows: FrequencyRow[]; frequencies: Float32Array } {
+  const [toScale, fromScale] =
+    scale === "mel"
+      ? [toMel, fromMel]
+      : scale === "log"
+        ? [Math.log, Math.exp]
+        : [(hz: number) => hz, (value: number) => value];
+  const low = toScale(minFrequency);
+  const high = toScale(maxFrequency);
+  // rowCount + 2 edges: each row's triangle spans its neighbours' centers
+  const edges = Array.from({ length: rowCount + 2 }, (_, i) => fromScale(low + ((high - low) * i) / (rowCount + 1)));
+  const binWidth = sampleRate / fftSize;
+  const lastBin = fftSize / 2;
+
+  const rows = Array.from({ length: rowCount }, (_, row): FrequencyRow => {
+    const [left, center, right] = [edges[row], edges[row + 1], edges[row + 2]];
+    const bins: number[] = [];
+    const weights: number[] = [];
+    for (let bin = Math.ceil(left / binWidth); bin <= Math.min(lastBin, Math.floor(right / binWidth)); bin++) {
+      const hz = bin * binWidth;
+      const weight = hz <= center ? (hz - left) / (center - left || 1) : (right - hz) / (right - center || 1);
+      if (weight > 0) {
+        bins.push(bin);
+        weights.push(weight);
+      }
+    }
+
+    if (bins.length === 0) {
+      const position = Math.min(lastBin, center / binWidth);
+      const lower = Math.floor(position);
+      const upper = Math.min(lastBin, lower + 1);
+      return { bins: [lower, upper], weights: [1 - (position - lower), position - lower] };
+    }
+
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    return { bins, weights: weights.map((weight) => weight / total) };
+  });
+
+  return { rows, frequencies: Float32Array.from(edges.slice(1, -1)) };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Compute a spectrogram from decoded channel data (channels are mixed down to mono)
+ */
+export function computeSpectrogram(
+  channels: Float32Array[],
+  sampleRate: number,
+  {
+    fftSize = 1024,
+    windowFunction = "hann",
+    frequencyScale = "linear",
+    frequencyBins = frequencyScale === "linear" ? fftSize / 2 : 128,
+    minFrequency = frequencyScale === "log" ? 20 : 0,
+    maxFrequency = sampleRate / 2,
+    frameCount,
+    dbRange = 90,
+  }: SpectrogramOptions = {}
+): SpectrogramData {
+  if (fftSize < 2 || (fftSize & (fftSize - 1)) !== 0) {
+    throw new Error(`fftSize must be a power of 2, got ${fftSize}`);
+  }
+
+  const length = channels.length ? Math.min(...channels.map((channel) => channel.length)) : 0;
+  const nyquist = sampleRate / 2;
+  const high = Math.min(Math.max(maxFrequency, 1), nyquist);
+  const low = Math.max(0, Math.min(minFrequency, high));
+  const { rows, frequencies } = createFrequencyRows(
+    frequencyScale,
+    frequencyBins,
+    frequencyScale === "log" ? Math.max(low, 1) : low,
+    high,
+    fftSize,
+    sampleRate
+  );
+
+  const defaultFrames = Math.min(
+    Math.ceil(length / (fftSize / 4)),
+    Math.max(1, Math.floor(MAX_DEFAULT_LEVELS / frequencyBins))
+  );
+  const frames = Math.max(0, Math.floor(frameCount ?? defaultFrames));
+  const values = new Float32Array(frames * frequencyBins);
+  const result = { values, frameCount: frames, frequencyBins, frequencies, duration: length / sampleRate, sampleRate };
+  if (length === 0 || frames === 0) return result;
+
+  const window = createWindow(windowFunction, fftSize);
+  // Scale so a full-scale sine reads 0 dB
+  const windowGain = window.reduce((sum, value) => sum + value, 0) / 2;
+  const real = new Float64Array(fftSize);
+  const imag = new Float64Array(fftSize);
+  const power = new Float64Array(fftSize / 2 + 1);
+  const hop = length / frames;
+
+  for (let frame = 0; frame < frames; frame++) {
+    // Frame centered on its time slot
+    const start = Math.round((frame + 0.5) * hop - fftSize / 2);
+    for (let i = 0; i < fftSize; i++) {
+      const index = start + i;
+      let sample = 0;
+      if (index >= 0 && index < length) {
+        for (const channel of channels) sample += channel[index];
+        sample /= channels.length;
+      }
+      real[i] = sample * window[i];
+      imag[i] = 0;
+    }
+
+    fft(real, imag);
+    for (let bin = 0; bin < power.length; bin++) {
+      power[bin] = (real[bin] * real[bin] + imag[bin] * imag[bin]) / (windowGain * windowGain);
+    }
+
+    rows.forEach(({ bins, weights }, row) => {
+      let rowPower = 0;
+      for (let i = 0; i < bins.length; i++) rowPower += power[bins[i]] * weights[i];
+      const db = rowPower > 0 ? 10 * Math.log10(rowPower) : -Infinity;
+      values[frame * frequencyBins + row] = Math.max(0, Math.min(1, 1 + db / dbRange));
+    });
+  }
+
+  return result;
+}
+
+export interface DecodeSpectrogramOptions extends SpectrogramOptions, AudioDecodeOptions {}
+
+/**
+ * Decode a blob with the registered decoders and compute its spectrogram
+ */
+export async function decodeSpectrogram(blob: Blob, options: DecodeSpectrogramOptions = {}): Promise<SpectrogramData> {
+  const { channelData, sampleRate } = await decodeAudioChannels(blob, true, options);
+  throwIfAborted(options.signal);
+  return computeSpectrogram(channelData, sampleRate, options);
+}
+
+/**
+ * Cached loader for Spectrogram (Suspense needs a stable promise per Blob and options)
+ */
+export function getSpectrogram(blob: Blob, options: DecodeSpectrogramOptions = {}): Promise<SpectrogramData> {
+  const {
+    fftSize = 1024,
+    windowFunction = "hann",
+    frequencyScale = "linear",
+    frequencyBins,
+    minFrequency,
+    maxFrequency,
+    frameCount,
+    dbRange = 90,
+    signal,
+    onProgress,
+  } = options;
+  const key = `spectrogram:${fftSize}:${windowFunction}:${frequencyScale}:${frequencyBins ?? "auto"}:${minFrequency ?? "auto"}-${maxFrequency ?? "auto"}:${frameCount ?? "auto"}:${dbRange}`;
+
+  return getCachedPeaks(blob, key, (loadOptions) => decodeSpectrogram(blob, { ...options, ...loadOptions }), {
+    signal,
+    onProgress,
+  });
+}
@@ -0,0 +1,154 @@
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useRef } from "react";
+import { DEFAULT_TIMELINE_APPEARANCE } from "../constants";
+import type { WaveformTimelineAppearance } from "../types";
+import { formatTimelineLabel, getMajorStep, getTimelineTicks, type TimelineFormat } from "./util-ticks";
+
+// ============================================================================
+// WaveformTimeline - Time ruler that follows AudioWaveform or LiveStreamingRecorder.Canvas
+// ============================================================================
+
+export interface WaveformTimelineProps extends React.CanvasHTMLAttributes<HTMLCanvasElement> {
+  /** Time at the left edge in seconds. Default: 0 */
+  startTime?: number;
+  /**
+   * Time at the right edge in seconds; the range is fitted to the element width
+   * Pass AudioWaveform's `onVisibleRangeChange` range to follow its zoom and scroll. Default: `duration`
+   */
+  endTime?: number;
+  /** Total duration in seconds */
+  duration?: number;
+  /**
+   * Fixed scale instead of a fitted range: the element is `duration * pixelsPerSecond` wide (at least its container)
+   * and scrolls with its container, like LiveStreamingRecorder.Canvas
+   */
+  pixelsPerSecond?: number;
+  /** Label format. Default: "mm:ss" */
+  format?: TimelineFormat;
+  /** Frames per second for the "frames" format. Default: 30 */
+  frameRate?: number;
+  /** Minimum distance between labels in pixels; tick density adapts to keep it. Default: 80 */
+  minLabelSpacing?: number;
+  /** Timeline appearance configuration (tickColor, labelColor, fontSize) */
+  appearance?: WaveformTimelineAppearance;
+}
+
+export interface WaveformTimelineRef {
+  canvas: HTMLCanvasElement | null;
+}
+
+export const WaveformTimeline = forwardRef<WaveformTimelineRef, WaveformTimelineProps>(function WaveformTimeline(
+  {
+    startTime = 0,
+    endTime,
+    duration,
+    pixelsPerSecond,
+    format = "mm:ss",
+    frameRate = 30,
+    minLabelSpacing = 80,
+    appearance,
+    style,
+    ...props
+  },
+  ref
+) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sizeRef = useRef({ width: 0, height: 0 });
+  const rafRef = useRef<number>(0);
+
+  useImperativeHandle(ref, () => ({
+    canvas: canvasRef.current,
+  }));
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const { width, height } = sizeRef.current;
+    if (!canvas || width === 0 || height === 0) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const targetWidth = width * dpr;
+    const targetHeight = height * dpr;
+    if (canvas.width !== targetWidth || canvas.height !== targetHeight) {
+      canvas.width = targetWidth;
+      canvas.height = targetHeight;
+    }
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    // Fixed scale covers the whole element; otherwise the range is stretched over it
+    const end = pixelsPerSecond ? startTime + width / pixelsPerSecond : (endTime ?? duration ?? 0);
+    if (end <= startTime) return;
+
+    const frames = format === "frames" ? frameRate : undefined;
+    const ticks = getTimelineTicks(startTime, end, width, { minLabelSpacing, frameRate: frames });
+    const step = getMajorStep(width / (end - startTime), minLabelSpacing, frames);
+    const fontSize = appearance?.fontSize ?? DEFAULT_TIMELINE_APPEARANCE.fontSize;
+
+    ctx.fillStyle = appearance?.tickColor ?? DEFAULT_TIMELINE_APPEARANCE.tickColor;
+    for (const tick of ticks) {
+      const x = Math.round(((tick.time - startTime) / (end - startTime)) * width);
+      ctx.fillRect(x, 0, 1, tick.major ? height * 0.5 : height * 0.25);
+    }
+
+    // Labels next to the major ticks, along the bottom edge
+    ctx.fillStyle = appearance?.labelColor ?? DEFAULT_TIMELINE_APPEARANCE.labelColor;
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.textBaseline = "bottom";
+    for (const tick of ticks) {
+      if (!tick.major) continue;
+      const x = Math.round(((tick.time - startTime) / (end - startTime)) * width);
+      ctx.fillText(formatTimelineLabel(tick.time, format, step, frameRate), x + 3, height - 1);
+    }
+  }, [startTime, endTime, duration, pixelsPerSecond, format, frameRate, minLabelSpacing, appearance]);
+
+  // ResizeObserver with RAF throttling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const resizeObserver = new ResizeObserver((entries) => {
+      const entry = entries[0];
+      if (!entry) return;
+
+      const { width, height } = entry.contentRect;
+      if (sizeRef.current.width === width && sizeRef.current.height === height) return;
+
+      sizeRef.current = { width, height };
+
+      cancelAnimationFrame(rafRef.current);
+      rafRef.current = requestAnimationFrame(draw);
+    });
+
+    resizeObserver.observe(canvas);
+    return () => {
+      resizeObserver.disconnect();
+      cancelAnimationFrame(rafRef.current);
+    };
+  }, [draw]);
+
+  useEffect(() => {
+    draw();
+  }, [draw]);
+
+  // Fixed scale: grow with the duration so the timeline scrolls together with the waveform
+  const scaledWidth = pixelsPerSecond && duration ? duration * pixelsPerSecond : undefined;
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{
+        display: "block",
+        ...(pixelsPerSecond ? { width: scaledWidth ?? "100%", minWidth: "100%" } : undefined),
+        ...style,
+      }}
+      aria-hidden="true"
+      tabIndex={-1}
+      {...props}
+    />
+  );
+});
+
+export default WaveformTimeline;
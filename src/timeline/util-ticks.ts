@@ -0,0 +1,102 @@
+import { formatTime } from "../waveform/util-time";
+
+// ============================================================================
+// Timeline Ticks - Adaptive tick intervals and time labels for WaveformTimeline
+// ============================================================================
+
+/**
+ * Label format of WaveformTimeline
+ * - `mm:ss`: "1:05" (switches to "1:02:05" past an hour)
+ * - `hh:mm:ss`: always with hours, "0:01:05"
+ * - `frames`: "1:05:12" (seconds plus frame number at `frameRate`)
+ * - function: custom label for a tick time
+ */
+export type TimelineFormat = "mm:ss" | "hh:mm:ss" | "frames" | ((time: number) => string);
+
+export interface TimelineTick {
+  /** Tick time in seconds */
+  time: number;
+  /** Major ticks are longer and carry a label */
+  major: boolean;
+}
+
+// Candidate label intervals in seconds (clock-friendly from one second up)
+const SECOND_STEPS = [
+  0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600, 7200,
+  18000, 36000, 86400,
+];
+// Sub-second label intervals in frames for the "frames" format
+const FRAME_STEPS = [1, 2, 5, 10];
+// Minor ticks closer than this (px) are skipped
+const MIN_MINOR_SPACING = 6;
+
+// Whole frames below one second with a frame rate, SECOND_STEPS otherwise
+const getCandidateSteps = (frameRate?: number) =>
+  frameRate
+    ? [
+        ...FRAME_STEPS.map((frames) => frames / frameRate).filter((step) => step < 1),
+        ...SECOND_STEPS.filter((step) => step >= 1),
+      ]
+    : SECOND_STEPS;
+
+const isMultipleOf = (value: number, step: number) => Math.abs(value / step - Math.round(value / step)) < 1e-6;
+
+/**
+ * Label (major) interval: the smallest candidate step whose labels are at least `minLabelSpacing` px apart
+ */
+export function getMajorStep(pixelsPerSecond: number, minLabelSpacing: number, frameRate?: number): number {
+  const steps = getCandidateSteps(frameRate);
+  return steps.find((step) => step * pixelsPerSecond >= minLabelSpacing) ?? steps[steps.length - 1];
+}
+
+/**
+ * Ticks between `start` and `end` (seconds) on a `width` px wide axis
+ * Label density adapts to the scale; minor ticks split each label interval when there is room
+ */
+export function getTimelineTicks(
+  start: number,
+  end: number,
+  width: number,
+  { minLabelSpacing = 80, frameRate }: { minLabelSpacing?: number; frameRate?: number } = {}
+): TimelineTick[] {
+  const duration = end - start;
+  if (duration <= 0 || width <= 0) return [];
+
+  const pixelsPerSecond = width / duration;
+  const major = getMajorStep(pixelsPerSecond, minLabelSpacing, frameRate);
+  // Minor ticks: the finest candidate step that divides the label interval and still has room
+  const minor =
+    getCandidateSteps(frameRate).find(
+      (step) => step < major && step * pixelsPerSecond >= MIN_MINOR_SPACING && isMultipleOf(major, step)
+    ) ?? major;
+  const division = Math.round(major / minor);
+
+  const ticks: TimelineTick[] = [];
+  // + 0 turns -0 (ceil of a tiny negative) into 0
+  const first = Math.ceil(start / minor - 1e-9) + 0;
+  for (let index = first; index * minor <= end + 1e-9; index++) {
+    const time = index * minor;
+    ticks.push({ time, major: index % division === 0 });
+  }
+  return ticks;
+}
+
+/**
+ * Label for a tick; sub-second label steps get as many decimals as they need
+ */
+export function formatTimelineLabel(time: number, format: TimelineFormat, step: number, frameRate = 30): string {
+  if (typeof format === "function") return format(time);
+
+  if (format === "frames") {
+    const frame = Math.round(time * frameRate);
+    const seconds = Math.floor(frame / frameRate);
+    return `${formatTime(seconds)}:${String(frame % frameRate).padStart(2, "0")}`;
+  }
+
+  const decimals = step < 1 ? Math.min(3, Math.ceil(-Math.log10(step) - 1e-9)) : 0;
+  const label = formatTime(time, decimals);
+  if (format === "mm:ss" || label.split(":").length > 2) return label;
+  // "hh:mm:ss" below one hour: prefix the hour and pad the minutes
+  const [minutes, rest] = label.split(":");
+  return `0:${minutes.padStart(2, "0")}:${rest}`;
+}
@@ -1,3 +1,5 @@
+import type { SpectrogramColorMap } from "./spectrogram/util-color-map";
+
 // ============================================================================
 // Appearance Types - Common visualization style definitions
 // ============================================================================
@@ -19,20 +21,101 @@ export interface WaveformAppearance {
   barHeightScale?: number;
 }
 
+/**
+ * Linear gradient fill, spanning the waveform height ("vertical") or the whole clip width ("horizontal")
+ */
+export interface WaveformGradient {
+  /** Gradient axis. Default: "vertical" (top to bottom) */
+  direction?: "vertical" | "horizontal";
+  /** Color stops; `offset` runs from 0 (top/left) to 1 (bottom/right) */
+  stops: { offset: number; color: string }[];
+}
+
+/**
+ * Bar fill: a CSS color or a linear gradient
+ */
+export type WaveformFill = string | WaveformGradient;
+
 /**
  * AudioWaveform-specific appearance configuration
- * Extends WaveformAppearance with playhead styles
+ * Extends WaveformAppearance with playhead styles and gradient bar fills
  */
-export interface AudioWaveformAppearance extends WaveformAppearance {
+export interface AudioWaveformAppearance extends Omit<WaveformAppearance, "barColor"> {
+  /** Bar color (CSS color or gradient). Default: "#3b82f6" (blue-500) */
+  barColor?: WaveformFill;
+  /** Color of the bars left of the playhead (CSS color or gradient). Default: same as barColor */
+  progressColor?: WaveformFill;
   /** Playhead color (CSS color value). Default: "#ef4444" (red-500) */
   playheadColor?: string;
   /** Playhead width (pixels). Default: 2 */
   playheadWidth?: number;
+  /** Fill color of the not-yet-loaded region during progressive loading. Default: "rgba(148, 163, 184, 0.2)" */
+  loadingColor?: string;
+  /** Opacity of bars inside `dimmedRanges` (0.0 - 1.0). Default: 0.3 */
+  dimmedOpacity?: number;
+  /** Line color of the `loudness` overlay (CSS color value). Default: "#f59e0b" (amber-500) */
+  loudnessColor?: string;
+  /** Line color of the `targetLoudness` level. Default: "rgba(239, 68, 68, 0.6)" */
+  loudnessTargetColor?: string;
+  /** Line color of the `beats` grid. Default: "rgba(148, 163, 184, 0.6)" */
+  beatColor?: string;
+  /** Default fill of `regions` without their own color. Default: "rgba(59, 130, 246, 0.2)" */
+  regionColor?: string;
+  /** Color of region edges (drag handles). Default: "rgba(59, 130, 246, 0.8)" */
+  regionHandleColor?: string;
+  /** Text color of region labels. Default: "#1e293b" (slate-800) */
+  regionLabelColor?: string;
+  /** Line and flag color of `markers` without their own color. Default: "#10b981" (emerald-500) */
+  markerColor?: string;
+  /** Text color of marker labels. Default: "#ffffff" */
+  markerLabelColor?: string;
+  /** Color of the hover line under the pointer. Default: "rgba(100, 116, 139, 0.8)" (slate-500) */
+  hoverColor?: string;
+  /** Text color of the canvas hover time label (see `hoverLabel`). Default: "#ffffff" */
+  hoverLabelColor?: string;
+  /** Background of the canvas hover time label. Default: "rgba(15, 23, 42, 0.8)" (slate-900) */
+  hoverLabelBackground?: string;
+  /** Horizontal scrollbar shown while zoomed (see the `zoom` prop) */
+  scrollbar?: ScrollbarAppearance;
+}
+
+/**
+ * Spectrogram appearance configuration
+ */
+export interface SpectrogramAppearance {
+  /** Color map from quiet to loud. Default: "viridis" */
+  colorMap?: SpectrogramColorMap;
+  /** Playhead color (CSS color value). Default: "#ef4444" (red-500) */
+  playheadColor?: string;
+  /** Playhead width (pixels). Default: 2 */
+  playheadWidth?: number;
+}
+
+/**
+ * WaveformOverview appearance configuration (waveform options plus the viewport rectangle)
+ */
+export interface WaveformOverviewAppearance extends AudioWaveformAppearance {
+  /** Fill of the viewport rectangle (the part shown by the detail waveform). Default: "rgba(59, 130, 246, 0.15)" */
+  viewportColor?: string;
+  /** Border of the viewport rectangle. Default: "rgba(59, 130, 246, 0.8)" (blue-500) */
+  viewportBorderColor?: string;
+}
+
+/**
+ * WaveformTimeline appearance configuration
+ */
+export interface WaveformTimelineAppearance {
+  /** Tick color (CSS color value). Default: "rgba(100, 116, 139, 0.6)" (slate-500) */
+  tickColor?: string;
+  /** Label color (CSS color value). Default: "#64748b" (slate-500) */
+  labelColor?: string;
+  /** Label font size (pixels). Default: 10 */
+  fontSize?: number;
 }
 
 /**
  * Scrollbar appearance configuration
- * Used by LiveStreamingRecorder for custom scrollbar styling (OverlayScrollbars)
+ * Used by LiveStreamingRecorder and zoomed AudioWaveform for custom scrollbar styling (OverlayScrollbars)
  */
 export interface ScrollbarAppearance {
   /** Scrollbar thumb/handle color (CSS color value). Default: "rgba(148, 163, 184, 0.5)" */
@@ -0,0 +1,79 @@
+import { type UseOverlayScrollbarsParams, useOverlayScrollbars } from "overlayscrollbars-react";
+import { useEffect, useId } from "react";
+import { DEFAULT_SCROLLBAR_APPEARANCE } from "./constants";
+import type { ScrollbarAppearance } from "./types";
+
+/**
+ * Horizontal OverlayScrollbars with a per-instance theme built from ScrollbarAppearance
+ * Shared between LiveStreamingRecorder.Root and zoomed AudioWaveform
+ * Returns the `useOverlayScrollbars` tuple: [initialize, instance]
+ */
+export function useThemedScrollbars(scrollbar?: ScrollbarAppearance, events?: UseOverlayScrollbarsParams["events"]) {
+  // Generate unique scrollbar theme class name (prevent style conflicts between instances)
+  const uniqueId = useId().replace(/:/g, "");
+  const themeClassName = `os-theme-wavekit-${uniqueId}`;
+
+  // Extract scrollbar appearance values
+  const thumbColor = scrollbar?.thumbColor ?? DEFAULT_SCROLLBAR_APPEARANCE.thumbColor;
+  const hidden = scrollbar?.hidden ?? DEFAULT_SCROLLBAR_APPEARANCE.hidden;
+
+  // Initialize OverlayScrollbars hook
+  const [initializeOS, osInstance] = useOverlayScrollbars({
+    options: {
+      overflow: { x: "scroll", y: "hidden" },
+      scrollbars: {
+        theme: themeClassName,
+        visibility: hidden ? "hidden" : "auto",
+        autoHide: "leave", // Hide when mouse leaves area (most common UX)
+        autoHideDelay: 400,
+        dragScroll: true,
+        clickScroll: true,
+      },
+    },
+    events,
+    defer: true,
+  });
+
+  // Update scrollbar visibility when hidden option changes
+  useEffect(() => {
+    const instance = osInstance();
+    if (instance) {
+      instance.options({
+        scrollbars: {
+          visibility: hidden ? "hidden" : "auto",
+        },
+      });
+    }
+  }, [osInstance, hidden]);
+
+  // Inject OverlayScrollbars theme CSS variables (only thumbColor is customizable)
+  useEffect(() => {
+    const styleId = `wavekit-os-theme-${uniqueId}`;
+    document.getElementById(styleId)?.remove();
+
+    const styleElement = document.createElement("style");
+    styleElement.id = styleId;
+    styleElement.textContent = `
+      .${themeClassName} {
+        --os-size: 8px;
+        --os-padding-perpendicular: 2px;
+        --os-padding-axis: 2px;
+        --os-track-border-radius: 4px;
+        --os-track-bg: transparent;
+        --os-track-bg-hover: transparent;
+        --os-handle-border-radius: 4px;
+        --os-handle-bg: ${thumbColor};
+        --os-handle-bg-hover: ${thumbColor};
+        --os-handle-bg-active: ${thumbColor};
+        --os-handle-min-size: 30px;
+      }
+    `;
+    document.head.appendChild(styleElement);
+
+    return () => {
+      document.getElementById(styleId)?.remove();
+    };
+  }, [uniqueId, themeClassName, thumbColor]);
+
+  return [initializeOS, osInstance] as const;
+}
@@ -0,0 +1,72 @@
+import { throwIfAborted } from "./util-abort";
+import type { DecoderWorkerJob, DecoderWorkerRequest, DecoderWorkerResponse } from "./util-decoder-worker";
+import {
+  getDecodedAudioInfo,
+  getReductionTransferables,
+  reduceChannelData,
+  sliceChannelData,
+} from "./util-peak-reduction";
+import { decodeWithFallback, type WASMDecodeOptions } from "./util-wasm-decoder";
+
+// ============================================================================
+// Decoder Worker Entry - Fallback decoding + peak/pyramid extraction off the main thread
+// ============================================================================
+
+/**
+ * Handle a single decode/extract request
+ * Exported separately from the message listener so it can run in-process (tests, custom worker setups)
+ */
+export async function handleDecoderWorkerRequest(
+  request: DecoderWorkerJob,
+  options: WASMDecodeOptions = {}
+): Promise<DecoderWorkerResponse> {
+  try {
+    if (request.type === "extract") {
+      return { id: request.id, peaks: reduceChannelData(request.channels, request.reduction) };
+    }
+
+    const decoded = await decodeWithFallback(request.data, request.mimeType, options);
+    throwIfAborted(options.signal);
+    const selected = request.allChannels ? decoded.channelData : decoded.channelData.slice(0, 1);
+    const channels = sliceChannelData(selected, decoded.sampleRate, request.range ?? {});
+    const peaks = reduceChannelData(channels, request.reduction);
+    return { id: request.id, peaks, audio: getDecodedAudioInfo(decoded) };
+  } catch (error) {
+    return { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Message handler for a worker scope: runs jobs, posts their progress and results, and aborts jobs on `cancel`
+ */
+export function createDecoderWorkerListener(
+  post: (response: DecoderWorkerResponse, transfer: ArrayBuffer[]) => void
+): (request: DecoderWorkerRequest) => Promise<void> {
+  const controllers = new Map<number, AbortController>();
+
+  return async (request) => {
+    if (request.type === "cancel") {
+      controllers.get(request.id)?.abort();
+      controllers.delete(request.id);
+      return;
+    }
+
+    const controller = new AbortController();
+    controllers.set(request.id, controller);
+    const onProgress = (progress: number) => post({ id: request.id, progress }, []);
+
+    const response = await handleDecoderWorkerRequest(request, { signal: controller.signal, onProgress });
+    controllers.delete(request.id);
+    // Cancelled jobs are no longer awaited
+    if (controller.signal.aborted) return;
+    post(response, "peaks" in response ? getReductionTransferables(response.peaks) : []);
+  };
+}
+
+// Only attach the listener inside an actual worker scope
+if (typeof window === "undefined" && typeof self !== "undefined" && typeof self.postMessage === "function") {
+  const scope = self as unknown as Worker;
+  const listener = createDecoderWorkerListener((response, transfer) => scope.postMessage(response, transfer));
+
+  scope.onmessage = (event: MessageEvent<DecoderWorkerRequest>) => listener(event.data);
+}
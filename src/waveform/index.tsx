@@ -1,26 +1,143 @@
-import { forwardRef, useEffect, useMemo, useRef, useState } from "react";
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from "react";
 import type { AudioWaveformAppearance } from "../types";
-import { decodeAudioBlob, getAudioData } from "./util-audio-decoder";
+import type {
+  DecodedAudio,
+  PeakFormat,
+  PeakPyramid,
+  TimeSpan,
+  WaveformChannelLayout,
+  WaveformMarker,
+  WaveformPeaks,
+  WaveformPeaksInput,
+  WaveformPeaksSource,
+  WaveformRegion,
+} from "./types";
+import { useWaveformZoom, type WaveformZoomControls } from "./use-waveform-zoom";
+import { getDecodedAudio, getDefaultSampleCount } from "./util-audio-decoder";
+import type { DecoderWorkerFactory } from "./util-decoder-worker";
+import type { LoudnessCurve } from "./util-loudness";
+import type { AmplitudeScale, PeakNormalization, PeakScaling } from "./util-peaks";
+import { streamAudioPeaks } from "./util-stream-decoder";
 import { unwrapPromise } from "./util-suspense";
 import { WaveformRenderer, type WaveformRendererRef } from "./waveform-renderer";
+import { ZoomViewport } from "./zoom-viewport";
 
 // ============================================================================
 // AudioWaveform - Unified Component (with optional Suspense support)
 // ============================================================================
 
 export interface AudioWaveformProps extends React.CanvasHTMLAttributes<HTMLCanvasElement> {
-  /** Audio blob to visualize (provide either blob or peaks) */
+  /** Audio blob to visualize (provide either blob, src or peaks) */
   blob?: Blob | null;
-  /** Pre-computed peaks data (normalized 0-1 range, skips decoding when provided) */
-  peaks?: number[];
+  /**
+   * Audio URL to load progressively (streamed body or HTTP Range requests)
+   * Partial peaks render while downloading; MP3 decodes incrementally, other formats once fully loaded.
+   * Always renders progressively, even with `suspense`
+   */
+  src?: string | null;
+  /**
+   * Pre-computed peaks data (skips decoding when provided)
+   * Accepts mean-absolute `number[]` (0-1), signed `{ min, max }[]` or interleaved min/max `Float32Array`,
+   * or one of those per channel, or a multi-resolution `PeakPyramid`
+   */
+  peaks?: WaveformPeaksSource;
+  /** Decode and render every channel separately instead of only the first. Default: false */
+  splitChannels?: boolean;
+  /** Peak format to decode: "average" (symmetric bars) or "minmax" (asymmetric waveform). Default: "average" */
+  peakFormat?: PeakFormat;
+  /**
+   * How decoded peaks are normalized: "peak" (loudest part fills the height), "none" (absolute amplitude,
+   * comparable across files) or `{ reference }` (this linear amplitude fills the height). Default: "peak"
+   */
+  normalize?: PeakNormalization;
+  /** Amplitude scale: "linear", "rms" (perceived loudness) or "db" (logarithmic). Default: "linear" */
+  scale?: AmplitudeScale;
+  /** Level in dB drawn as silence when `scale` is "db". Default: -60 */
+  dbFloor?: number;
+  /**
+   * Decode the blob into a multi-resolution peak pyramid (signed min/max) instead of a fixed number of peaks,
+   * so the waveform stays sharp at any width or zoom level. Ignores `peakFormat`. Default: false
+   */
+  pyramid?: boolean;
+  /**
+   * Decode (WASM fallback) and extract peaks in a Web Worker. `true` uses the bundled worker,
+   * or pass a factory returning your own `Worker`. Default: false
+   */
+  worker?: boolean | DecoderWorkerFactory;
+  /** Layout for multichannel peaks (stacked lanes or top/bottom mirrored pair). Default: "stacked" */
+  channelLayout?: WaveformChannelLayout;
   /** Waveform appearance configuration (barColor, barWidth, playheadColor, etc.) */
   appearance?: AudioWaveformAppearance;
   /** Enable Suspense mode (requires Suspense boundary in parent) */
   suspense?: boolean;
   /** Current playback time in seconds (shows playhead) */
   currentTime?: number;
-  /** Total audio duration in seconds (required for playhead positioning) */
+  /** Total audio duration in seconds (for playhead positioning). Default: decoded duration of `blob` */
   duration?: number;
+  /**
+   * Start of the clip to show in seconds (e.g. 30 for 00:30). Peaks are computed only for the clip, and the playhead
+   * and seek positions map onto it; `currentTime` and seek times stay absolute. Ignored with `src`. Default: 0
+   */
+  startTime?: number;
+  /** End of the clip to show in seconds. Default: end of the audio */
+  endTime?: number;
+  /** Time ranges drawn dimmed, in absolute seconds (e.g. from `detectAudioSilence`) */
+  dimmedRanges?: TimeSpan[];
+  /** Short-term loudness curve drawn over the waveform (`shortTerm` from `measureAudioLoudness`) */
+  loudness?: LoudnessCurve;
+  /** Target loudness in LUFS drawn as a dashed level line (e.g. -16 for podcasts, -23 for EBU R128 broadcast) */
+  targetLoudness?: number;
+  /** Beat times in absolute seconds drawn as a grid (`beats` from `detectAudioBeats`) */
+  beats?: number[];
+  /** Snap click and drag seek positions to the nearest beat. Default: false */
+  snapToBeats?: boolean;
+  /**
+   * Selectable regions in absolute seconds (controlled). With `onRegionsChange`, drag on empty space to create one,
+   * drag its edges to resize and its body to move it
+   */
+  regions?: WaveformRegion[];
+  /** Called with the updated region list after creating, moving or resizing a region */
+  onRegionsChange?: (regions: WaveformRegion[]) => void;
+  /** Called when the playhead enters a region */
+  onRegionEnter?: (region: WaveformRegion) => void;
+  /** Called when the playhead leaves a region (seek back to its start to loop) */
+  onRegionLeave?: (region: WaveformRegion) => void;
+  /**
+   * Timestamped flags (chapters, comments, cue points) drawn as lines with a label and/or icon
+   * With a seek callback, [ / ] jump to the previous / next marker and Enter activates it
+   */
+  markers?: WaveformMarker[];
+  /** Called when a marker is clicked (or activated with Enter) */
+  onMarkerClick?: (marker: WaveformMarker) => void;
+  /** Called with the updated marker list while a marker is dragged (enables dragging) */
+  onMarkersChange?: (markers: WaveformMarker[]) => void;
+  /** Called with the time under the pointer (where a click would seek), and null when the pointer leaves */
+  onHover?: (time: number | null) => void;
+  /** Draw the hovered time on the canvas; `true` formats as "m:ss.s", or pass a formatter. Default: false */
+  hoverLabel?: boolean | ((time: number) => string);
+  /** Render a custom tooltip for the hovered time instead of the canvas label (fixed, above the waveform) */
+  renderHoverTooltip?: (time: number) => React.ReactNode;
+  /**
+   * Zoom level in pixels per second. When set, the waveform scrolls horizontally and zooms with Ctrl/⌘ + wheel,
+   * trackpad pinch and the +/- keys (0 fits the whole clip). `className` and `style` then apply to the scroll
+   * container. Decodes a peak pyramid so bars stay sharp at any zoom. Default: always fit, no scrolling
+   */
+  zoom?: number;
+  /** Highest zoom in pixels per second. Default: 1000 */
+  maxZoom?: number;
+  /** Called with the new zoom (pixels per second) after wheel, pinch, keyboard or ref API zooming */
+  onZoomChange?: (zoom: number) => void;
+  /** While zoomed, scroll a page ahead when the playhead leaves the visible part. Default: false */
+  followPlayhead?: boolean;
+  /**
+   * Called with the absolute time range shown on the canvas whenever it changes (zoom, scroll, clip or duration)
+   * Pass it to WaveformTimeline's `startTime` / `endTime` to keep a time ruler in sync
+   */
+  onVisibleRangeChange?: (range: TimeSpan) => void;
+  /** Called once `blob` is decoded with its peaks, duration, sample rate, channel count and codec */
+  onDecoded?: (audio: DecodedAudio<WaveformPeaks[] | PeakPyramid>) => void;
+  /** Called with decode/load progress (0-1) for a determinate loader; cache hits report 1 right away */
+  onDecodeProgress?: (progress: number) => void;
   /** Callback when user clicks/seeks on waveform (simple seek) */
   onSeek?: (time: number) => void;
   /** Callback when drag-to-seek starts (use to pause playback) */
@@ -31,66 +148,126 @@ export interface AudioWaveformProps extends React.CanvasHTMLAttributes<HTMLCanva
   onSeekEnd?: (time: number) => void;
 }
 
-export interface AudioWaveformRef {
+/**
+ * Canvas plus zoom controls; zooming and scrolling only take effect while the `zoom` prop is set
+ */
+export interface AudioWaveformRef extends WaveformZoomControls {
   canvas: HTMLCanvasElement | null;
 }
 
-// SSR-safe: returns 500 on server, window.innerWidth on client
-const getInitialSampleCount = () => {
-  if (typeof window === "undefined") return 500;
-  return Math.max(500, Math.ceil(window.innerWidth));
-};
-
 export const AudioWaveform = forwardRef<AudioWaveformRef, AudioWaveformProps>(function AudioWaveform(
   {
     blob,
+    src,
     peaks: precomputedPeaks,
+    splitChannels = false,
+    peakFormat = "average",
+    normalize,
+    scale,
+    dbFloor,
+    pyramid: pyramidProp = false,
+    worker = false,
+    channelLayout,
     appearance,
     suspense = false,
     currentTime,
     duration,
+    startTime,
+    endTime,
+    dimmedRanges,
+    loudness,
+    targetLoudness,
+    beats,
+    snapToBeats,
+    regions,
+    onRegionsChange,
+    onRegionEnter,
+    onRegionLeave,
+    markers,
+    onMarkerClick,
+    onMarkersChange,
+    onHover,
+    hoverLabel,
+    renderHoverTooltip,
+    zoom,
+    maxZoom = 1000,
+    onZoomChange,
+    followPlayhead = false,
+    onVisibleRangeChange,
+    onDecoded,
+    onDecodeProgress,
     onSeek,
     onSeekStart,
     onSeekDrag,
     onSeekEnd,
+    className,
+    style,
     ...props
   },
   ref
 ) {
-  const [decodedPeaks, setDecodedPeaks] = useState<number[] | null>(null);
+  const [decodedAudio, setDecodedAudio] = useState<DecodedAudio<WaveformPeaks[] | PeakPyramid> | null>(null);
+  const [streamedPeaks, setStreamedPeaks] = useState<WaveformPeaksInput | null>(null);
+  const [loadingProgress, setLoadingProgress] = useState<number | undefined>(undefined);
   const [error, setError] = useState<Error | null>(null);
   const [isMounted, setIsMounted] = useState(false);
   const blobRef = useRef<Blob | null>(null);
+  // Worker choice doesn't change the result, so keep it out of the decode effect deps (inline factories are fine)
+  const workerRef = useRef(worker);
+  workerRef.current = worker;
+  // Stable progress reporter so inline callbacks don't retrigger decoding
+  const onDecodeProgressRef = useRef(onDecodeProgress);
+  onDecodeProgressRef.current = onDecodeProgress;
+  const reportProgress = useCallback((progress: number) => onDecodeProgressRef.current?.(progress), []);
+  const onDecodedRef = useRef(onDecoded);
+  onDecodedRef.current = onDecoded;
   const rendererRef = useRef<WaveformRendererRef>(null);
 
+  // Zooming in needs more detail than one screen of peaks
+  const pyramid = pyramidProp || zoom !== undefined;
+
   // Sample count based on screen width for sharp rendering on high-DPI displays
-  const sampleCount = useMemo(() => getInitialSampleCount(), []);
+  const sampleCount = useMemo(() => getDefaultSampleCount(), []);
+
+  // Rebuild scaling from primitives so an inline `{ reference }` object doesn't retrigger decoding
+  const reference = typeof normalize === "object" ? normalize.reference : undefined;
+  const normalizeMode = typeof normalize === "object" ? undefined : normalize;
+  const scaling = useMemo<PeakScaling>(
+    () => ({ normalize: reference !== undefined ? { reference } : normalizeMode, scale, dbFloor }),
+    [reference, normalizeMode, scale, dbFloor]
+  );
 
   useEffect(() => {
     setIsMounted(true);
   }, []);
 
-  // Forward ref to WaveformRenderer's canvas
-  useEffect(() => {
-    if (ref && typeof ref === "function") {
-      ref({ canvas: rendererRef.current?.canvas || null });
-    } else if (ref) {
-      ref.current = { canvas: rendererRef.current?.canvas || null };
-    }
-  }, [ref]);
-
   // Skip decoding when pre-computed peaks are provided
   const shouldDecode = !precomputedPeaks && blob;
 
   // Suspense mode: Use React 19-style Promise unwrapping
-  const suspensePeaks = shouldDecode && suspense && isMounted ? unwrapPromise(getAudioData(blob, sampleCount)) : null;
+  const suspenseAudio =
+    shouldDecode && suspense && isMounted
+      ? unwrapPromise(
+          getDecodedAudio(blob, {
+            ...scaling,
+            sampleCount,
+            splitChannels,
+            peakFormat,
+            pyramid,
+            startTime,
+            endTime,
+            worker,
+            onProgress: reportProgress,
+          })
+        )
+      : null;
 
-  // Non-suspense mode: Decode audio when blob changes
+  // Non-suspense mode: Decode audio when blob changes (through the peak cache, so re-visits skip decoding)
   useEffect(() => {
     if (!shouldDecode || suspense) {
       // Reset state when using peaks prop or in suspense mode
       if (!shouldDecode) {
-        setDecodedPeaks(null);
+        setDecodedAudio(null);
         setError(null);
         blobRef.current = null;
       }
@@ -101,49 +278,221 @@ export const AudioWaveform = forwardRef<AudioWaveformRef, AudioWaveformProps>(fu
     if (blobRef.current === blob) return;
     blobRef.current = blob;
 
-    let cancelled = false;
+    // Aborted when the blob changes or the component unmounts
+    const controller = new AbortController();
     setError(null);
 
-    decodeAudioBlob(blob, sampleCount)
+    getDecodedAudio(blob, {
+      ...scaling,
+      sampleCount,
+      splitChannels,
+      peakFormat,
+      pyramid,
+      startTime,
+      endTime,
+      worker: workerRef.current,
+      signal: controller.signal,
+      onProgress: reportProgress,
+    })
       .then((data) => {
-        if (!cancelled) {
-          setDecodedPeaks(data);
+        if (!controller.signal.aborted) {
+          setDecodedAudio(data);
         }
       })
       .catch((err) => {
-        if (!cancelled) {
+        if (!controller.signal.aborted) {
           setError(err instanceof Error ? err : new Error(err?.message || "Failed to decode audio"));
         }
       });
 
     return () => {
-      cancelled = true;
+      controller.abort();
       // Reset blobRef so the effect can re-run after React Strict Mode double-invoke
       blobRef.current = null;
     };
-  }, [blob, sampleCount, suspense, shouldDecode]);
+  }, [
+    blob,
+    sampleCount,
+    suspense,
+    shouldDecode,
+    splitChannels,
+    peakFormat,
+    pyramid,
+    startTime,
+    endTime,
+    scaling,
+    reportProgress,
+  ]);
+
+  // Progressive mode: stream from src when neither peaks nor blob are provided
+  const shouldStream = !precomputedPeaks && !blob && src;
+
+  useEffect(() => {
+    if (!shouldStream) {
+      setStreamedPeaks(null);
+      setLoadingProgress(undefined);
+      return;
+    }
+
+    const controller = new AbortController();
+    setError(null);
+    setStreamedPeaks(null);
+    setLoadingProgress(0);
+
+    streamAudioPeaks(shouldStream, {
+      sampleCount,
+      splitChannels,
+      peakFormat,
+      ...scaling,
+      worker: workerRef.current,
+      signal: controller.signal,
+      onProgress: reportProgress,
+      onPeaks: ({ peaks, progress }) => {
+        if (controller.signal.aborted) return;
+        setStreamedPeaks(splitChannels ? peaks : (peaks[0] ?? []));
+        // Unknown total size: no loading region, peaks stretch across the canvas
+        setLoadingProgress(progress ?? undefined);
+      },
+    })
+      .then(() => {
+        if (!controller.signal.aborted) {
+          setLoadingProgress(undefined);
+        }
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err : new Error(err?.message || "Failed to load audio"));
+        }
+      });
 
-  if (!suspense && error) {
+    return () => {
+      controller.abort();
+    };
+  }, [shouldStream, sampleCount, splitChannels, peakFormat, scaling, reportProgress]);
+
+  if (error) {
     throw error;
   }
 
-  // Priority: precomputedPeaks > suspensePeaks > decodedPeaks
-  const finalPeaks = precomputedPeaks ?? (suspense ? suspensePeaks : decodedPeaks);
+  const currentAudio = shouldDecode ? (suspense ? suspenseAudio : decodedAudio) : null;
 
-  return (
+  useEffect(() => {
+    if (currentAudio) {
+      onDecodedRef.current?.(currentAudio);
+    }
+  }, [currentAudio]);
+
+  // Priority: precomputedPeaks > decoded blob (suspense or effect) > streamedPeaks
+  // Mono decodes hold a single channel, which renders the same as flat peaks
+  const finalPeaks = precomputedPeaks ?? (blob ? (currentAudio?.peaks ?? null) : streamedPeaks);
+
+  // Clip window for the renderer; decoded bounds are clamped to the audio (streamed peaks always cover the whole file)
+  const hasClip = !shouldStream && (startTime !== undefined || endTime !== undefined);
+  const clipStart = hasClip ? (currentAudio?.startTime ?? startTime) : undefined;
+  const clipEnd = hasClip ? (currentAudio?.endTime ?? endTime) : undefined;
+
+  const timelineStart = clipStart ?? 0;
+  const timelineEnd = clipEnd ?? duration ?? currentAudio?.duration ?? 0;
+  const {
+    enabled: isZoomable,
+    hostRef,
+    viewportRef,
+    size,
+    contentWidth,
+    visibleStart,
+    visibleEnd,
+    handleScroll,
+    handleKeyDown,
+    controls,
+  } = useWaveformZoom({
+    zoom,
+    maxZoom,
+    onZoomChange,
+    followPlayhead,
+    currentTime,
+    startTime: timelineStart,
+    endTime: timelineEnd,
+  });
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      get canvas() {
+        return rendererRef.current?.canvas ?? null;
+      },
+      ...controls,
+    }),
+    [controls]
+  );
+
+  // Report the shown range: the zoomed window, or the whole clip
+  const rangeStart = isZoomable ? visibleStart : timelineStart;
+  const rangeEnd = isZoomable ? visibleEnd : timelineEnd;
+  const onVisibleRangeChangeRef = useRef(onVisibleRangeChange);
+  onVisibleRangeChangeRef.current = onVisibleRangeChange;
+  useEffect(() => {
+    if (rangeEnd > rangeStart) onVisibleRangeChangeRef.current?.({ startTime: rangeStart, endTime: rangeEnd });
+  }, [rangeStart, rangeEnd]);
+
+  const renderer = (
     <WaveformRenderer
       ref={rendererRef}
       peaks={finalPeaks}
+      channelLayout={channelLayout}
+      loadingProgress={shouldStream ? loadingProgress : undefined}
       appearance={appearance}
       currentTime={currentTime}
-      duration={duration}
+      duration={duration ?? currentAudio?.duration}
+      startTime={clipStart}
+      endTime={clipEnd}
+      visibleStart={isZoomable ? visibleStart : undefined}
+      visibleEnd={isZoomable ? visibleEnd : undefined}
+      dimmedRanges={dimmedRanges}
+      loudness={loudness}
+      targetLoudness={targetLoudness}
+      beats={beats}
+      snapToBeats={snapToBeats}
+      regions={regions}
+      onRegionsChange={onRegionsChange}
+      onRegionEnter={onRegionEnter}
+      onRegionLeave={onRegionLeave}
+      markers={markers}
+      onMarkerClick={onMarkerClick}
+      onMarkersChange={onMarkersChange}
+      onHover={onHover}
+      hoverLabel={hoverLabel}
+      renderHoverTooltip={renderHoverTooltip}
       onSeek={onSeek}
       onSeekStart={onSeekStart}
       onSeekDrag={onSeekDrag}
       onSeekEnd={onSeekEnd}
+      className={isZoomable ? undefined : className}
+      style={
+        isZoomable ? { position: "sticky", left: 0, display: "block", width: size.width, height: size.height } : style
+      }
       {...props}
     />
   );
+
+  if (!isZoomable) return renderer;
+
+  const isSeekable = !!onSeek || !!onSeekStart || !!onSeekDrag || !!onSeekEnd;
+  return (
+    <ZoomViewport
+      hostRef={hostRef}
+      viewportRef={viewportRef}
+      contentWidth={contentWidth}
+      contentHeight={size.height}
+      scrollbar={appearance?.scrollbar}
+      focusable={!isSeekable}
+      onScroll={handleScroll}
+      onKeyDown={handleKeyDown}
+      className={className}
+      style={style}
+    >
+      {renderer}
+    </ZoomViewport>
+  );
 });
 
 export default AudioWaveform;
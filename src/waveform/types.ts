@@ -0,0 +1,125 @@
+import type { AudioCodec } from "./util-audio-sniff";
+
+// ============================================================================
+// Peak Types - Decoded waveform data shapes
+// ============================================================================
+
+/**
+ * Signed peak range of one bucket (-1 to 1)
+ */
+export interface PeakPair {
+  min: number;
+  max: number;
+}
+
+/**
+ * Peak format produced by the decoder
+ * - `average`: mean-absolute amplitude per bucket (`number[]`, 0-1)
+ * - `minmax`: signed min/max per bucket, interleaved as `[min0, max0, min1, max1, ...]` (`Float32Array`, -1 to 1)
+ */
+export type PeakFormat = "average" | "minmax";
+
+/**
+ * Peaks for a single channel
+ * - `number[]`: mean-absolute amplitudes (0-1), drawn as symmetric bars
+ * - `PeakPair[]`: signed min/max per bucket, drawn as asymmetric bars
+ * - `Float32Array`: interleaved signed min/max pairs `[min0, max0, min1, max1, ...]`
+ */
+export type WaveformPeaks = number[] | PeakPair[] | Float32Array;
+
+/**
+ * Peaks for one or more channels
+ * - `WaveformPeaks`: single channel
+ * - `WaveformPeaks[]`: one peak array per channel (e.g. [left, right])
+ */
+export type WaveformPeaksInput = WaveformPeaks | WaveformPeaks[];
+
+/**
+ * Multi-resolution peaks (mipmap-style), decoded once and rendered sharply at any width or zoom level
+ * Each level halves the resolution of the previous one; the renderer picks the coarsest level
+ * that still has at least one peak per bar
+ */
+export interface PeakPyramid {
+  /** Levels from finest to coarsest, each holding one interleaved min/max Float32Array per channel */
+  levels: Float32Array[][];
+  /** Audio samples summarized by each peak of the finest level (when known) */
+  samplesPerPeak?: number;
+  /** Sample rate of the source audio in Hz (when known) */
+  sampleRate?: number;
+}
+
+/**
+ * Anything the renderer can draw: single/multichannel peaks or a peak pyramid
+ */
+export type WaveformPeaksSource = WaveformPeaksInput | PeakPyramid;
+
+/**
+ * Properties of the decoded source audio
+ */
+export interface AudioMetadata {
+  /** Duration in seconds */
+  duration: number;
+  /** Sample rate of the decoded PCM in Hz (the native decoder resamples to 44100) */
+  sampleRate: number;
+  /** Channels in the source audio (also when only the first one was reduced to peaks) */
+  numberOfChannels: number;
+  /** Codec guessed from magic bytes or the blob type, null when unknown */
+  codec: AudioCodec | null;
+  /** Peaks per second of audio at the finest resolution (peak `i` starts at `startTime + i / peaksPerSecond` seconds) */
+  peaksPerSecond: number;
+  /** Start of the decoded window in seconds (0 unless a clip was requested) */
+  startTime: number;
+  /** End of the decoded window in seconds (`duration` unless a clip was requested) */
+  endTime: number;
+}
+
+/**
+ * Decoded peaks together with the metadata of the source audio
+ */
+export interface DecodedAudio<T extends WaveformPeaks[] | PeakPyramid = WaveformPeaks[]> extends AudioMetadata {
+  /** One peak array per decoded channel, or a peak pyramid */
+  peaks: T;
+}
+
+/**
+ * Span of audio in seconds
+ */
+export interface TimeSpan {
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * Selectable time range drawn over the waveform (clip, annotation or loop)
+ */
+export interface WaveformRegion extends TimeSpan {
+  /** Stable identifier; regions created by dragging get a generated one */
+  id: string;
+  /** Fill color (CSS color value). Default: appearance `regionColor` */
+  color?: string;
+  /** Text drawn at the top-left of the region */
+  label?: string;
+}
+
+/**
+ * Timestamped flag drawn as a vertical line (chapter start, comment, cue point)
+ */
+export interface WaveformMarker {
+  /** Stable identifier */
+  id: string;
+  /** Position in seconds (absolute, like `currentTime`) */
+  time: number;
+  /** Text shown in the flag at the top of the line */
+  label?: string;
+  /** Line and flag color (CSS color value). Default: appearance `markerColor` */
+  color?: string;
+  /** Image drawn in the flag before the label (must be loaded, e.g. an `HTMLImageElement` after `onload`) */
+  icon?: CanvasImageSource;
+}
+
+/**
+ * How multichannel peaks are laid out on the canvas
+ * - `stacked`: each channel gets its own horizontal lane (top to bottom)
+ * - `mirrored`: first channel grows upward, second channel grows downward from the center line
+ */
+export type WaveformChannelLayout = "stacked" | "mirrored";
@@ -0,0 +1,239 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { WaveformMarker } from "./types";
+import { getCanvasPointer } from "./util-canvas-pointer";
+
+export interface MarkerCallbacks {
+  /** Called when a marker is clicked, or activated with Enter after jumping to it with the keyboard */
+  onMarkerClick?: (marker: WaveformMarker) => void;
+  /** Called with the full, updated marker list while a marker is dragged (controlled; enables dragging) */
+  onMarkersChange?: (markers: WaveformMarker[]) => void;
+}
+
+/**
+ * Flag area of a drawn marker in canvas pixels (recorded while drawing, used for hit-testing)
+ */
+export interface MarkerFlagBox {
+  id: string;
+  left: number;
+  right: number;
+  bottom: number;
+}
+
+export interface UseMarkerInteractionConfig extends MarkerCallbacks {
+  /** Canvas the pointer positions are measured against */
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  /** Markers to hit-test, edit and navigate */
+  markers?: WaveformMarker[];
+  /** Flag boxes from the last draw (flags are wider than the line) */
+  flagBoxesRef: React.RefObject<MarkerFlagBox[]>;
+  /** Current playback time in seconds (absolute) */
+  currentTime?: number;
+  /** Start of the time window covered by the canvas in seconds (markers are kept inside it) */
+  startTime: number;
+  /** End of the time window covered by the canvas in seconds */
+  endTime: number;
+  /** Part of the window drawn on the canvas (pointer positions map onto it) */
+  visibleStart: number;
+  /** End of the part of the window drawn on the canvas */
+  visibleEnd: number;
+  /** Adjust dragged times (e.g. snap to the nearest beat) */
+  snap?: (time: number) => number;
+  /** Seek callback used by keyboard marker navigation */
+  onSeek?: (time: number) => void;
+}
+
+// Distance (px) from a marker line that still hits it
+const LINE_HIT_SIZE = 4;
+// Pointer travel (px) before a press becomes a drag; shorter presses are clicks
+const DRAG_THRESHOLD = 3;
+// Markers closer than this to the playhead count as "at" it for keyboard navigation (seconds)
+const TIME_EPSILON = 0.01;
+
+/**
+ * Hook for clicking, dragging and keyboard navigation ([ / ] jump to the previous / next marker, Enter activates)
+ * of markers on a timeline canvas; `onMouseDown` returns true when a marker takes over the press
+ * Keyboard navigation seeks, so it needs `onSeek` (the canvas is focusable only while seekable)
+ */
+export function useMarkerInteraction({
+  canvasRef,
+  markers,
+  flagBoxesRef,
+  currentTime,
+  startTime,
+  endTime,
+  visibleStart,
+  visibleEnd,
+  snap,
+  onSeek,
+  onMarkerClick,
+  onMarkersChange,
+}: UseMarkerInteractionConfig) {
+  const dragRef = useRef<{ marker: WaveformMarker; originX: number; moved: boolean } | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isHovering, setIsHovering] = useState(false);
+  // Marker reached with [ / ], activated by Enter while the playhead stays on it and the canvas keeps focus
+  const focusedIdRef = useRef<string | null>(null);
+  const markersRef = useRef(markers);
+  markersRef.current = markers;
+  const onMarkerClickRef = useRef(onMarkerClick);
+  onMarkerClickRef.current = onMarkerClick;
+  const onMarkersChangeRef = useRef(onMarkersChange);
+  onMarkersChangeRef.current = onMarkersChange;
+
+  const isEnabled = !!markers?.length && (!!onMarkerClick || !!onMarkersChange);
+
+  const getPointer = useCallback(
+    (clientX: number, clientY: number) => {
+      const canvas = canvasRef.current;
+      return (
+        canvas && getCanvasPointer(canvas, clientX, clientY, { startTime, endTime, visibleStart, visibleEnd, snap })
+      );
+    },
+    [canvasRef, startTime, endTime, visibleStart, visibleEnd, snap]
+  );
+
+  // Topmost marker whose flag or line is under the pointer
+  const hitTest = useCallback(
+    (x: number, y: number, width: number): WaveformMarker | null => {
+      const visibleDuration = visibleEnd - visibleStart;
+      if (!markers?.length || visibleDuration <= 0) return null;
+
+      for (const box of [...flagBoxesRef.current].reverse()) {
+        if (x >= box.left && x <= box.right && y >= 0 && y <= box.bottom) {
+          const marker = markers.find((item) => item.id === box.id);
+          if (marker) return marker;
+        }
+      }
+      for (let i = markers.length - 1; i >= 0; i--) {
+        const markerX = ((markers[i].time - visibleStart) / visibleDuration) * width;
+        if (Math.abs(x - markerX) <= LINE_HIT_SIZE) return markers[i];
+      }
+      return null;
+    },
+    [markers, flagBoxesRef, visibleStart, visibleEnd]
+  );
+
+  const handleMouseDown = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>): boolean => {
+      if (!isEnabled || e.button !== 0) return false;
+      const pointer = getPointer(e.clientX, e.clientY);
+      const marker = pointer && hitTest(pointer.x, pointer.y, pointer.width);
+      if (!pointer || !marker) return false;
+
+      dragRef.current = { marker, originX: pointer.x, moved: false };
+      setIsDragging(true);
+      return true;
+    },
+    [isEnabled, getPointer, hitTest]
+  );
+
+  // Document-level drag handlers; a press that never moves is a click
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const drag = dragRef.current;
+      if (!drag || !onMarkersChangeRef.current) return;
+      const pointer = getPointer(e.clientX, e.clientY);
+      if (!pointer) return;
+      if (!drag.moved && Math.abs(pointer.x - drag.originX) < DRAG_THRESHOLD) return;
+      if (!drag.moved) {
+        drag.moved = true;
+        document.body.style.cursor = "grabbing";
+        document.body.style.userSelect = "none";
+      }
+
+      const id = drag.marker.id;
+      onMarkersChangeRef.current(
+        (markersRef.current ?? []).map((item) => (item.id === id ? { ...item, time: pointer.time } : item))
+      );
+    };
+
+    const handleMouseUp = () => {
+      const drag = dragRef.current;
+      dragRef.current = null;
+      setIsDragging(false);
+      if (drag && !drag.moved) onMarkerClickRef.current?.(drag.marker);
+    };
+
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+    // Also runs on unmount or prop changes mid-drag: never leave the page with the drag cursor and no selection
+    return () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+      document.body.style.cursor = "";
+      document.body.style.userSelect = "";
+    };
+  }, [isDragging, getPointer]);
+
+  const handleMouseMove = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (!isEnabled || dragRef.current) return;
+      const pointer = getPointer(e.clientX, e.clientY);
+      setIsHovering(!!pointer && !!hitTest(pointer.x, pointer.y, pointer.width));
+    },
+    [isEnabled, getPointer, hitTest]
+  );
+
+  const handleMouseLeave = useCallback(() => setIsHovering(false), []);
+
+  // Playback moved away from the marker reached with [ / ] (click seek, region seek, playing on)
+  useEffect(() => {
+    const focused = markers?.find((marker) => marker.id === focusedIdRef.current);
+    if (!focused || Math.abs(focused.time - (currentTime ?? startTime)) > TIME_EPSILON) focusedIdRef.current = null;
+  }, [markers, currentTime, startTime]);
+
+  const handleBlur = useCallback(() => {
+    focusedIdRef.current = null;
+  }, []);
+
+  // [ / ] seek to the previous / next marker, Enter activates the marker reached that way
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+      if (!markers?.length) return;
+      const current = currentTime ?? startTime;
+      const sorted = [...markers].sort((a, b) => a.time - b.time);
+
+      let target: WaveformMarker | undefined;
+      switch (e.key) {
+        case "]":
+          target = sorted.find((marker) => marker.time > current + TIME_EPSILON);
+          break;
+        case "[":
+          target = sorted.reverse().find((marker) => marker.time < current - TIME_EPSILON);
+          break;
+        case "Enter": {
+          const focused = markers.find((marker) => marker.id === focusedIdRef.current);
+          if (focused && onMarkerClickRef.current) {
+            e.preventDefault();
+            onMarkerClickRef.current(focused);
+          }
+          return;
+        }
+        default:
+          return;
+      }
+
+      e.preventDefault();
+      if (target && onSeek) {
+        focusedIdRef.current = target.id;
+        onSeek(target.time);
+      }
+    },
+    [markers, currentTime, startTime, onSeek]
+  );
+
+  return {
+    /** Cursor over markers, undefined elsewhere */
+    cursor: isEnabled && isHovering ? (onMarkersChange ? "grab" : "pointer") : undefined,
+    /** Take over a press on a marker; returns true when a marker was hit */
+    handleMouseDown,
+    handleMouseMove,
+    handleMouseLeave,
+    /** Keyboard navigation; runs from the seek key handler, so only while the canvas is seekable */
+    handleKeyDown,
+    /** Forgets the marker reached with [ / ] */
+    handleBlur,
+  };
+}
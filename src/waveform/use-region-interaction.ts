@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { WaveformRegion } from "./types";
+import { getCanvasPointer } from "./util-canvas-pointer";
+
+export interface RegionCallbacks {
+  /** Called with the full, updated region list after a region is created, moved or resized (controlled) */
+  onRegionsChange?: (regions: WaveformRegion[]) => void;
+  /** Called when the playhead (`currentTime`) enters a region */
+  onRegionEnter?: (region: WaveformRegion) => void;
+  /** Called when the playhead leaves a region (e.g. seek back to `startTime` to loop it) */
+  onRegionLeave?: (region: WaveformRegion) => void;
+}
+
+export interface UseRegionInteractionConfig extends RegionCallbacks {
+  /** Canvas the pointer positions are measured against */
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  /** Regions to hit-test and edit */
+  regions?: WaveformRegion[];
+  /** Current playback time in seconds (absolute) */
+  currentTime?: number;
+  /** Start of the time window covered by the canvas in seconds (regions are kept inside it) */
+  startTime: number;
+  /** End of the time window covered by the canvas in seconds */
+  endTime: number;
+  /** Part of the window drawn on the canvas (pointer positions map onto it) */
+  visibleStart: number;
+  /** End of the part of the window drawn on the canvas */
+  visibleEnd: number;
+  /** Adjust dragged times (e.g. snap to the nearest beat) */
+  snap?: (time: number) => number;
+}
+
+type RegionDragMode = "create" | "move" | "resize-start" | "resize-end";
+
+interface RegionDrag {
+  mode: RegionDragMode;
+  /** Region being edited (created on the first move in "create" mode) */
+  region: WaveformRegion;
+  /** Pointer time and x where the drag started */
+  originTime: number;
+  originX: number;
+  moved: boolean;
+}
+
+// Distance (px) from a region edge that grabs the edge instead of the body
+const EDGE_HIT_SIZE = 4;
+// Pointer travel (px) before a press becomes a drag; shorter presses stay clicks (seek)
+const DRAG_THRESHOLD = 3;
+// Shortest region a resize can produce (seconds)
+const MIN_REGION_DURATION = 0.01;
+
+let regionCounter = 0;
+const createRegionId = () => `region-${Date.now().toString(36)}-${++regionCounter}`;
+
+const CURSORS: Record<Exclude<RegionDragMode, "create">, string> = {
+  move: "move",
+  "resize-start": "ew-resize",
+  "resize-end": "ew-resize",
+};
+
+/**
+ * Hook for creating (drag on empty space), moving and resizing regions on a timeline canvas,
+ * plus enter/leave events as the playhead crosses them
+ * Editing is enabled by `onRegionsChange`; `onMouseDown` returns true when it takes over the gesture
+ */
+export function useRegionInteraction({
+  canvasRef,
+  regions,
+  currentTime,
+  startTime,
+  endTime,
+  visibleStart,
+  visibleEnd,
+  snap,
+  onRegionsChange,
+  onRegionEnter,
+  onRegionLeave,
+}: UseRegionInteractionConfig) {
+  const dragRef = useRef<RegionDrag | null>(null);
+  const lastDragMovedRef = useRef(false);
+  const [hoverMode, setHoverMode] = useState<RegionDragMode | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const regionsRef = useRef(regions);
+  regionsRef.current = regions;
+  const onRegionsChangeRef = useRef(onRegionsChange);
+  onRegionsChangeRef.current = onRegionsChange;
+
+  const isEditable = !!onRegionsChange && endTime > startTime;
+
+  // Canvas x (px) and clamped absolute time of a pointer position
+  const getPointer = useCallback(
+    (clientX: number) => {
+      const canvas = canvasRef.current;
+      return canvas && getCanvasPointer(canvas, clientX, 0, { startTime, endTime, visibleStart, visibleEnd, snap });
+    },
+    [canvasRef, startTime, endTime, visibleStart, visibleEnd, snap]
+  );
+
+  // Topmost region under x: edges win over bodies
+  const hitTest = useCallback(
+    (x: number, width: number): { mode: RegionDragMode; region: WaveformRegion } | null => {
+      const visibleDuration = visibleEnd - visibleStart;
+      if (!regions?.length || visibleDuration <= 0) return null;
+      const toX = (time: number) => ((time - visibleStart) / visibleDuration) * width;
+
+      for (let i = regions.length - 1; i >= 0; i--) {
+        const region = regions[i];
+        const startX = toX(region.startTime);
+        const endX = toX(region.endTime);
+        if (Math.abs(x - startX) <= EDGE_HIT_SIZE) return { mode: "resize-start", region };
+        if (Math.abs(x - endX) <= EDGE_HIT_SIZE) return { mode: "resize-end", region };
+        if (x > startX && x < endX) return { mode: "move", region };
+      }
+      return null;
+    },
+    [regions, visibleStart, visibleEnd]
+  );
+
+  const handleMouseDown = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>): boolean => {
+      lastDragMovedRef.current = false;
+      if (!isEditable || e.button !== 0) return false;
+      const pointer = getPointer(e.clientX);
+      if (!pointer) return false;
+
+      const hit = hitTest(pointer.x, pointer.width);
+      dragRef.current = {
+        mode: hit?.mode ?? "create",
+        region: hit?.region ?? { id: createRegionId(), startTime: pointer.time, endTime: pointer.time },
+        originTime: pointer.time,
+        originX: pointer.x,
+        moved: false,
+      };
+      setIsDragging(true);
+      return true;
+    },
+    [isEditable, getPointer, hitTest]
+  );
+
+  // Document-level drag handlers (the pointer may leave the canvas while dragging)
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const drag = dragRef.current;
+      const pointer = getPointer(e.clientX);
+      if (!drag || !pointer) return;
+      if (!drag.moved && Math.abs(pointer.x - drag.originX) < DRAG_THRESHOLD) return;
+      drag.moved = true;
+
+      const { region, originTime } = drag;
+      let next: WaveformRegion;
+      switch (drag.mode) {
+        case "create":
+          next = {
+            ...region,
+            startTime: Math.min(originTime, pointer.time),
+            endTime: Math.max(originTime, pointer.time),
+          };
+          break;
+        case "move": {
+          const length = region.endTime - region.startTime;
+          const shifted = Math.max(startTime, Math.min(region.startTime + pointer.time - originTime, endTime - length));
+          next = { ...region, startTime: shifted, endTime: shifted + length };
+          break;
+        }
+        case "resize-start":
+          next = { ...region, startTime: Math.min(pointer.time, region.endTime - MIN_REGION_DURATION) };
+          break;
+        case "resize-end":
+          next = { ...region, endTime: Math.max(pointer.time, region.startTime + MIN_REGION_DURATION) };
+          break;
+      }
+
+      const current = regionsRef.current ?? [];
+      const exists = current.some((item) => item.id === region.id);
+      onRegionsChangeRef.current?.(
+        exists ? current.map((item) => (item.id === region.id ? next : item)) : [...current, next]
+      );
+    };
+
+    const handleMouseUp = () => {
+      lastDragMovedRef.current = dragRef.current?.moved ?? false;
+      dragRef.current = null;
+      setIsDragging(false);
+    };
+
+    const mode = dragRef.current?.mode;
+    document.body.style.cursor = mode && mode !== "create" ? CURSORS[mode] : "";
+    document.body.style.userSelect = "none";
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+    // Also runs on unmount or prop changes mid-drag: never leave the page with the drag cursor and no selection
+    return () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+      document.body.style.cursor = "";
+      document.body.style.userSelect = "";
+    };
+  }, [isDragging, getPointer, startTime, endTime]);
+
+  // Edge/body cursor while hovering editable regions
+  const handleMouseMove = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (!isEditable || dragRef.current) return;
+      const pointer = getPointer(e.clientX);
+      const mode = pointer ? (hitTest(pointer.x, pointer.width)?.mode ?? null) : null;
+      setHoverMode((previous) => (previous === mode ? previous : mode));
+    },
+    [isEditable, getPointer, hitTest]
+  );
+
+  const handleMouseLeave = useCallback(() => setHoverMode(null), []);
+
+  // Playhead enter/leave events; regions the playhead is in, as last seen (removed regions still get a leave)
+  const activeRegionsRef = useRef(new Map<string, WaveformRegion>());
+  const onRegionEnterRef = useRef(onRegionEnter);
+  onRegionEnterRef.current = onRegionEnter;
+  const onRegionLeaveRef = useRef(onRegionLeave);
+  onRegionLeaveRef.current = onRegionLeave;
+
+  useEffect(() => {
+    const previous = activeRegionsRef.current;
+    const active = new Map<string, WaveformRegion>();
+    for (const region of regions ?? []) {
+      if (currentTime !== undefined && currentTime >= region.startTime && currentTime < region.endTime) {
+        active.set(region.id, region);
+      }
+    }
+    activeRegionsRef.current = active;
+
+    for (const [id, region] of previous) {
+      if (!active.has(id)) onRegionLeaveRef.current?.(regions?.find((item) => item.id === id) ?? region);
+    }
+    for (const region of active.values()) {
+      if (!previous.has(region.id)) onRegionEnterRef.current?.(region);
+    }
+  }, [regions, currentTime]);
+
+  return {
+    /** Cursor over region edges/bodies, undefined elsewhere */
+    cursor: isEditable && hoverMode && hoverMode !== "create" ? CURSORS[hoverMode] : undefined,
+    /** Take over a press on the canvas; returns true when region editing handles it */
+    handleMouseDown,
+    /** Whether the last taken-over press turned into a drag (its click should not seek) */
+    didDrag: useCallback(() => lastDragMovedRef.current, []),
+    handleMouseMove,
+    handleMouseLeave,
+  };
+}
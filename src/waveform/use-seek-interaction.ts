@@ -0,0 +1,310 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface SeekCallbacks {
+  /** Callback when user clicks on the canvas (simple seek) */
+  onSeek?: (time: number) => void;
+  /** Callback when drag-to-seek starts (use to pause playback) */
+  onSeekStart?: () => void;
+  /** Callback during drag-to-seek with current time (real-time updates) */
+  onSeekDrag?: (time: number) => void;
+  /** Callback when drag-to-seek ends (use to resume playback) */
+  onSeekEnd?: (time: number) => void;
+}
+
+export interface UseSeekInteractionConfig extends SeekCallbacks {
+  /** Canvas the pointer positions are measured against */
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  /** Current playback time in seconds (absolute) */
+  currentTime?: number;
+  /** Start of the time window covered by the canvas in seconds */
+  startTime: number;
+  /** End of the time window covered by the canvas in seconds */
+  endTime: number;
+  /** Start of the part of the window drawn on the canvas when zoomed in (pointer positions map onto it) */
+  visibleStart?: number;
+  /** End of the part of the window drawn on the canvas when zoomed in */
+  visibleEnd?: number;
+  /** Adjust pointer and keyboard seek times before they are reported (e.g. snap to the nearest beat) */
+  snap?: (time: number) => number;
+  /**
+   * Press handler that runs before seeking (e.g. region or marker editing). When it returns true, drag-to-seek
+   * does not start; the click still seeks unless `consumesClick()` reports that the gesture handled it
+   */
+  gesture?: {
+    onMouseDown: (e: React.MouseEvent<HTMLCanvasElement>) => boolean;
+    consumesClick: () => boolean;
+  };
+  /** Key handler that runs before the seek keys; call `preventDefault()` to skip them */
+  onKeyDown?: React.KeyboardEventHandler<HTMLCanvasElement>;
+  /** Called with the time under the pointer (after `snap`), and null when the pointer leaves */
+  onHover?: (time: number | null) => void;
+  /** Track the hovered position even when the canvas is not seekable (e.g. for a tooltip). Default: false */
+  trackHover?: boolean;
+  /** Click handler forwarded from the canvas props */
+  onClick?: React.MouseEventHandler<HTMLCanvasElement>;
+  /** Mouse move/leave handlers forwarded from the canvas props */
+  onMouseMove?: React.MouseEventHandler<HTMLCanvasElement>;
+  onMouseLeave?: React.MouseEventHandler<HTMLCanvasElement>;
+  /** Accessible name while seekable / while display-only */
+  labels: { interactive: string; static: string };
+}
+
+// Format time for screen readers (aria-valuetext): "1 minute 30 seconds"
+const formatTimeForScreen = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  if (mins > 0) {
+    return `${mins} minute${mins > 1 ? "s" : ""} ${secs} second${secs !== 1 ? "s" : ""}`;
+  }
+  return `${secs} second${secs !== 1 ? "s" : ""}`;
+};
+
+/**
+ * Hovered time plus the viewport position of its line on the canvas (top edge), for fixed-position tooltips
+ */
+export interface HoverPosition {
+  time: number;
+  clientX: number;
+  clientY: number;
+}
+
+/**
+ * Hook for click/drag/keyboard seeking and hover tracking on a timeline canvas
+ * Shared between WaveformRenderer and Spectrogram; returns the props to spread on the canvas
+ */
+export function useSeekInteraction({
+  canvasRef,
+  currentTime,
+  startTime,
+  endTime,
+  visibleStart = startTime,
+  visibleEnd = endTime,
+  onSeek,
+  onSeekStart,
+  onSeekDrag,
+  onSeekEnd,
+  onHover,
+  trackHover = false,
+  onClick,
+  onMouseMove,
+  onMouseLeave,
+  snap,
+  gesture,
+  onKeyDown,
+  labels,
+}: UseSeekInteractionConfig) {
+  const isDraggingRef = useRef(false);
+  // Whether the current press was taken over by `gesture`
+  const isGestureRef = useRef(false);
+  const [hover, setHover] = useState<HoverPosition | null>(null);
+  // Last reported hover time (onHover fires only on changes)
+  const hoverTimeRef = useRef<number | null>(null);
+  const onHoverRef = useRef(onHover);
+  onHoverRef.current = onHover;
+  const duration = endTime - startTime;
+
+  // Apply `snap`, kept inside the window
+  const snapTime = useCallback(
+    (time: number): number => (snap ? Math.max(startTime, Math.min(snap(time), endTime)) : time),
+    [startTime, endTime, snap]
+  );
+
+  // Calculate time from mouse/touch position
+  const getTimeFromPosition = useCallback(
+    (clientX: number): number => {
+      const canvas = canvasRef.current;
+      if (!canvas || duration <= 0) return startTime;
+
+      const rect = canvas.getBoundingClientRect();
+      const x = clientX - rect.left;
+      const ratio = Math.max(0, Math.min(x / rect.width, 1));
+      return snapTime(visibleStart + ratio * (visibleEnd - visibleStart));
+    },
+    [canvasRef, startTime, visibleStart, visibleEnd, duration, snapTime]
+  );
+
+  // Drag-to-seek: document-level handlers for dragging outside bounds
+  useEffect(() => {
+    const handleMouseMove = (e: MouseEvent) => {
+      if (!isDraggingRef.current) return;
+      const time = getTimeFromPosition(e.clientX);
+      onSeekDrag?.(time);
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      if (!isDraggingRef.current) return;
+      isDraggingRef.current = false;
+      document.body.style.cursor = "";
+      document.body.style.userSelect = "";
+      const time = getTimeFromPosition(e.clientX);
+      onSeekEnd?.(time);
+    };
+
+    // Only add listeners if drag-to-seek is enabled
+    if (onSeekDrag || onSeekEnd) {
+      document.addEventListener("mousemove", handleMouseMove);
+      document.addEventListener("mouseup", handleMouseUp);
+    }
+
+    return () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [getTimeFromPosition, onSeekDrag, onSeekEnd]);
+
+  // Mouse down handler: starts drag or simple click
+  const handleMouseDown = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      isGestureRef.current = gesture?.onMouseDown(e) ?? false;
+      if (duration <= 0 || isGestureRef.current) return;
+
+      // If drag-to-seek callbacks are provided, start dragging
+      if (onSeekStart || onSeekDrag || onSeekEnd) {
+        isDraggingRef.current = true;
+        document.body.style.cursor = "grabbing";
+        document.body.style.userSelect = "none";
+        onSeekStart?.();
+        const time = getTimeFromPosition(e.clientX);
+        onSeekDrag?.(time);
+      }
+    },
+    [gesture, duration, onSeekStart, onSeekDrag, onSeekEnd, getTimeFromPosition]
+  );
+
+  const isDragEnabled = !!onSeekStart || !!onSeekDrag || !!onSeekEnd;
+
+  // Click handler for simple seeking (only when not dragging)
+  const handleClick = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      const isGesture = isGestureRef.current;
+      isGestureRef.current = false;
+      if (isGesture && gesture?.consumesClick()) {
+        onClick?.(e);
+        return;
+      }
+
+      // Skip if drag-to-seek is enabled (handled by mouse events)
+      if (!isDragEnabled && onSeek && duration > 0) {
+        const time = getTimeFromPosition(e.clientX);
+        onSeek(time);
+      } else if (isGesture && isDragEnabled && duration > 0) {
+        // Drag-to-seek did not start for the taken-over press: report the click as a zero-length drag
+        const time = getTimeFromPosition(e.clientX);
+        onSeekStart?.();
+        onSeekDrag?.(time);
+        onSeekEnd?.(time);
+      }
+      onClick?.(e);
+    },
+    [gesture, onSeek, onSeekStart, onSeekDrag, onSeekEnd, duration, isDragEnabled, getTimeFromPosition, onClick]
+  );
+
+  // Keyboard handler: Arrow keys seek 5s, Home/End jump to the start/end of the window (all snapped like pointer seeks)
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+      onKeyDown?.(e);
+      if (e.defaultPrevented || !onSeek || duration <= 0) return;
+
+      const SEEK_STEP = 5; // 5 second step
+      const current = currentTime ?? startTime;
+      // Snapped step target; the plain step when snapping would not move in the key's direction (sparse beats)
+      const step = (delta: number) => {
+        const target = Math.max(startTime, Math.min(current + delta, endTime));
+        const snapped = snapTime(target);
+        return (snapped - current) * delta > 0 ? snapped : target;
+      };
+
+      switch (e.key) {
+        case "ArrowLeft":
+          e.preventDefault();
+          onSeek(step(-SEEK_STEP));
+          break;
+        case "ArrowRight":
+          e.preventDefault();
+          onSeek(step(SEEK_STEP));
+          break;
+        case "Home":
+          e.preventDefault();
+          onSeek(snapTime(startTime));
+          break;
+        case "End":
+          e.preventDefault();
+          onSeek(snapTime(endTime));
+          break;
+      }
+    },
+    [onKeyDown, onSeek, startTime, endTime, duration, currentTime, snapTime]
+  );
+
+  // Interactive when any seek callback is provided
+  const isInteractive = (!!onSeek || isDragEnabled) && duration > 0;
+  const isHoverEnabled = (isInteractive || trackHover || !!onHover) && duration > 0;
+
+  const handleMouseMove = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      onMouseMove?.(e);
+      const canvas = canvasRef.current;
+      if (!isHoverEnabled || !canvas) return;
+
+      const time = getTimeFromPosition(e.clientX);
+      const rect = canvas.getBoundingClientRect();
+      const visibleDuration = visibleEnd - visibleStart;
+      const ratio = visibleDuration > 0 ? (time - visibleStart) / visibleDuration : 0;
+      const position = { time, clientX: rect.left + ratio * rect.width, clientY: rect.top };
+
+      if (hoverTimeRef.current !== time) {
+        hoverTimeRef.current = time;
+        onHoverRef.current?.(time);
+      }
+      setHover((previous) =>
+        previous?.time === time && previous.clientX === position.clientX && previous.clientY === position.clientY
+          ? previous
+          : position
+      );
+    },
+    [onMouseMove, canvasRef, isHoverEnabled, getTimeFromPosition, visibleStart, visibleEnd]
+  );
+
+  const handleMouseLeave = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      onMouseLeave?.(e);
+      if (hoverTimeRef.current !== null) {
+        hoverTimeRef.current = null;
+        onHoverRef.current?.(null);
+      }
+      setHover(null);
+    },
+    [onMouseLeave]
+  );
+
+  // Drop a stale hover when hover tracking is switched off
+  useEffect(() => {
+    if (isHoverEnabled) return;
+    hoverTimeRef.current = null;
+    setHover(null);
+  }, [isHoverEnabled]);
+
+  return {
+    /** Canvas cursor for the current interaction mode */
+    cursor: isInteractive ? (isDragEnabled ? "grab" : "pointer") : undefined,
+    /** Hovered time and line position, null while the pointer is outside the canvas */
+    hover: isHoverEnabled ? hover : null,
+    /** Accessibility attributes and event handlers to spread on the canvas */
+    canvasProps: {
+      role: isInteractive ? "slider" : "img",
+      "aria-label": isInteractive ? labels.interactive : labels.static,
+      "aria-valuemin": isInteractive ? Math.floor(startTime) : undefined,
+      "aria-valuemax": isInteractive ? Math.floor(endTime) : undefined,
+      "aria-valuenow": isInteractive ? Math.floor(currentTime ?? startTime) : undefined,
+      "aria-valuetext": isInteractive
+        ? `${formatTimeForScreen(currentTime ?? startTime)} / ${formatTimeForScreen(endTime)}`
+        : undefined,
+      tabIndex: isInteractive ? 0 : -1,
+      onMouseDown: isDragEnabled || gesture ? handleMouseDown : undefined,
+      onClick: handleClick,
+      onMouseMove: handleMouseMove,
+      onMouseLeave: handleMouseLeave,
+      onKeyDown: isInteractive ? handleKeyDown : undefined,
+    },
+  };
+}
@@ -0,0 +1,224 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import type { TimeSpan } from "./types";
+
+export interface UseWaveformZoomConfig {
+  /** Zoom in pixels per second; undefined disables zooming and scrolling */
+  zoom?: number;
+  /** Highest zoom in pixels per second */
+  maxZoom: number;
+  /** Called with the new zoom after gesture, keyboard or imperative zooming */
+  onZoomChange?: (zoom: number) => void;
+  /** Scroll a page ahead when the playhead leaves the visible part */
+  followPlayhead: boolean;
+  /** Current playback time in seconds (absolute) */
+  currentTime?: number;
+  /** Start of the zoomable timeline (the clip) in seconds */
+  startTime: number;
+  /** End of the zoomable timeline in seconds */
+  endTime: number;
+}
+
+export interface WaveformZoomControls {
+  /** Current zoom in pixels per second (the fitted zoom while the whole clip is shown) */
+  getZoom: () => number;
+  /** Zoom to pixels per second, keeping `anchorTime` (absolute seconds) in place. Default anchor: center of the view */
+  setZoom: (zoom: number, anchorTime?: number) => void;
+  /** Multiply the zoom by `factor`. Default: 2 */
+  zoomIn: (factor?: number) => void;
+  /** Divide the zoom by `factor`. Default: 2 */
+  zoomOut: (factor?: number) => void;
+  /** Scroll so `time` (absolute seconds) is centered */
+  scrollToTime: (time: number) => void;
+  /** Absolute time range currently visible */
+  getVisibleRange: () => TimeSpan;
+}
+
+// Zoom factor of one +/- key press or zoomIn()/zoomOut() call
+const ZOOM_STEP = 2;
+// Wheel/pinch sensitivity: zoom factor per pixel of wheel delta
+const WHEEL_ZOOM_SPEED = 0.01;
+// Where the playhead lands after a follow scroll (fraction of the view width)
+const FOLLOW_OFFSET = 0.05;
+
+// Layout effects warn during SSR in React 18
+const useIsomorphicLayoutEffect = typeof window === "undefined" ? useEffect : useLayoutEffect;
+
+/**
+ * Hook for zooming (pixels per second) and horizontal scrolling of a timeline
+ * The host element receives wheel/pinch and +/- key zooming; the viewport element is the scroll container
+ */
+export function useWaveformZoom({
+  zoom,
+  maxZoom,
+  onZoomChange,
+  followPlayhead,
+  currentTime,
+  startTime,
+  endTime,
+}: UseWaveformZoomConfig) {
+  const hostRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [zoomLevel, setZoomLevel] = useState(zoom ?? 0);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  // Scroll position to apply once the content has been laid out at the new zoom
+  const pendingScrollRef = useRef<number | null>(null);
+  const onZoomChangeRef = useRef(onZoomChange);
+  onZoomChangeRef.current = onZoomChange;
+
+  const enabled = zoom !== undefined;
+  const duration = Math.max(0, endTime - startTime);
+  // Zoom never goes below showing the whole timeline
+  const fitZoom = size.width > 0 && duration > 0 ? size.width / duration : 0;
+  const pixelsPerSecond = Math.max(fitZoom, Math.min(zoomLevel, maxZoom));
+  const contentWidth = duration * pixelsPerSecond;
+  const visibleStart = pixelsPerSecond > 0 ? startTime + scrollLeft / pixelsPerSecond : startTime;
+  const visibleEnd = pixelsPerSecond > 0 ? Math.min(endTime, visibleStart + size.width / pixelsPerSecond) : endTime;
+
+  // Latest layout for stable callbacks
+  const layoutRef = useRef({ fitZoom, pixelsPerSecond, visibleStart, visibleEnd, startTime, width: size.width });
+  layoutRef.current = { fitZoom, pixelsPerSecond, visibleStart, visibleEnd, startTime, width: size.width };
+
+  const applyZoom = useCallback(
+    (next: number, anchorTime?: number, notify = true) => {
+      const layout = layoutRef.current;
+      const clamped = Math.max(layout.fitZoom, Math.min(next, maxZoom));
+      if (layout.pixelsPerSecond > 0) {
+        // Keep the anchor at the same x position inside the view
+        const anchor = anchorTime ?? (layout.visibleStart + layout.visibleEnd) / 2;
+        const anchorX = (anchor - layout.visibleStart) * layout.pixelsPerSecond;
+        pendingScrollRef.current = (anchor - layout.startTime) * clamped - anchorX;
+      }
+      setZoomLevel(clamped);
+      if (notify) onZoomChangeRef.current?.(clamped);
+    },
+    [maxZoom]
+  );
+
+  const scrollToTime = useCallback((time: number, offset = 0.5) => {
+    const viewport = viewportRef.current;
+    const layout = layoutRef.current;
+    if (!viewport || layout.pixelsPerSecond <= 0) return;
+    viewport.scrollLeft = (time - layout.startTime) * layout.pixelsPerSecond - layout.width * offset;
+    setScrollLeft(viewport.scrollLeft);
+  }, []);
+
+  // Controlled zoom prop
+  useEffect(() => {
+    if (zoom !== undefined) applyZoom(zoom, undefined, false);
+  }, [zoom, applyZoom]);
+
+  // Apply the anchored scroll position after the content width changed
+  useIsomorphicLayoutEffect(() => {
+    const viewport = viewportRef.current;
+    if (pendingScrollRef.current === null || !viewport) return;
+    viewport.scrollLeft = Math.max(0, pendingScrollRef.current);
+    pendingScrollRef.current = null;
+    setScrollLeft(viewport.scrollLeft);
+  }, [pixelsPerSecond]);
+
+  // Track the view size
+  useEffect(() => {
+    const host = hostRef.current;
+    if (!enabled || !host) return;
+
+    const resizeObserver = new ResizeObserver((entries) => {
+      const entry = entries[0];
+      if (!entry) return;
+      const { width, height } = entry.contentRect;
+      setSize((previous) => (previous.width === width && previous.height === height ? previous : { width, height }));
+    });
+
+    resizeObserver.observe(host);
+    return () => resizeObserver.disconnect();
+  }, [enabled]);
+
+  // Ctrl/⌘ + wheel and trackpad pinch (reported as ctrl + wheel) zoom around the pointer
+  // Native listener: React wheel handlers are passive and cannot prevent page zoom
+  useEffect(() => {
+    const host = hostRef.current;
+    if (!enabled || !host) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const layout = layoutRef.current;
+      if (layout.pixelsPerSecond <= 0) return;
+      // Line-based deltas (mouse wheels in Firefox) are roughly 16px each
+      const delta = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+      const anchorTime = layout.visibleStart + (e.clientX - host.getBoundingClientRect().left) / layout.pixelsPerSecond;
+      applyZoom(layout.pixelsPerSecond * Math.exp(-delta * WHEEL_ZOOM_SPEED), anchorTime);
+    };
+
+    host.addEventListener("wheel", handleWheel, { passive: false });
+    return () => host.removeEventListener("wheel", handleWheel);
+  }, [enabled, applyZoom]);
+
+  // Keep the playhead in view: jump a page when it leaves the visible part
+  useEffect(() => {
+    if (!enabled || !followPlayhead || currentTime === undefined) return;
+    const { visibleStart: start, visibleEnd: end } = layoutRef.current;
+    if (currentTime < start || currentTime > end) {
+      scrollToTime(currentTime, FOLLOW_OFFSET);
+    }
+  }, [enabled, followPlayhead, currentTime, scrollToTime]);
+
+  const handleScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
+    setScrollLeft(e.currentTarget.scrollLeft);
+  }, []);
+
+  // +/- zoom around the playhead (or the center when it is out of view), 0 fits the whole timeline
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const layout = layoutRef.current;
+      const anchorTime =
+        currentTime !== undefined && currentTime >= layout.visibleStart && currentTime <= layout.visibleEnd
+          ? currentTime
+          : undefined;
+
+      switch (e.key) {
+        case "+":
+        case "=":
+          e.preventDefault();
+          applyZoom(layout.pixelsPerSecond * ZOOM_STEP, anchorTime);
+          break;
+        case "-":
+        case "_":
+          e.preventDefault();
+          applyZoom(layout.pixelsPerSecond / ZOOM_STEP, anchorTime);
+          break;
+        case "0":
+          e.preventDefault();
+          applyZoom(0);
+          break;
+      }
+    },
+    [currentTime, applyZoom]
+  );
+
+  const controls = useMemo<WaveformZoomControls>(
+    () => ({
+      getZoom: () => layoutRef.current.pixelsPerSecond,
+      setZoom: (next, anchorTime) => applyZoom(next, anchorTime),
+      zoomIn: (factor = ZOOM_STEP) => applyZoom(layoutRef.current.pixelsPerSecond * factor),
+      zoomOut: (factor = ZOOM_STEP) => applyZoom(layoutRef.current.pixelsPerSecond / factor),
+      scrollToTime: (time) => scrollToTime(time),
+      getVisibleRange: () => ({ startTime: layoutRef.current.visibleStart, endTime: layoutRef.current.visibleEnd }),
+    }),
+    [applyZoom, scrollToTime]
+  );
+
+  return {
+    enabled,
+    hostRef,
+    viewportRef,
+    size,
+    contentWidth,
+    visibleStart,
+    visibleEnd,
+    handleScroll,
+    handleKeyDown,
+    controls,
+  };
+}
@@ -0,0 +1,45 @@
+// ============================================================================
+// Abort Helpers - Cancellation shared by decoding, streaming and the peak cache
+// ============================================================================
+
+/**
+ * Progress callback for long-running work (0-1)
+ */
+export type ProgressCallback = (progress: number) => void;
+
+export function createAbortError(message = "Audio decoding was aborted"): DOMException {
+  return new DOMException(message, "AbortError");
+}
+
+export function isAbortError(error: unknown): boolean {
+  return (error instanceof DOMException || error instanceof Error) && error.name === "AbortError";
+}
+
+export function throwIfAborted(signal?: AbortSignal, message?: string) {
+  if (signal?.aborted) {
+    throw createAbortError(message);
+  }
+}
+
+/**
+ * Reject as soon as the signal aborts, even if the underlying work cannot be interrupted (e.g. decodeAudioData)
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
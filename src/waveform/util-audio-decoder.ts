@@ -1,118 +1,360 @@
 // ============================================================================
 // Audio Decoding Utilities
-// Uses native Web Audio API first, falls back to WASM decoder on failure
+// Tries registered decoders in order: native Web Audio API, TypeScript (WAV) / WASM fallbacks, then custom ones
 // ============================================================================
 
-// Dynamic import for SSR safety - WASM loaded only when needed in browser
-type MPEGDecoderType = import("mpg123-decoder").MPEGDecoder;
+import type { DecodedAudio, PeakFormat, PeakPyramid, WaveformPeaks } from "./types";
+import { abortable, throwIfAborted } from "./util-abort";
+import { type AudioCodec, getCodecFromMimeType } from "./util-audio-sniff";
+import {
+  type AudioDecodeOptions,
+  type AudioDecoder,
+  type AudioDecoderInput,
+  type DecodedAudioChannels,
+  isFallbackDecoder,
+  runDecoders,
+} from "./util-decoder-registry";
+import {
+  type DecoderWorkerClient,
+  type DecoderWorkerFactory,
+  getDecoderWorker,
+  isDecoderWorkerUnavailable,
+} from "./util-decoder-worker";
+import { getCachedPeaks } from "./util-peak-cache";
+import {
+  type DecodedAudioInfo,
+  EMPTY_AUDIO_METADATA,
+  getDecodedAudioInfo,
+  getReductionMetadata,
+  type PeakReduction,
+  type PeakReductionResult,
+  reduceChannelData,
+  sliceChannelData,
+  type TimeRange,
+  withPyramidSampleRate,
+} from "./util-peak-reduction";
+import { createEmptyPeaks, getPeakScalingKey, type PeakScaling } from "./util-peaks";
+
+export type { DecodedAudioChannels };
+
+async function readBlob(blob: Blob, bytes?: ArrayBuffer): Promise<ArrayBuffer> {
+  const arrayBuffer = bytes ?? (await blob.arrayBuffer());
+
+  if (arrayBuffer.byteLength === 0) {
+    throw new Error("Audio blob is empty");
+  }
+
+  return arrayBuffer;
+}
+
+const selectChannels = (channelData: Float32Array[], allChannels: boolean) =>
+  allChannels ? channelData : channelData.slice(0, 1);
+
+// Share of onProgress covered by decoding; the rest is peak extraction
+const DECODE_PROGRESS_SHARE = 0.9;
 
 /**
- * Extract peaks from Float32Array channel data
+ * Decode blob into raw PCM channel data using the registered decoders
+ * @param allChannels - Return every channel; when false only the first channel is kept. Default: true
  */
-function extractPeaksFromChannelData(channelData: Float32Array, sampleCount: number): number[] {
-  if (channelData.length === 0 || sampleCount <= 0) {
-    return [];
-  }
+export async function decodeAudioChannels(
+  blob: Blob,
+  allChannels = true,
+  options: AudioDecodeOptions = {}
+): Promise<DecodedAudioChannels> {
+  const arrayBuffer = await readBlob(blob, options.arrayBuffer);
+  throwIfAborted(options.signal);
+
+  return runDecoders(
+    blob,
+    arrayBuffer,
+    async (decoder, input) => {
+      const { channelData, sampleRate } = await decoder.decode(input);
+      return { channelData: selectChannels(channelData, allChannels), sampleRate };
+    },
+    options
+  );
+}
 
-  const normalizedSampleCount = Math.min(sampleCount, channelData.length);
-  const blockSize = Math.max(1, Math.floor(channelData.length / normalizedSampleCount));
-  const peaks: number[] = [];
+interface ReducedAudio {
+  result: PeakReductionResult;
+  audio: DecodedAudioInfo;
+  codec: AudioCodec | null;
+}
+
+/**
+ * Decode blob and reduce it into peaks or a peak pyramid using the registered decoders
+ * With a worker, decoded channel data is transferred to the worker for reduction,
+ * and the built-in fallback decoders run entirely inside the worker
+ * @param allChannels - Reduce every channel; when false only the first channel is read
+ * @param range - Only reduce this time window of the decoded audio
+ */
+async function decodeReduced(
+  blob: Blob,
+  allChannels: boolean,
+  reduction: PeakReduction,
+  range: TimeRange,
+  worker: boolean | DecoderWorkerFactory = false,
+  { signal, onProgress, arrayBuffer: bytes }: AudioDecodeOptions = {}
+): Promise<ReducedAudio> {
+  const workerClient = worker ? getDecoderWorker(worker) : null;
+  const decodeOptions: AudioDecodeOptions = {
+    signal,
+    onProgress: onProgress && ((progress) => onProgress(progress * DECODE_PROGRESS_SHARE)),
+  };
+
+  onProgress?.(0);
+
+  const arrayBuffer = await readBlob(blob, bytes);
+  throwIfAborted(signal);
+
+  // Decode on the main thread, reducing in the worker if there is one
+  const decodeAndReduce = async (
+    decoder: AudioDecoder,
+    input: AudioDecoderInput,
+    client: DecoderWorkerClient | null
+  ): Promise<Omit<ReducedAudio, "codec">> => {
+    const decoded = await decoder.decode(input);
+    throwIfAborted(signal);
+    // Read the shape before the channel buffers are transferred to the worker
+    const audio = getDecodedAudioInfo(decoded);
+    const channels = sliceChannelData(selectChannels(decoded.channelData, allChannels), decoded.sampleRate, range);
+    if (!client) return { result: reduceChannelData(channels, reduction), audio };
 
-  for (let i = 0; i < normalizedSampleCount; i++) {
-    const start = i * blockSize;
-    let sum = 0;
-    for (let j = 0; j < blockSize; j++) {
-      sum += Math.abs(channelData[start + j] || 0);
+    try {
+      return { result: await abortable(client.extract(channels, reduction), signal), audio };
+    } catch (error) {
+      if (!isDecoderWorkerUnavailable(error)) throw error;
+      // The channel buffers went to a worker that never loaded: decode again and reduce here
+      return decodeAndReduce(decoder, input, null);
     }
-    peaks.push(sum / blockSize);
-  }
+  };
+
+  const reduced = await runDecoders(
+    blob,
+    arrayBuffer,
+    async (decoder, input): Promise<ReducedAudio> => {
+      const codec = input.codec ?? getCodecFromMimeType(blob.type);
+
+      if (workerClient && isFallbackDecoder(decoder)) {
+        try {
+          // Transfer a copy so decoders after the fallback still see the original bytes
+          const { peaks, audio } = await workerClient.decode(
+            input.data.slice(0),
+            blob.type,
+            allChannels,
+            reduction,
+            range,
+            {
+              signal,
+              onProgress: input.onProgress,
+            }
+          );
+          return { result: peaks, audio, codec };
+        } catch (error) {
+          if (!isDecoderWorkerUnavailable(error)) throw error;
+          // The worker never loaded: decode this blob on the main thread instead
+          return { ...(await decodeAndReduce(decoder, input, null)), codec };
+        }
+      }
+
+      return { ...(await decodeAndReduce(decoder, input, workerClient)), codec };
+    },
+    decodeOptions
+  );
+  onProgress?.(1);
+  return reduced;
+}
+
+export interface DecodeAudioOptions extends PeakScaling, AudioDecodeOptions, TimeRange {
+  /**
+   * Peak format to produce. Default: "average"
+   * - `average`: mean-absolute peaks as `number[]` (0-1)
+   * - `minmax`: signed min/max pairs as interleaved `Float32Array` (-1 to 1)
+   */
+  peakFormat?: PeakFormat;
+  /**
+   * Run the WASM decode and peak extraction in a Web Worker to keep the main thread responsive.
+   * `true` uses the bundled worker; pass a factory to supply your own `Worker` instance.
+   * Falls back to the main thread when Workers are unavailable or the worker fails to load. Default: false
+   */
+  worker?: boolean | DecoderWorkerFactory;
+}
 
-  // Normalize to 0-1 range
-  if (peaks.length === 0) return [];
-  const maxPeak = Math.max(...peaks);
-  return maxPeak > 0 ? peaks.map((p) => p / maxPeak) : peaks;
+export interface DecodeWaveformOptions extends DecodeAudioOptions {
+  /** Number of peaks. Default: same as AudioWaveform (window width, at least 500) */
+  sampleCount?: number;
+  /** Keep every channel instead of only the first. Default: false */
+  splitChannels?: boolean;
+  /** Build a multi-resolution peak pyramid instead of `sampleCount` peaks (ignores `peakFormat`). Default: false */
+  pyramid?: boolean;
+  /** Audio samples per peak at the finest pyramid level. Default: 256 */
+  samplesPerPeak?: number;
 }
 
 /**
- * Decode using native Web Audio API (OfflineAudioContext)
+ * Decode blob into peaks together with the duration, sample rate, channel count and codec of the audio
  */
-async function decodeWithNativeAPI(arrayBuffer: ArrayBuffer): Promise<AudioBuffer> {
-  const offlineContext = new OfflineAudioContext(1, 1, 44100);
-  return offlineContext.decodeAudioData(arrayBuffer);
+export function decodeAudio(
+  blob: Blob,
+  options: DecodeWaveformOptions & { pyramid: true }
+): Promise<DecodedAudio<PeakPyramid>>;
+export function decodeAudio(
+  blob: Blob,
+  options?: DecodeWaveformOptions & { pyramid?: false }
+): Promise<DecodedAudio<WaveformPeaks[]>>;
+export function decodeAudio(blob: Blob, options?: DecodeWaveformOptions): Promise<DecodedAudio<PeakReductionResult>>;
+export async function decodeAudio(
+  blob: Blob,
+  {
+    sampleCount = getDefaultSampleCount(),
+    splitChannels = false,
+    pyramid = false,
+    samplesPerPeak = 256,
+    peakFormat = "average",
+    worker,
+    normalize,
+    scale,
+    dbFloor,
+    startTime,
+    endTime,
+    signal,
+    onProgress,
+    arrayBuffer,
+  }: DecodeWaveformOptions = {}
+): Promise<DecodedAudio<PeakReductionResult>> {
+  // SSR safe: return empty peaks in non-browser environment
+  if (typeof window === "undefined") {
+    return { peaks: pyramid ? { levels: [] } : [], ...EMPTY_AUDIO_METADATA };
+  }
+
+  const reduction: PeakReduction = pyramid
+    ? { kind: "pyramid", samplesPerPeak }
+    : { kind: "peaks", sampleCount, peakFormat, scaling: { normalize, scale, dbFloor } };
+  const range: TimeRange = { startTime, endTime };
+  const reduced = await decodeReduced(blob, splitChannels, reduction, range, worker, {
+    signal,
+    onProgress,
+    arrayBuffer,
+  });
+  const metadata = getReductionMetadata(reduced.audio, reduced.codec, reduction, range);
+  return { peaks: withPyramidSampleRate(reduced.result, metadata.sampleRate), ...metadata };
 }
 
+type AverageOptions = DecodeAudioOptions & { peakFormat?: "average" };
+type MinMaxOptions = DecodeAudioOptions & { peakFormat: "minmax" };
+
 /**
- * Decode MP3 using WASM decoder (mpg123)
- * Used as fallback when native API fails
- * Only runs in browser environment (SSR safe)
+ * Decode blob into peaks of the first channel
  */
-async function decodeWithWASM(arrayBuffer: ArrayBuffer): Promise<Float32Array> {
-  const { MPEGDecoder } = await import("mpg123-decoder");
-  const decoder = new MPEGDecoder() as MPEGDecoderType;
-  await decoder.ready;
-
-  const result = decoder.decode(new Uint8Array(arrayBuffer));
-
-  // Use first channel (works for both stereo and mono)
-  const channelData = result.channelData[0];
-  if (!channelData) {
-    decoder.free();
-    throw new Error("WASM decoder returned no channel data");
-  }
+export function decodeAudioBlob(blob: Blob, sampleCount: number, options?: AverageOptions): Promise<number[]>;
+export function decodeAudioBlob(blob: Blob, sampleCount: number, options: MinMaxOptions): Promise<Float32Array>;
+export function decodeAudioBlob(blob: Blob, sampleCount: number, options?: DecodeAudioOptions): Promise<WaveformPeaks>;
+export async function decodeAudioBlob(
+  blob: Blob,
+  sampleCount: number,
+  options: DecodeAudioOptions = {}
+): Promise<WaveformPeaks> {
+  const { peakFormat = "average" } = options;
 
-  decoder.free();
+  // SSR safe: return empty peaks in non-browser environment
+  if (typeof window === "undefined") {
+    return createEmptyPeaks(peakFormat);
+  }
 
-  return channelData;
+  const { peaks } = await decodeAudio(blob, { ...options, sampleCount, splitChannels: false, pyramid: false });
+  return peaks[0] ?? createEmptyPeaks(peakFormat);
 }
 
-export async function decodeAudioBlob(blob: Blob, sampleCount: number): Promise<number[]> {
+/**
+ * Decode blob into peaks for every channel (e.g. [left, right] for stereo)
+ * Channels share one normalization factor, so a quieter channel renders smaller
+ */
+export function decodeAudioBlobChannels(blob: Blob, sampleCount: number, options?: AverageOptions): Promise<number[][]>;
+export function decodeAudioBlobChannels(
+  blob: Blob,
+  sampleCount: number,
+  options: MinMaxOptions
+): Promise<Float32Array[]>;
+export function decodeAudioBlobChannels(
+  blob: Blob,
+  sampleCount: number,
+  options?: DecodeAudioOptions
+): Promise<WaveformPeaks[]>;
+export async function decodeAudioBlobChannels(
+  blob: Blob,
+  sampleCount: number,
+  options: DecodeAudioOptions = {}
+): Promise<WaveformPeaks[]> {
   // SSR safe: return empty array in non-browser environment
   if (typeof window === "undefined") {
     return [];
   }
 
-  const arrayBuffer = await blob.arrayBuffer();
-
-  if (arrayBuffer.byteLength === 0) {
-    throw new Error("Audio blob is empty");
-  }
+  const { peaks } = await decodeAudio(blob, { ...options, sampleCount, splitChannels: true, pyramid: false });
+  return peaks;
+}
 
-  // Try native Web Audio API first
-  try {
-    const audioBuffer = await decodeWithNativeAPI(arrayBuffer);
-    const channelData = audioBuffer.getChannelData(0);
-    return extractPeaksFromChannelData(channelData, sampleCount);
-  } catch {
-    // Fall through to WASM fallback
-  }
+export interface DecodePyramidOptions extends Pick<DecodeAudioOptions, "worker" | "signal" | "onProgress"> {
+  /** Audio samples per peak at the finest level. Default: 256 */
+  samplesPerPeak?: number;
+  /** Build levels for every channel instead of only the first. Default: false */
+  splitChannels?: boolean;
+}
 
-  // WASM decoder fallback
-  try {
-    if (blob.type && !/mp3|mpeg/i.test(blob.type)) {
-      throw new Error("WASM decoder only supports MP3 audio");
-    }
-    const channelData = await decodeWithWASM(arrayBuffer);
-    return extractPeaksFromChannelData(channelData, sampleCount);
-  } catch {
-    throw new Error(
-      `Unable to decode audio data (type: ${blob.type}, size: ${blob.size} bytes). ` +
-        `Both native Web Audio API and WASM decoder failed. ` +
-        `The WASM fallback only supports MP3 audio. ` +
-        `Consider providing pre-decoded 'peaks' to the AudioWaveform component to bypass decoding.`
-    );
-  }
+/**
+ * Decode blob into a multi-resolution peak pyramid (signed min/max pairs at every level)
+ * Decode once, then render at any width or zoom level without decoding again
+ */
+export async function decodeAudioBlobPyramid(blob: Blob, options: DecodePyramidOptions = {}): Promise<PeakPyramid> {
+  const { peaks } = await decodeAudio(blob, { ...options, pyramid: true });
+  return peaks;
 }
 
-// Promise cache for Suspense support (automatic garbage collection)
-const audioDataCache = new WeakMap<Blob, Promise<number[]>>();
+// SSR-safe: returns 500 on server, window.innerWidth on client
+export const getDefaultSampleCount = () => {
+  if (typeof window === "undefined") return 500;
+  return Math.max(500, Math.ceil(window.innerWidth));
+};
 
-export function getAudioData(blob: Blob, sampleCount: number): Promise<number[]> {
-  let promise = audioDataCache.get(blob);
+// Cached loader for Suspense support and re-visits
+// The key includes every option that changes the result, so one blob can be cached at several resolutions
+// `signal` / `onProgress` apply to this caller only; a shared decode is cancelled once no caller needs it
+export function getDecodedAudio(
+  blob: Blob,
+  options: DecodeWaveformOptions = {}
+): Promise<DecodedAudio<PeakReductionResult>> {
+  const {
+    sampleCount = getDefaultSampleCount(),
+    splitChannels = false,
+    pyramid = false,
+    samplesPerPeak = 256,
+    peakFormat = "average",
+    startTime,
+    endTime,
+    signal,
+    onProgress,
+  } = options;
+  const channels = splitChannels ? "channels" : "mono";
+  const range = startTime !== undefined || endTime !== undefined ? `:t${startTime ?? 0}-${endTime ?? "end"}` : "";
+  const key = pyramid
+    ? `audio:pyramid:${samplesPerPeak}:${channels}${range}`
+    : `audio:peaks:${sampleCount}:${peakFormat}:${getPeakScalingKey(options)}:${channels}${range}`;
 
-  if (!promise) {
-    promise = decodeAudioBlob(blob, sampleCount);
-    audioDataCache.set(blob, promise);
-  }
+  return getCachedPeaks(blob, key, (loadOptions) => decodeAudio(blob, { ...options, sampleCount, ...loadOptions }), {
+    signal,
+    onProgress,
+  });
+}
+
+/**
+ * Same options as AudioWaveform's decode props (`sampleCount` must match the component to be reused)
+ */
+export type PrefetchPeaksOptions = DecodeWaveformOptions;
 
-  return promise;
+/**
+ * Decode and cache peaks ahead of time with the same options AudioWaveform will use
+ */
+export async function prefetchPeaks(blob: Blob, options: PrefetchPeaksOptions = {}): Promise<void> {
+  await getDecodedAudio(blob, options);
 }
@@ -0,0 +1,105 @@
+// ============================================================================
+// Audio Format Sniffing - Pick a fallback decoder from magic bytes instead of trusting MIME types
+// ============================================================================
+
+export type AudioCodec = "wav" | "mp3" | "vorbis" | "opus" | "flac";
+
+const OGG_PAGE_HEADER_SIZE = 27;
+
+const matchesASCII = (bytes: Uint8Array, offset: number, text: string) => {
+  if (bytes.length < offset + text.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+/**
+ * Size of a leading ID3v2 tag (header + syncsafe size + optional footer), or 0 when there is none
+ */
+export function getID3Size(bytes: Uint8Array): number {
+  if (!matchesASCII(bytes, 0, "ID3") || bytes.length < 10) return 0;
+  const size = ((bytes[6] & 0x7f) << 21) | ((bytes[7] & 0x7f) << 14) | ((bytes[8] & 0x7f) << 7) | (bytes[9] & 0x7f);
+  const hasFooter = (bytes[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+const readUint32BE = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+/**
+ * Total samples per channel from the Xing/Info or VBRI header of the first MPEG audio frame
+ * `bytes` must start at that frame (after any ID3v2 tag); returns null without a header holding a frame count
+ */
+export function readMP3SampleCount(bytes: Uint8Array): number | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || (bytes[1] & 0xe0) !== 0xe0) return null;
+
+  const version = (bytes[1] >> 3) & 0x03; // 3: MPEG-1, 2: MPEG-2, 0: MPEG-2.5
+  const layer = (bytes[1] >> 1) & 0x03; // 1: Layer III, 2: Layer II, 3: Layer I
+  if (version === 1 || layer === 0) return null;
+  const isMPEG1 = version === 3;
+  const isMono = bytes[3] >> 6 === 3;
+  const samplesPerFrame = layer === 3 ? 384 : layer === 2 || isMPEG1 ? 1152 : 576;
+
+  // Xing/Info sits right after the side information; its frame count is present when flag bit 0 is set
+  const xingOffset = 4 + (isMPEG1 ? (isMono ? 17 : 32) : isMono ? 9 : 17);
+  if (matchesASCII(bytes, xingOffset, "Xing") || matchesASCII(bytes, xingOffset, "Info")) {
+    if (bytes.length < xingOffset + 12 || (readUint32BE(bytes, xingOffset + 4) & 0x01) === 0) return null;
+    return readUint32BE(bytes, xingOffset + 8) * samplesPerFrame;
+  }
+
+  // VBRI (Fraunhofer) always sits 32 bytes after the frame header
+  if (matchesASCII(bytes, 36, "VBRI") && bytes.length >= 36 + 18) {
+    return readUint32BE(bytes, 36 + 14) * samplesPerFrame;
+  }
+
+  return null;
+}
+
+/**
+ * Identify the codec of the first Ogg logical stream from its identification packet
+ */
+function sniffOggCodec(bytes: Uint8Array): AudioCodec | null {
+  if (bytes.length <= OGG_PAGE_HEADER_SIZE) return null;
+  const packetStart = OGG_PAGE_HEADER_SIZE + bytes[26];
+
+  if (matchesASCII(bytes, packetStart, "OpusHead")) return "opus";
+  if (bytes[packetStart] === 0x01 && matchesASCII(bytes, packetStart + 1, "vorbis")) return "vorbis";
+  if (bytes[packetStart] === 0x7f && matchesASCII(bytes, packetStart + 1, "FLAC")) return "flac";
+  return null;
+}
+
+/**
+ * Detect the audio codec from the first bytes of a file
+ * Returns null for formats without a fallback decoder (AAC, M4A, WebM, ...)
+ */
+export function sniffAudioCodec(bytes: Uint8Array): AudioCodec | null {
+  if (matchesASCII(bytes, 0, "RIFF") && matchesASCII(bytes, 8, "WAVE")) return "wav";
+  if (matchesASCII(bytes, 0, "OggS")) return sniffOggCodec(bytes);
+  if (matchesASCII(bytes, 0, "fLaC")) return "flac";
+
+  // ID3v2 tags can precede both MP3 and FLAC streams
+  const offset = getID3Size(bytes);
+  if (offset > 0) {
+    return matchesASCII(bytes, offset, "fLaC") ? "flac" : "mp3";
+  }
+
+  // MPEG audio frame sync (11 set bits) with a valid layer (ADTS AAC uses layer 00)
+  if (bytes.length >= 2 && bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0 && (bytes[1] & 0x06) !== 0) {
+    return "mp3";
+  }
+
+  return null;
+}
+
+/**
+ * Map a MIME type to a codec (only used as a hint when the bytes are inconclusive)
+ */
+export function getCodecFromMimeType(type: string): AudioCodec | null {
+  if (/mp3|mpeg/i.test(type)) return "mp3";
+  if (/wav|wave/i.test(type)) return "wav";
+  if (/flac/i.test(type)) return "flac";
+  if (/opus/i.test(type)) return "opus";
+  if (/ogg|vorbis/i.test(type)) return "vorbis";
+  return null;
+}
@@ -0,0 +1,288 @@
+import type { WaveformPeaks, WaveformPeaksInput } from "./types";
+import { decodeAudioChannels } from "./util-audio-decoder";
+import { getPeakCount, getPeakRange, toChannelPeaks } from "./util-peaks";
+
+// ============================================================================
+// BBC audiowaveform Peak Files
+// Parsers and serializers for the JSON and binary .dat formats of the `audiowaveform` CLI
+// https://github.com/bbc/audiowaveform/blob/master/doc/DataFormat.md
+// ============================================================================
+
+export type AudiowaveformBits = 8 | 16;
+
+/**
+ * Parsed audiowaveform peak data
+ * `peaks` maps directly onto AudioWaveform's `peaks` prop (pass `peaks[0]` for a single channel)
+ */
+export interface AudiowaveformData {
+  /** Format version (1: single channel, 2: multichannel) */
+  version: 1 | 2;
+  /** Number of channels */
+  channels: number;
+  /** Sample rate of the source audio in Hz */
+  sampleRate: number;
+  /** Audio samples summarized by each min/max pair */
+  samplesPerPixel: number;
+  /** Resolution of the stored values */
+  bits: AudiowaveformBits;
+  /** Number of min/max pairs per channel */
+  length: number;
+  /** Duration covered by the peaks in seconds */
+  duration: number;
+  /** Per-channel interleaved min/max pairs normalized to -1 to 1 */
+  peaks: Float32Array[];
+}
+
+/**
+ * audiowaveform JSON document (version 2)
+ */
+export interface AudiowaveformJSON {
+  version: 1 | 2;
+  channels?: number;
+  sample_rate: number;
+  samples_per_pixel: number;
+  bits: AudiowaveformBits;
+  length: number;
+  /** Per pixel, per channel: [min, max] (interleaved) */
+  data: number[];
+}
+
+export interface AudiowaveformSerializeInput {
+  /** Peaks in any supported shape, one entry per channel for multichannel */
+  peaks: WaveformPeaksInput;
+  /** Sample rate of the source audio in Hz */
+  sampleRate: number;
+  /** Audio samples summarized by each peak */
+  samplesPerPixel: number;
+  /** Output resolution. Default: 8 */
+  bits?: AudiowaveformBits;
+}
+
+const DAT_HEADER_SIZE_V1 = 20;
+const DAT_HEADER_SIZE_V2 = 24;
+// Header flag bit 0: set = 8-bit values, clear = 16-bit values
+const FLAG_8_BIT = 0x1;
+
+const getMaxValue = (bits: AudiowaveformBits) => (bits === 8 ? 127 : 32767);
+
+function validateBits(bits: number): AudiowaveformBits {
+  if (bits !== 8 && bits !== 16) {
+    throw new Error(`Unsupported audiowaveform resolution: ${bits} bits (expected 8 or 16)`);
+  }
+  return bits;
+}
+
+/**
+ * Split interleaved per-pixel data ([c0min, c0max, c1min, c1max, ...]) into normalized per-channel pairs
+ */
+function deinterleave(
+  read: (index: number) => number,
+  channels: number,
+  length: number,
+  bits: AudiowaveformBits
+): Float32Array[] {
+  const scale = 1 / getMaxValue(bits);
+  const peaks = Array.from({ length: channels }, () => new Float32Array(length * 2));
+
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < channels; c++) {
+      const offset = (i * channels + c) * 2;
+      // Clamp so -128 / -32768 map to exactly -1
+      peaks[c][i * 2] = Math.max(-1, read(offset) * scale);
+      peaks[c][i * 2 + 1] = Math.max(-1, read(offset + 1) * scale);
+    }
+  }
+
+  return peaks;
+}
+
+function createData(
+  version: 1 | 2,
+  channels: number,
+  sampleRate: number,
+  samplesPerPixel: number,
+  bits: AudiowaveformBits,
+  length: number,
+  peaks: Float32Array[]
+): AudiowaveformData {
+  const duration = sampleRate > 0 ? (length * samplesPerPixel) / sampleRate : 0;
+  return { version, channels, sampleRate, samplesPerPixel, bits, length, duration, peaks };
+}
+
+/**
+ * Parse an audiowaveform JSON document (string or already-parsed object)
+ */
+export function parseAudiowaveformJSON(input: string | AudiowaveformJSON): AudiowaveformData {
+  const json = (typeof input === "string" ? JSON.parse(input) : input) as AudiowaveformJSON;
+
+  if (json.version !== 1 && json.version !== 2) {
+    throw new Error(`Unsupported audiowaveform JSON version: ${json.version}`);
+  }
+  if (!Array.isArray(json.data)) {
+    throw new Error("Invalid audiowaveform JSON: missing data array");
+  }
+
+  const bits = validateBits(json.bits);
+  const channels = json.version === 2 ? (json.channels ?? 1) : 1;
+  const length = Math.min(json.length, Math.floor(json.data.length / (channels * 2)));
+  const peaks = deinterleave((index) => json.data[index], channels, length, bits);
+
+  return createData(json.version, channels, json.sample_rate, json.samples_per_pixel, bits, length, peaks);
+}
+
+/**
+ * Parse a binary audiowaveform .dat file (version 1 or 2, little-endian)
+ */
+export function parseAudiowaveformDat(buffer: ArrayBuffer): AudiowaveformData {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < DAT_HEADER_SIZE_V1) {
+    throw new Error("Invalid audiowaveform .dat file: header is truncated");
+  }
+
+  const version = view.getInt32(0, true);
+  if (version !== 1 && version !== 2) {
+    throw new Error(`Unsupported audiowaveform .dat version: ${version}`);
+  }
+  if (version === 2 && buffer.byteLength < DAT_HEADER_SIZE_V2) {
+    throw new Error("Invalid audiowaveform .dat file: header is truncated");
+  }
+
+  const flags = view.getUint32(4, true);
+  const sampleRate = view.getInt32(8, true);
+  const samplesPerPixel = view.getInt32(12, true);
+  const declaredLength = view.getUint32(16, true);
+  const channels = version === 2 ? view.getInt32(20, true) : 1;
+  const headerSize = version === 2 ? DAT_HEADER_SIZE_V2 : DAT_HEADER_SIZE_V1;
+  const bits: AudiowaveformBits = flags & FLAG_8_BIT ? 8 : 16;
+
+  const bytesPerValue = bits / 8;
+  const availableLength = Math.floor((buffer.byteLength - headerSize) / (bytesPerValue * channels * 2));
+  const length = Math.min(declaredLength, availableLength);
+
+  const read =
+    bits === 8
+      ? (index: number) => view.getInt8(headerSize + index)
+      : (index: number) => view.getInt16(headerSize + index * 2, true);
+  const peaks = deinterleave(read, channels, length, bits);
+
+  return createData(version, channels, sampleRate, samplesPerPixel, bits, length, peaks);
+}
+
+/**
+ * Quantize peaks into interleaved per-pixel integer values
+ */
+function quantize(peaks: WaveformPeaks[], bits: AudiowaveformBits): { length: number; values: Int32Array } {
+  const maxValue = getMaxValue(bits);
+  // Round half away from zero so symmetric peaks stay symmetric, then clamp to the signed range
+  const toInt = (value: number) =>
+    Math.max(-maxValue - 1, Math.min(maxValue, Math.sign(value) * Math.round(Math.abs(value) * maxValue)));
+  const length = Math.min(...peaks.map(getPeakCount));
+  const values = new Int32Array(length * peaks.length * 2);
+
+  for (let i = 0; i < length; i++) {
+    peaks.forEach((channel, c) => {
+      const { min, max } = getPeakRange(channel, i, i + 1);
+      const offset = (i * peaks.length + c) * 2;
+      values[offset] = toInt(min);
+      values[offset + 1] = toInt(max);
+    });
+  }
+
+  return { length, values };
+}
+
+/**
+ * Serialize peaks into an audiowaveform JSON document (version 2)
+ */
+export function toAudiowaveformJSON({
+  peaks,
+  sampleRate,
+  samplesPerPixel,
+  bits = 8,
+}: AudiowaveformSerializeInput): AudiowaveformJSON {
+  const channels = toChannelPeaks(peaks);
+  const { length, values } = quantize(channels, validateBits(bits));
+
+  return {
+    version: 2,
+    channels: channels.length,
+    sample_rate: sampleRate,
+    samples_per_pixel: samplesPerPixel,
+    bits,
+    length,
+    data: Array.from(values),
+  };
+}
+
+/**
+ * Serialize peaks into a binary audiowaveform .dat file (version 2, little-endian)
+ */
+export function toAudiowaveformDat({
+  peaks,
+  sampleRate,
+  samplesPerPixel,
+  bits = 8,
+}: AudiowaveformSerializeInput): ArrayBuffer {
+  const channels = toChannelPeaks(peaks);
+  const { length, values } = quantize(channels, validateBits(bits));
+  const bytesPerValue = bits / 8;
+
+  const buffer = new ArrayBuffer(DAT_HEADER_SIZE_V2 + values.length * bytesPerValue);
+  const view = new DataView(buffer);
+  view.setInt32(0, 2, true);
+  view.setUint32(4, bits === 8 ? FLAG_8_BIT : 0, true);
+  view.setInt32(8, sampleRate, true);
+  view.setInt32(12, samplesPerPixel, true);
+  view.setUint32(16, length, true);
+  view.setInt32(20, channels.length, true);
+
+  values.forEach((value, index) => {
+    if (bits === 8) view.setInt8(DAT_HEADER_SIZE_V2 + index, value);
+    else view.setInt16(DAT_HEADER_SIZE_V2 + index * 2, value, true);
+  });
+
+  return buffer;
+}
+
+export interface AudiowaveformDecodeOptions {
+  /** Audio samples summarized by each min/max pair. Default: 256 */
+  samplesPerPixel?: number;
+  /** Output resolution. Default: 8 */
+  bits?: AudiowaveformBits;
+  /** Keep every channel instead of only the first. Default: false */
+  splitChannels?: boolean;
+}
+
+/**
+ * Decode an audio blob into audiowaveform-compatible peak data
+ * Values are absolute amplitudes (not normalized), like the `audiowaveform` CLI output,
+ * so client-generated peaks can be serialized and cached next to server-generated ones
+ */
+export async function decodeAudioBlobToAudiowaveform(
+  blob: Blob,
+  { samplesPerPixel = 256, bits = 8, splitChannels = false }: AudiowaveformDecodeOptions = {}
+): Promise<AudiowaveformData> {
+  const { channelData, sampleRate } = await decodeAudioChannels(blob, splitChannels);
+  const samples = Math.min(...channelData.map((channel) => channel.length));
+  const length = Math.ceil(samples / samplesPerPixel);
+
+  const peaks = channelData.map((channel) => {
+    const pairs = new Float32Array(length * 2);
+    for (let i = 0; i < length; i++) {
+      const start = i * samplesPerPixel;
+      const end = Math.min(start + samplesPerPixel, samples);
+      let min = channel[start];
+      let max = min;
+      for (let j = start + 1; j < end; j++) {
+        if (channel[j] < min) min = channel[j];
+        if (channel[j] > max) max = channel[j];
+      }
+      pairs[i * 2] = Math.max(-1, Math.min(1, min));
+      pairs[i * 2 + 1] = Math.max(-1, Math.min(1, max));
+    }
+    return pairs;
+  });
+
+  const version = channelData.length > 1 ? 2 : 1;
+  return createData(version, channelData.length, sampleRate, samplesPerPixel, validateBits(bits), length, peaks);
+}
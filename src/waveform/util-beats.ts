@@ -0,0 +1,216 @@
+import { computeSpectrogram } from "../spectrogram/util-spectrogram";
+import { throwIfAborted } from "./util-abort";
+import { decodeAudioChannels } from "./util-audio-decoder";
+import type { AudioDecodeOptions } from "./util-decoder-registry";
+
+// ============================================================================
+// Beat Detection - Onsets (spectral flux), tempo (autocorrelation) and a beat grid
+// ============================================================================
+
+export interface BeatDetectionOptions {
+  /** Slowest tempo considered. Default: 60 */
+  minBpm?: number;
+  /** Fastest tempo considered. Default: 200 */
+  maxBpm?: number;
+  /** How far (0-1) the onset strength must rise above its local average to count as an onset. Default: 0.1 */
+  threshold?: number;
+  /** Shortest gap between two onsets in seconds. Default: 0.05 */
+  minInterval?: number;
+}
+
+export interface BeatAnalysis {
+  /** Estimated tempo in beats per minute; 0 when no tempo was found */
+  bpm: number;
+  /** Note/hit onset times in seconds */
+  onsets: number[];
+  /** Beat grid in seconds: evenly spaced at `bpm`, aligned to the onsets, covering the whole audio */
+  beats: number[];
+}
+
+// ~11.6 ms per frame at 44.1 kHz
+const HOP_SIZE = 512;
+const FFT_SIZE = 1024;
+// Tempo prior: tempi far (in octaves) from 120 BPM are less likely, which resolves half/double tempo ambiguity
+const TEMPO_PRIOR_CENTER = 120;
+
+/**
+ * Onset strength per frame: summed rise of log-magnitude across mel bands, normalized to 0-1
+ */
+function getOnsetStrength(channels: Float32Array[], sampleRate: number, length: number): Float32Array {
+  const { values, frameCount, frequencyBins } = computeSpectrogram(channels, sampleRate, {
+    fftSize: FFT_SIZE,
+    frequencyScale: "mel",
+    frequencyBins: 64,
+    frameCount: Math.ceil(length / HOP_SIZE),
+  });
+
+  const strength = new Float32Array(frameCount);
+  let max = 0;
+  for (let frame = 1; frame < frameCount; frame++) {
+    let flux = 0;
+    for (let bin = 0; bin < frequencyBins; bin++) {
+      const rise = values[frame * frequencyBins + bin] - values[(frame - 1) * frequencyBins + bin];
+      if (rise > 0) flux += rise;
+    }
+    strength[frame] = flux;
+    max = Math.max(max, flux);
+  }
+
+  if (max > 0) {
+    for (let frame = 0; frame < frameCount; frame++) strength[frame] /= max;
+  }
+  return strength;
+}
+
+/**
+ * Local maxima of the onset strength that clear the local average by `threshold`
+ */
+function pickOnsets(strength: Float32Array, frameRate: number, threshold: number, minInterval: number): number[] {
+  const peakRadius = Math.max(1, Math.round(0.03 * frameRate));
+  const meanRadius = Math.max(1, Math.round(0.1 * frameRate));
+  const minFrames = minInterval * frameRate;
+  const onsets: number[] = [];
+  let lastOnset = -Infinity;
+
+  for (let frame = 0; frame < strength.length; frame++) {
+    const value = strength[frame];
+    if (value <= 0) continue;
+
+    let isPeak = true;
+    for (let i = Math.max(0, frame - peakRadius); i <= Math.min(strength.length - 1, frame + peakRadius); i++) {
+      if (strength[i] > value) {
+        isPeak = false;
+        break;
+      }
+    }
+    if (!isPeak) continue;
+
+    const from = Math.max(0, frame - meanRadius);
+    const to = Math.min(strength.length, frame + meanRadius + 1);
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += strength[i];
+    if (value < sum / (to - from) + threshold) continue;
+
+    if (frame - lastOnset >= minFrames) {
+      onsets.push(frame);
+      lastOnset = frame;
+    }
+  }
+
+  return onsets;
+}
+
+/**
+ * Beat period in frames from the autocorrelation of the onset strength (0 when nothing repeats)
+ */
+function estimatePeriod(strength: Float32Array, frameRate: number, minBpm: number, maxBpm: number): number {
+  const mean = strength.reduce((sum, value) => sum + value, 0) / (strength.length || 1);
+  const centered = strength.map((value) => value - mean);
+  const minLag = Math.max(1, Math.floor((60 / maxBpm) * frameRate));
+  const maxLag = Math.min(strength.length - 1, Math.ceil((60 / minBpm) * frameRate));
+
+  const autocorrelation = (lag: number) => {
+    let sum = 0;
+    for (let i = 0; i + lag < centered.length; i++) sum += centered[i] * centered[i + lag];
+    return sum / (centered.length - lag);
+  };
+
+  let bestLag = 0;
+  let bestScore = 0;
+  const scores = new Map<number, number>();
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    if (lag > 0 && lag < centered.length) scores.set(lag, autocorrelation(lag));
+  }
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const octaves = Math.log2((60 * frameRate) / lag / TEMPO_PRIOR_CENTER);
+    const score = (scores.get(lag) ?? 0) * Math.exp(-0.5 * octaves * octaves);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (bestLag === 0) return 0;
+
+  // Parabolic interpolation between neighbouring lags for sub-frame precision
+  const before = scores.get(bestLag - 1) ?? 0;
+  const at = scores.get(bestLag) ?? 0;
+  const after = scores.get(bestLag + 1) ?? 0;
+  const curvature = before - 2 * at + after;
+  return curvature < 0 ? bestLag + (0.5 * (before - after)) / curvature : bestLag;
+}
+
+/**
+ * Offset (in frames) of the evenly spaced grid that lands on the most onset strength
+ */
+function alignGrid(strength: Float32Array, period: number): number {
+  let bestOffset = 0;
+  let bestScore = -1;
+  for (let offset = 0; offset < period; offset++) {
+    let score = 0;
+    for (let position = offset; position < strength.length; position += period) {
+      score += strength[Math.round(position)] ?? 0;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestOffset = offset;
+    }
+  }
+  return bestOffset;
+}
+
+/**
+ * Detect onsets, tempo and a beat grid in decoded channel data (channels are mixed down)
+ */
+export function detectBeats(
+  channels: Float32Array[],
+  sampleRate: number,
+  { minBpm = 60, maxBpm = 200, threshold = 0.1, minInterval = 0.05 }: BeatDetectionOptions = {}
+): BeatAnalysis {
+  const length = channels.length ? Math.min(...channels.map((channel) => channel.length)) : 0;
+  if (length === 0 || sampleRate <= 0) return { bpm: 0, onsets: [], beats: [] };
+
+  const strength = getOnsetStrength(channels, sampleRate, length);
+  // Spectrogram frames are centered on their slot
+  const frameDuration = length / sampleRate / strength.length;
+  const toTime = (frame: number) => (frame + 0.5) * frameDuration;
+
+  const onsets = pickOnsets(strength, 1 / frameDuration, threshold, minInterval).map(toTime);
+  const period = onsets.length > 1 ? estimatePeriod(strength, 1 / frameDuration, minBpm, maxBpm) : 0;
+  if (period === 0) return { bpm: 0, onsets, beats: [] };
+
+  const beats: number[] = [];
+  for (let position = alignGrid(strength, period); position < strength.length; position += period) {
+    beats.push(toTime(position));
+  }
+
+  return { bpm: 60 / (period * frameDuration), onsets, beats };
+}
+
+/**
+ * Decode a blob and detect its onsets, tempo and beat grid
+ */
+export async function detectAudioBeats(
+  blob: Blob,
+  options: BeatDetectionOptions & AudioDecodeOptions = {}
+): Promise<BeatAnalysis> {
+  const { channelData, sampleRate } = await decodeAudioChannels(blob, true, options);
+  throwIfAborted(options.signal);
+  return detectBeats(channelData, sampleRate, options);
+}
+
+/**
+ * Nearest time in a sorted list (binary search); returns `time` when the list is empty
+ */
+export function snapToNearest(times: number[], time: number): number {
+  if (times.length === 0) return time;
+
+  let low = 0;
+  let high = times.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (times[middle] < time) low = middle + 1;
+    else high = middle;
+  }
+  const previous = times[low - 1];
+  return previous !== undefined && time - previous <= times[low] - time ? previous : times[low];
+}
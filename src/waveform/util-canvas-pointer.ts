@@ -0,0 +1,46 @@
+// ============================================================================
+// Canvas Pointer - Maps pointer positions on a timeline canvas to times
+// ============================================================================
+
+export interface CanvasTimeWindow {
+  /** Start of the time window covered by the canvas in seconds (times are kept inside it) */
+  startTime: number;
+  /** End of the time window covered by the canvas in seconds */
+  endTime: number;
+  /** Part of the window drawn on the canvas (pointer positions map onto it) */
+  visibleStart: number;
+  /** End of the part of the window drawn on the canvas */
+  visibleEnd: number;
+  /** Adjust the time (e.g. snap to the nearest beat) */
+  snap?: (time: number) => number;
+}
+
+export interface CanvasPointer {
+  /** Canvas x / y in CSS pixels (x is not clamped, so it can be hit-tested against edges) */
+  x: number;
+  y: number;
+  /** Canvas width in CSS pixels */
+  width: number;
+  /** Snapped absolute time, clamped to the window */
+  time: number;
+}
+
+/**
+ * Canvas position and time of a pointer position (shared by region and marker editing)
+ */
+export function getCanvasPointer(
+  canvas: HTMLCanvasElement,
+  clientX: number,
+  clientY: number,
+  { startTime, endTime, visibleStart, visibleEnd, snap }: CanvasTimeWindow
+): CanvasPointer {
+  const rect = canvas.getBoundingClientRect();
+  const x = clientX - rect.left;
+  const time = visibleStart + (Math.max(0, Math.min(x, rect.width)) / (rect.width || 1)) * (visibleEnd - visibleStart);
+  return {
+    x,
+    y: clientY - rect.top,
+    width: rect.width,
+    time: Math.max(startTime, Math.min(snap ? snap(time) : time, endTime)),
+  };
+}
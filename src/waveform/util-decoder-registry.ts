@@ -0,0 +1,181 @@
+import { abortable, isAbortError, type ProgressCallback, throwIfAborted } from "./util-abort";
+import { type AudioCodec, getCodecFromMimeType, sniffAudioCodec } from "./util-audio-sniff";
+import { decodeWithFallback } from "./util-wasm-decoder";
+
+// ============================================================================
+// Decoder Registry - Ordered list of strategies tried until one decodes the audio
+// Built-in: native Web Audio API, then the WAV / WASM fallback decoders
+// ============================================================================
+
+/**
+ * Raw PCM channel data produced by the decode pipeline
+ */
+export interface DecodedAudioChannels {
+  /** One Float32Array per channel (-1 to 1) */
+  channelData: Float32Array[];
+  /** Sample rate of channelData in Hz */
+  sampleRate: number;
+}
+
+export interface AudioDecoderInput {
+  /** Source blob (use `blob.type` as a hint only; it is often missing or wrong) */
+  blob: Blob;
+  /** Encoded bytes, shared between attempts: copy with `data.slice(0)` before transferring or detaching */
+  data: ArrayBuffer;
+  /** Codec sniffed from magic bytes, or null when unrecognized */
+  codec: AudioCodec | null;
+  /** Aborted when the caller no longer needs the result; stop work and reject with an AbortError */
+  signal?: AudioDecodeOptions["signal"];
+  /** Report decode progress (0-1) when the decoder can measure it */
+  onProgress?: ProgressCallback;
+}
+
+export interface AudioDecodeOptions {
+  /** Cancel decoding (rejects with an AbortError) */
+  signal?: AbortSignal;
+  /** Called with decode progress (0-1) */
+  onProgress?: ProgressCallback;
+  /** Bytes of the blob when already read (e.g. for content hashing), so the file is not read twice */
+  arrayBuffer?: ArrayBuffer;
+}
+
+export interface AudioDecoder {
+  /** Unique name, used in error messages and for `unregisterDecoder` */
+  name: string;
+  /** Return false to skip this decoder for the input */
+  test: (input: AudioDecoderInput) => boolean | Promise<boolean>;
+  /** Decode into PCM channel data; throw to let the next decoder try */
+  decode: (input: AudioDecoderInput) => Promise<DecodedAudioChannels>;
+}
+
+export interface RegisterDecoderOptions {
+  /**
+   * Decoders with a higher priority are tried first (ties keep registration order).
+   * Built-in: native = 100, fallback = 50. Default: 0 (after the built-in decoders)
+   */
+  priority?: number;
+}
+
+export const NATIVE_DECODER_NAME = "native";
+export const FALLBACK_DECODER_NAME = "fallback";
+
+/**
+ * Decode using native Web Audio API (OfflineAudioContext)
+ * decodeAudioData detaches its input, so it gets a copy and the original stays usable for later decoders
+ */
+async function decodeWithNativeAPI({ data, signal }: AudioDecoderInput): Promise<DecodedAudioChannels> {
+  const offlineContext = new OfflineAudioContext(1, 1, 44100);
+  // decodeAudioData cannot be interrupted; abort stops waiting for it
+  const audioBuffer = await abortable(offlineContext.decodeAudioData(data.slice(0)), signal);
+  const channelData = Array.from({ length: audioBuffer.numberOfChannels || 1 }, (_, i) =>
+    audioBuffer.getChannelData(i)
+  );
+  return { channelData, sampleRate: audioBuffer.sampleRate };
+}
+
+const fallbackDecoder: AudioDecoder = {
+  name: FALLBACK_DECODER_NAME,
+  test: ({ blob, codec }) => (codec ?? getCodecFromMimeType(blob.type)) !== null,
+  decode: ({ blob, data, signal, onProgress }) => decodeWithFallback(data, blob.type, { signal, onProgress }),
+};
+
+/**
+ * Whether this is the built-in fallback decoder (compared by reference, so a custom decoder named "fallback" is not)
+ */
+export function isFallbackDecoder(decoder: AudioDecoder): boolean {
+  return decoder === fallbackDecoder;
+}
+
+const registry: { decoder: AudioDecoder; priority: number }[] = [
+  {
+    decoder: { name: NATIVE_DECODER_NAME, test: () => true, decode: decodeWithNativeAPI },
+    priority: 100,
+  },
+  { decoder: fallbackDecoder, priority: 50 },
+];
+
+/**
+ * Add a decoder to the pipeline (replaces any decoder with the same name)
+ * Returns a function that removes it again
+ */
+export function registerDecoder(decoder: AudioDecoder, { priority = 0 }: RegisterDecoderOptions = {}): () => void {
+  unregisterDecoder(decoder.name);
+  registry.push({ decoder, priority });
+  return () => {
+    const index = registry.findIndex((entry) => entry.decoder === decoder);
+    if (index >= 0) registry.splice(index, 1);
+  };
+}
+
+/**
+ * Remove a decoder by name (built-in decoders included)
+ */
+export function unregisterDecoder(name: string): void {
+  const index = registry.findIndex((entry) => entry.decoder.name === name);
+  if (index >= 0) registry.splice(index, 1);
+}
+
+/**
+ * Registered decoders in the order they are tried
+ */
+export function getAudioDecoders(): AudioDecoder[] {
+  // Array.prototype.sort is stable, so equal priorities keep registration order
+  return [...registry].sort((a, b) => b.priority - a.priority).map((entry) => entry.decoder);
+}
+
+/**
+ * Error thrown when every decoder failed or was skipped
+ */
+export interface AudioDecodeError extends Error {
+  name: "AudioDecodeError";
+  /** Failure of each attempted decoder, in the order they were tried */
+  errors: { decoder: string; error: Error }[];
+}
+
+export function isAudioDecodeError(error: unknown): error is AudioDecodeError {
+  return error instanceof Error && error.name === "AudioDecodeError";
+}
+
+export function createAudioDecodeError(blob: Blob, errors: AudioDecodeError["errors"]): AudioDecodeError {
+  const attempts = errors.length
+    ? errors.map(({ decoder, error }) => `${decoder}: ${error.message}`).join("; ")
+    : "no decoder accepted the data";
+  const error = new Error(
+    `Unable to decode audio data (type: ${blob.type}, size: ${blob.size} bytes). ` +
+      `Attempts: ${attempts}. ` +
+      `The built-in fallback decoders support WAV, MP3, Ogg Vorbis, Opus and FLAC audio; ` +
+      `use registerDecoder() to add others. ` +
+      `Consider providing pre-decoded 'peaks' to the AudioWaveform component to bypass decoding.`
+  ) as AudioDecodeError;
+  error.name = "AudioDecodeError";
+  error.errors = errors;
+  return error;
+}
+
+/**
+ * Run decoders in order until one succeeds, collecting every failure into an AudioDecodeError
+ * `attempt` performs the actual work per decoder (e.g. to route the built-in fallback to a worker)
+ * Aborting stops the whole pipeline instead of falling through to the next decoder
+ */
+export async function runDecoders<T>(
+  blob: Blob,
+  data: ArrayBuffer,
+  attempt: (decoder: AudioDecoder, input: AudioDecoderInput) => Promise<T>,
+  { signal, onProgress }: AudioDecodeOptions = {}
+): Promise<T> {
+  const input: AudioDecoderInput = { blob, data, codec: sniffAudioCodec(new Uint8Array(data)), signal, onProgress };
+  const errors: AudioDecodeError["errors"] = [];
+
+  for (const decoder of getAudioDecoders()) {
+    throwIfAborted(signal);
+    try {
+      if (!(await decoder.test(input))) continue;
+      return await attempt(decoder, input);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      errors.push({ decoder: decoder.name, error: error instanceof Error ? error : new Error(String(error)) });
+    }
+  }
+
+  throw createAudioDecodeError(blob, errors);
+}
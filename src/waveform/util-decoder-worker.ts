@@ -0,0 +1,208 @@
+import { createAbortError, type ProgressCallback } from "./util-abort";
+import type { DecodedAudioInfo, PeakReduction, PeakReductionResult, TimeRange } from "./util-peak-reduction";
+import { getPeakTransferables } from "./util-peaks";
+
+// ============================================================================
+// Decoder Worker Client - Runs fallback decoding and peak extraction off the main thread
+// ============================================================================
+
+/**
+ * Creates the Worker used for decoding
+ * Pass a custom factory when the default `new URL(..., import.meta.url)` pattern is not supported by your bundler
+ */
+export type DecoderWorkerFactory = () => Worker;
+
+/** Work the decoder worker answers with a result (or an error) */
+export type DecoderWorkerJob =
+  | { id: number; type: "extract"; channels: Float32Array[]; reduction: PeakReduction }
+  | {
+      id: number;
+      type: "decode";
+      data: ArrayBuffer;
+      mimeType: string;
+      allChannels: boolean;
+      reduction: PeakReduction;
+      range?: TimeRange;
+    };
+
+/** Jobs plus `cancel`, which aborts the job with the same id (no response is sent for it) */
+export type DecoderWorkerRequest = DecoderWorkerJob | { id: number; type: "cancel" };
+
+/** Progress messages may arrive any number of times before the final result or error */
+export type DecoderWorkerResponse =
+  | { id: number; peaks: PeakReductionResult; audio?: DecodedAudioInfo }
+  | { id: number; error: string }
+  | { id: number; progress: number };
+
+type DecoderWorkerResult = { peaks: PeakReductionResult; audio?: DecodedAudioInfo };
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export interface DecoderWorkerJobOptions {
+  /** Cancels the job inside the worker */
+  signal?: AbortSignal;
+  /** Decode progress (0-1) reported by the worker */
+  onProgress?: ProgressCallback;
+}
+
+interface PendingJob {
+  resolve: (result: DecoderWorkerResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+export interface DecoderWorkerClient {
+  /** Reduce already decoded channel data into peaks (channel buffers are transferred, not copied) */
+  extract(channels: Float32Array[], reduction: PeakReduction): Promise<PeakReductionResult>;
+  /**
+   * Decode encoded bytes with the fallback decoders and reduce them into peaks (bytes are transferred, not copied)
+   * Also returns the shape of the decoded audio, which never leaves the worker
+   */
+  decode(
+    data: ArrayBuffer,
+    mimeType: string,
+    allChannels: boolean,
+    reduction: PeakReduction,
+    range?: TimeRange,
+    options?: DecoderWorkerJobOptions
+  ): Promise<{ peaks: PeakReductionResult; audio: DecodedAudioInfo }>;
+}
+
+const WORKER_UNAVAILABLE_ERROR = "DecoderWorkerUnavailableError";
+
+/**
+ * The worker failed before it ever answered (e.g. its script could not be loaded)
+ * Jobs rejected with this error should be redone on the main thread
+ */
+export function isDecoderWorkerUnavailable(error: unknown): boolean {
+  return error instanceof Error && error.name === WORKER_UNAVAILABLE_ERROR;
+}
+
+const createDefaultWorker: DecoderWorkerFactory = () =>
+  new Worker(new URL("./decoder-worker.js", import.meta.url), { type: "module" });
+
+function createDecoderWorkerClient(worker: Worker, onFailure: (unavailable: boolean) => void): DecoderWorkerClient {
+  const pending = new Map<number, PendingJob>();
+  let nextId = 0;
+  // Any message proves the worker script loaded
+  let loaded = false;
+  let failure: Error | null = null;
+
+  worker.onmessage = (event: MessageEvent<DecoderWorkerResponse>) => {
+    loaded = true;
+    const response = event.data;
+    const job = pending.get(response.id);
+    if (!job) return;
+    if ("progress" in response) {
+      job.onProgress?.(response.progress);
+      return;
+    }
+    pending.delete(response.id);
+
+    if ("error" in response) {
+      job.reject(new Error(response.error));
+    } else {
+      job.resolve({ peaks: response.peaks, audio: response.audio });
+    }
+  };
+
+  // Worker crashed or failed to load: reject everything in flight (and anything sent later) and stop reusing it
+  worker.onerror = (event: ErrorEvent) => {
+    event.preventDefault?.();
+    const error = new Error(`Decoder worker failed: ${event.message || "unknown error"}`);
+    if (!loaded) error.name = WORKER_UNAVAILABLE_ERROR;
+    failure = error;
+    for (const job of pending.values()) {
+      job.reject(error);
+    }
+    pending.clear();
+    worker.terminate();
+    onFailure(!loaded);
+  };
+
+  const run = (
+    request: DistributiveOmit<DecoderWorkerJob, "id">,
+    transfer: ArrayBuffer[],
+    { signal, onProgress }: DecoderWorkerJobOptions = {}
+  ) =>
+    new Promise<DecoderWorkerResult>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+      if (failure) {
+        reject(failure);
+        return;
+      }
+
+      const id = nextId++;
+      const message = { ...request, id } as DecoderWorkerJob;
+
+      // Stop the job inside the worker too, not just stop waiting for it
+      const onAbort = () => {
+        if (!pending.delete(id)) return;
+        worker.postMessage({ id, type: "cancel" } satisfies DecoderWorkerRequest);
+        reject(createAbortError());
+      };
+      const settle = () => signal?.removeEventListener("abort", onAbort);
+      pending.set(id, {
+        resolve: (result) => {
+          settle();
+          resolve(result);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+        onProgress,
+      });
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      try {
+        worker.postMessage(message, transfer);
+      } catch {
+        // Some buffers cannot be transferred (e.g. engine-owned AudioBuffer storage): fall back to copying
+        worker.postMessage(message);
+      }
+    });
+
+  return {
+    extract: (channels, reduction) =>
+      run({ type: "extract", channels, reduction }, getPeakTransferables(channels)).then(({ peaks }) => peaks),
+    decode: async (data, mimeType, allChannels, reduction, range, options) => {
+      const request = { type: "decode", data, mimeType, allChannels, reduction, range } as const;
+      const { peaks, audio } = await run(request, [data], options);
+      return { peaks, audio: audio ?? { sampleRate: 0, numberOfChannels: 0, length: 0 } };
+    },
+  };
+}
+
+// One shared worker per factory (created lazily on first use)
+const workerClients = new Map<DecoderWorkerFactory, DecoderWorkerClient>();
+// Factories whose worker failed to load: a new one would fail the same way
+const unavailableFactories = new Set<DecoderWorkerFactory>();
+
+/**
+ * Get (or lazily create) the decoder worker client
+ * Returns null when Workers are unavailable (SSR, old browsers, CSP, or the worker script failed to load)
+ * so callers can fall back to the main thread
+ */
+export function getDecoderWorker(worker: true | DecoderWorkerFactory): DecoderWorkerClient | null {
+  if (typeof Worker === "undefined" && worker === true) return null;
+
+  const factory = worker === true ? createDefaultWorker : worker;
+  if (unavailableFactories.has(factory)) return null;
+  const existing = workerClients.get(factory);
+  if (existing) return existing;
+
+  try {
+    const client = createDecoderWorkerClient(factory(), (unavailable) => {
+      workerClients.delete(factory);
+      if (unavailable) unavailableFactories.add(factory);
+    });
+    workerClients.set(factory, client);
+    return client;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,35 @@
+import type { WaveformFill } from "../types";
+
+// ============================================================================
+// Canvas Fills - Resolve appearance colors and gradient descriptors to fillStyle
+// ============================================================================
+
+/**
+ * Area a horizontal gradient spans (the whole clip, which is wider than the canvas when zoomed in)
+ */
+export interface FillArea {
+  /** Left edge of the area in canvas pixels (negative when scrolled) */
+  x: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Turn a CSS color or gradient descriptor into a canvas fillStyle
+ */
+export function createCanvasFill(
+  ctx: CanvasRenderingContext2D,
+  fill: WaveformFill,
+  { x, width, height }: FillArea
+): string | CanvasGradient {
+  if (typeof fill === "string") return fill;
+
+  const gradient =
+    fill.direction === "horizontal"
+      ? ctx.createLinearGradient(x, 0, x + width, 0)
+      : ctx.createLinearGradient(0, 0, 0, height);
+  for (const { offset, color } of fill.stops) {
+    gradient.addColorStop(Math.max(0, Math.min(offset, 1)), color);
+  }
+  return gradient;
+}
@@ -0,0 +1,312 @@
+import { throwIfAborted } from "./util-abort";
+import { decodeAudioChannels } from "./util-audio-decoder";
+import type { AudioDecodeOptions } from "./util-decoder-registry";
+
+// ============================================================================
+// Loudness - EBU R128 / ITU-R BS.1770 loudness (LUFS), loudness range and true peak
+// ============================================================================
+
+/**
+ * Short-term loudness over time
+ * `values[i]` is the loudness (LUFS) of the 3 s window centered on `i * interval` seconds,
+ * or `-Infinity` where the window is digital silence
+ */
+export interface LoudnessCurve {
+  values: number[];
+  /** Seconds between values */
+  interval: number;
+}
+
+export interface LoudnessResult {
+  /** Integrated (gated programme) loudness in LUFS; `-Infinity` when the audio is shorter than 400 ms or silent */
+  integrated: number;
+  /** Loudness range in LU (EBU Tech 3342) */
+  loudnessRange: number;
+  /** True peak in dBTP (oversampled inter-sample peak); only measured with the `truePeak` option */
+  truePeak?: number;
+  /** Highest sample level in dBFS */
+  samplePeak: number;
+  /** Short-term loudness curve, e.g. for AudioWaveform's `loudness` overlay */
+  shortTerm: LoudnessCurve;
+}
+
+export interface MeasureLoudnessOptions {
+  /** Also measure the true peak (4x oversampled, which costs far more than the loudness itself). Default: false */
+  truePeak?: boolean;
+}
+
+export interface MeasureAudioLoudnessOptions extends AudioDecodeOptions, MeasureLoudnessOptions {}
+
+// Loudness is measured on 100 ms sub-blocks: 4 make a 400 ms gating block, 30 make a 3 s short-term window
+const SUB_BLOCK_SECONDS = 0.1;
+const GATING_BLOCK_SIZE = 4;
+const SHORT_TERM_SIZE = 30;
+const ABSOLUTE_GATE = -70;
+const INTEGRATED_RELATIVE_GATE = -10;
+const RANGE_RELATIVE_GATE = -20;
+
+// Interpolation filter for true peak: windowed sinc, 12 taps per phase
+const TRUE_PEAK_TAPS = 12;
+// Frames oversampled between yields to the event loop in measureAudioLoudness
+const TRUE_PEAK_CHUNK_FRAMES = 1 << 16;
+
+const toLoudness = (power: number) => (power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity);
+const toDecibels = (amplitude: number) => (amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity);
+
+/**
+ * Channel weights from BS.1770 for Web Audio channel order:
+ * surround channels of 5.0 (L R C SL SR) and 5.1 (L R C LFE SL SR) count +1.5 dB, LFE is ignored
+ */
+function getChannelWeights(numberOfChannels: number): number[] {
+  if (numberOfChannels === 5) return [1, 1, 1, 1.41, 1.41];
+  if (numberOfChannels === 6) return [1, 1, 1, 0, 1.41, 1.41];
+  return Array.from({ length: numberOfChannels }, () => 1);
+}
+
+/**
+ * K-weighting (high-shelf pre-filter + RLB high-pass) as two biquads, derived for any sample rate
+ */
+function getKWeightingFilters(sampleRate: number): [[number, number, number], [number, number]][] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  let a0 = 1 + K / Q + K * K;
+  const shelf: [[number, number, number], [number, number]] = [
+    [(Vh + (Vb * K) / Q + K * K) / a0, (2 * (K * K - Vh)) / a0, (Vh - (Vb * K) / Q + K * K) / a0],
+    [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  ];
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: [[number, number, number], [number, number]] = [
+    [1, -2, 1],
+    [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  ];
+
+  return [shelf, highPass];
+}
+
+/**
+ * Sum of K-weighted, channel-weighted power per 100 ms sub-block
+ */
+function getSubBlockPowers(channels: Float32Array[], sampleRate: number, length: number): Float64Array {
+  const subBlockFrames = Math.max(1, Math.round(sampleRate * SUB_BLOCK_SECONDS));
+  const powers = new Float64Array(Math.ceil(length / subBlockFrames));
+  const weights = getChannelWeights(channels.length);
+  const filters = getKWeightingFilters(sampleRate);
+
+  channels.forEach((channel, channelIndex) => {
+    const weight = weights[channelIndex];
+    if (weight === 0) return;
+
+    // Both biquad stages in direct form I, with their state in locals for speed
+    const [[b0, b1, b2], [a1, a2]] = filters[0];
+    const [[c0, c1, c2], [d1, d2]] = filters[1];
+    let x1 = 0;
+    let x2 = 0;
+    let y1 = 0;
+    let y2 = 0;
+    let z1 = 0;
+    let z2 = 0;
+    for (let i = 0; i < length; i++) {
+      const x = channel[i];
+      const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+      const sample = c0 * y + c1 * y1 + c2 * y2 - d1 * z1 - d2 * z2;
+      x2 = x1;
+      x1 = x;
+      y2 = y1;
+      y1 = y;
+      z2 = z1;
+      z1 = sample;
+      powers[Math.floor(i / subBlockFrames)] += weight * sample * sample;
+    }
+  });
+
+  // Mean power of each sub-block (the last one may be partial)
+  for (let i = 0; i < powers.length; i++) {
+    powers[i] /= Math.min(subBlockFrames, length - i * subBlockFrames);
+  }
+  return powers;
+}
+
+/**
+ * Mean power of every `size` consecutive sub-blocks, stepping one sub-block at a time
+ */
+function getWindowPowers(subBlocks: Float64Array, size: number): number[] {
+  const windows: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < subBlocks.length; i++) {
+    sum += subBlocks[i];
+    if (i >= size) sum -= subBlocks[i - size];
+    if (i >= size - 1) windows.push(sum / size);
+  }
+  return windows;
+}
+
+/**
+ * Two-stage gating: drop windows below the absolute gate, then below (mean of the rest + relative gate)
+ */
+function gateWindows(powers: number[], relativeGate: number): number[] {
+  const aboveAbsolute = powers.filter((power) => toLoudness(power) > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) return [];
+
+  const mean = aboveAbsolute.reduce((sum, power) => sum + power, 0) / aboveAbsolute.length;
+  const threshold = toLoudness(mean) + relativeGate;
+  return aboveAbsolute.filter((power) => toLoudness(power) > threshold);
+}
+
+function getIntegratedLoudness(subBlocks: Float64Array): number {
+  const gated = gateWindows(getWindowPowers(subBlocks, GATING_BLOCK_SIZE), INTEGRATED_RELATIVE_GATE);
+  if (gated.length === 0) return -Infinity;
+  return toLoudness(gated.reduce((sum, power) => sum + power, 0) / gated.length);
+}
+
+/**
+ * Loudness range: spread between the 10th and 95th percentile of gated short-term loudness
+ */
+function getLoudnessRange(subBlocks: Float64Array): number {
+  const gated = gateWindows(getWindowPowers(subBlocks, SHORT_TERM_SIZE), RANGE_RELATIVE_GATE)
+    .map(toLoudness)
+    .sort((a, b) => a - b);
+  if (gated.length === 0) return 0;
+
+  const percentile = (p: number) => gated[Math.min(gated.length - 1, Math.round((gated.length - 1) * p))];
+  return percentile(0.95) - percentile(0.1);
+}
+
+/**
+ * Short-term loudness centered on each sub-block boundary (windows are truncated at the edges)
+ */
+function getShortTermCurve(subBlocks: Float64Array): LoudnessCurve {
+  const half = SHORT_TERM_SIZE / 2;
+  const values: number[] = [];
+  for (let i = 0; i < subBlocks.length; i++) {
+    const from = Math.max(0, i - half);
+    const to = Math.min(subBlocks.length, i + half);
+    let sum = 0;
+    for (let j = from; j < to; j++) sum += subBlocks[j];
+    values.push(toLoudness(sum / (to - from)));
+  }
+  return { values, interval: SUB_BLOCK_SECONDS };
+}
+
+/**
+ * Interpolation coefficients for each oversampling phase (phase 0 is the original sample)
+ */
+function getTruePeakPhases(factor: number): Float64Array[] {
+  const half = TRUE_PEAK_TAPS / 2;
+  return Array.from({ length: factor - 1 }, (_, index) => {
+    const fraction = (index + 1) / factor;
+    return Float64Array.from({ length: TRUE_PEAK_TAPS }, (_, tap) => {
+      // Tap k weights sample n + k - half + 1, for a point `fraction` past sample n
+      const t = fraction - (tap - half + 1);
+      const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * t) / half);
+      return sinc * window;
+    });
+  });
+}
+
+function getSamplePeak(channels: Float32Array[], length: number): number {
+  let peak = 0;
+  for (const channel of channels) {
+    for (let n = 0; n < length; n++) {
+      const sample = Math.abs(channel[n]);
+      if (sample > peak) peak = sample;
+    }
+  }
+  return peak;
+}
+
+// 4x below 96 kHz, 2x below 192 kHz, none above (BS.1770 Annex 2)
+const getTruePeakFactor = (sampleRate: number) => (sampleRate >= 176400 ? 1 : sampleRate >= 88200 ? 2 : 4);
+
+/**
+ * Highest oversampled (inter-sample) value across channels for frames `from` to `to`
+ */
+function getTruePeak(channels: Float32Array[], length: number, phases: Float64Array[], from: number, to: number) {
+  const offset = TRUE_PEAK_TAPS / 2 - 1;
+  let peak = 0;
+
+  for (const channel of channels) {
+    for (let n = from; n < to; n++) {
+      for (const coefficients of phases) {
+        let value = 0;
+        for (let tap = 0; tap < TRUE_PEAK_TAPS; tap++) {
+          const index = n + tap - offset;
+          if (index >= 0 && index < length) value += coefficients[tap] * channel[index];
+        }
+        const magnitude = Math.abs(value);
+        if (magnitude > peak) peak = magnitude;
+      }
+    }
+  }
+
+  return peak;
+}
+
+const getFrameCount = (channels: Float32Array[]) =>
+  channels.length ? Math.min(...channels.map((channel) => channel.length)) : 0;
+
+/**
+ * Measure loudness of decoded channel data (one Float32Array per channel, Web Audio channel order)
+ * The true peak runs synchronously here; measureAudioLoudness spreads it over several tasks instead
+ */
+export function measureLoudness(
+  channels: Float32Array[],
+  sampleRate: number,
+  { truePeak = false }: MeasureLoudnessOptions = {}
+): LoudnessResult {
+  const length = getFrameCount(channels);
+  if (length === 0 || sampleRate <= 0) {
+    return {
+      integrated: -Infinity,
+      loudnessRange: 0,
+      ...(truePeak && { truePeak: -Infinity }),
+      samplePeak: -Infinity,
+      shortTerm: { values: [], interval: SUB_BLOCK_SECONDS },
+    };
+  }
+
+  const subBlocks = getSubBlockPowers(channels, sampleRate, length);
+  const samplePeak = getSamplePeak(channels, length);
+
+  return {
+    integrated: getIntegratedLoudness(subBlocks),
+    loudnessRange: getLoudnessRange(subBlocks),
+    ...(truePeak && {
+      truePeak: toDecibels(
+        Math.max(getTruePeak(channels, length, getTruePeakPhases(getTruePeakFactor(sampleRate)), 0, length), samplePeak)
+      ),
+    }),
+    samplePeak: toDecibels(samplePeak),
+    shortTerm: getShortTermCurve(subBlocks),
+  };
+}
+
+/**
+ * Decode a blob (every channel) and measure its loudness
+ * With `truePeak`, oversampling yields to the event loop between chunks so long files do not freeze the page
+ */
+export async function measureAudioLoudness(
+  blob: Blob,
+  { truePeak = false, ...options }: MeasureAudioLoudnessOptions = {}
+): Promise<LoudnessResult> {
+  const { channelData, sampleRate } = await decodeAudioChannels(blob, true, options);
+  throwIfAborted(options.signal);
+  const length = getFrameCount(channelData);
+  if (!truePeak || length === 0 || sampleRate <= 0) return measureLoudness(channelData, sampleRate, { truePeak });
+
+  const result = measureLoudness(channelData, sampleRate);
+  const phases = getTruePeakPhases(getTruePeakFactor(sampleRate));
+  let peak = getSamplePeak(channelData, length);
+  for (let from = 0; from < length; from += TRUE_PEAK_CHUNK_FRAMES) {
+    if (from > 0) await new Promise((resolve) => setTimeout(resolve, 0));
+    throwIfAborted(options.signal);
+    const to = Math.min(from + TRUE_PEAK_CHUNK_FRAMES, length);
+    peak = Math.max(peak, getTruePeak(channelData, length, phases, from, to));
+  }
+  return { ...result, truePeak: toDecibels(peak) };
+}
@@ -0,0 +1,514 @@
+import type { SpectrogramData } from "../spectrogram/util-spectrogram";
+import type { DecodedAudio, PeakPyramid, WaveformPeaks } from "./types";
+import { createAbortError, type ProgressCallback } from "./util-abort";
+
+// ============================================================================
+// Peak Cache - Content-addressed peak storage (in-memory LRU + optional IndexedDB)
+// Keys combine a hash of the audio bytes with the decode options, so identical audio
+// loaded from different Blob instances (or after a reload) skips decoding
+// ============================================================================
+
+export type CachedPeaks =
+  | WaveformPeaks
+  | WaveformPeaks[]
+  | PeakPyramid
+  | DecodedAudio<WaveformPeaks[] | PeakPyramid>
+  | SpectrogramData;
+
+export interface PeakCacheOptions {
+  /** Max entries kept in memory. Default: 100 */
+  maxEntries?: number;
+  /** Max bytes of peak data kept in memory. Default: 64 MiB */
+  maxBytes?: number;
+  /** Results larger than this are returned but cached in neither tier. Default: 32 MiB */
+  maxEntryBytes?: number;
+  /** Also persist peaks in IndexedDB so they survive reloads. Default: false */
+  persistent?: boolean;
+  /** Max entries kept in IndexedDB. Default: 1000 */
+  persistentMaxEntries?: number;
+  /** Max bytes of peak data kept in IndexedDB. Default: 256 MiB */
+  persistentMaxBytes?: number;
+  /** IndexedDB database name. Default: "react-audio-wavekit-peaks" */
+  databaseName?: string;
+}
+
+export interface PeakCacheEntry {
+  /** Full cache key (`<content hash>:<decode options>`) */
+  key: string;
+  /** Content hash of the audio bytes */
+  hash: string;
+  /** Estimated size of the peak data in bytes */
+  size: number;
+  /** Last read or write (ms since epoch) */
+  lastAccess: number;
+  /** Storage tier holding the entry */
+  tier: "memory" | "persistent";
+}
+
+interface CacheRecord {
+  key: string;
+  hash: string;
+  value: CachedPeaks;
+  size: number;
+  lastAccess: number;
+}
+
+const STORE_NAME = "peaks";
+// How long (ms) a failed load is still handed out (so Suspense sees its error) before a retry decodes again
+const FAILED_LOAD_TTL = 1000;
+
+let config: Required<PeakCacheOptions> = {
+  maxEntries: 100,
+  maxBytes: 64 * 1024 * 1024,
+  maxEntryBytes: 32 * 1024 * 1024,
+  persistent: false,
+  persistentMaxEntries: 1000,
+  persistentMaxBytes: 256 * 1024 * 1024,
+  databaseName: "react-audio-wavekit-peaks",
+};
+
+// Map iteration order doubles as LRU order (oldest first)
+const memory = new Map<string, CacheRecord>();
+let memoryBytes = 0;
+
+/** Content hash of a load and its generation; invalidating the hash retires the load */
+interface LoadVersion {
+  hash: string;
+  generation: number;
+}
+
+/**
+ * One in-flight load shared by every caller with the same Blob and key
+ * The load is aborted only when every caller that passed a signal has aborted and no caller waits without one
+ */
+interface PendingLoad {
+  promise: Promise<CachedPeaks>;
+  controller: AbortController;
+  progress: number;
+  listeners: Set<ProgressCallback>;
+  abortableSubscribers: number;
+  hasPermanentSubscriber: boolean;
+  /** Set once the blob is hashed */
+  version?: LoadVersion;
+}
+
+/** A finished load, handed out again for as long as its Blob is alive */
+interface SettledLoad {
+  promise: Promise<CachedPeaks>;
+  version: LoadVersion;
+}
+
+// Per-Blob loads keep promise identity stable across renders (required by Suspense); the content-addressed
+// tiers behind them share results between Blob instances with the same bytes
+let pendingByBlob = new WeakMap<Blob, Map<string, PendingLoad>>();
+let settledByBlob = new WeakMap<Blob, Map<string, SettledLoad>>();
+const hashByBlob = new WeakMap<Blob, Promise<string>>();
+// Bumped by invalidation: loads started before it must not write their result back
+let generation = 0;
+const generationByHash = new Map<string, number>();
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Update cache limits and enable/disable the IndexedDB tier (existing entries are trimmed to the new limits)
+ */
+export function configurePeakCache(options: PeakCacheOptions): void {
+  if (options.databaseName && options.databaseName !== config.databaseName) {
+    databasePromise = null;
+  }
+  config = { ...config, ...options };
+  trimMemory();
+}
+
+/**
+ * Estimate the in-memory size of peak data in bytes
+ */
+function estimateSize(value: CachedPeaks): number {
+  if (value instanceof Float32Array) return value.byteLength;
+  if (Array.isArray(value)) {
+    return (value as unknown[]).reduce<number>((total, item) => {
+      if (item instanceof Float32Array || Array.isArray(item)) return total + estimateSize(item as CachedPeaks);
+      // number (8 bytes) or { min, max } pair (~16 bytes)
+      return total + (typeof item === "number" ? 8 : 16);
+    }, 0);
+  }
+  // Metadata fields are negligible next to the peaks
+  if ("peaks" in value) return estimateSize(value.peaks);
+  if ("values" in value) return value.values.byteLength + value.frequencies.byteLength;
+  return value.levels.reduce((total, level) => total + estimateSize(level), 0);
+}
+
+// ============================================================================
+// Content Hashing
+// ============================================================================
+
+/**
+ * FNV-1a (32-bit) over the bytes, used when SubtleCrypto is unavailable (insecure contexts)
+ */
+function fnv1a(bytes: Uint8Array): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+async function digest(buffer: ArrayBuffer): Promise<string> {
+  try {
+    const hash = await crypto.subtle.digest("SHA-256", buffer);
+    return Array.from(new Uint8Array(hash), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  } catch {
+    return `fnv1a-${fnv1a(new Uint8Array(buffer))}`;
+  }
+}
+
+function hashBuffer(blob: Blob, buffer: Promise<ArrayBuffer>): Promise<string> {
+  const hash = buffer.then(async (bytes) => `${bytes.byteLength}-${await digest(bytes)}`);
+  hashByBlob.set(blob, hash);
+  // Failed reads are retried on the next call
+  hash.catch(() => hashByBlob.get(blob) === hash && hashByBlob.delete(blob));
+  return hash;
+}
+
+/**
+ * Hash of the blob's bytes (memoized per Blob instance), prefixed with the byte size
+ */
+export function getContentHash(blob: Blob): Promise<string> {
+  return hashByBlob.get(blob) ?? hashBuffer(blob, blob.arrayBuffer());
+}
+
+/**
+ * Hash the blob, returning the bytes when they had to be read so the loader can reuse them
+ */
+async function readContentHash(blob: Blob): Promise<{ hash: string; arrayBuffer?: ArrayBuffer }> {
+  const known = hashByBlob.get(blob);
+  if (known) return { hash: await known };
+
+  const arrayBuffer = blob.arrayBuffer();
+  const hash = await hashBuffer(blob, arrayBuffer);
+  return { hash, arrayBuffer: await arrayBuffer };
+}
+
+// ============================================================================
+// Memory Tier (LRU)
+// ============================================================================
+
+function deleteFromMemory(key: string) {
+  const record = memory.get(key);
+  if (!record) return;
+  memory.delete(key);
+  memoryBytes -= record.size;
+}
+
+function trimMemory() {
+  for (const key of memory.keys()) {
+    if (memory.size <= config.maxEntries && memoryBytes <= config.maxBytes) break;
+    deleteFromMemory(key);
+  }
+}
+
+function readMemory(key: string): CacheRecord | undefined {
+  const record = memory.get(key);
+  if (!record) return undefined;
+  // Re-insert to mark as most recently used
+  memory.delete(key);
+  record.lastAccess = Date.now();
+  memory.set(key, record);
+  return record;
+}
+
+function writeMemory(record: CacheRecord) {
+  deleteFromMemory(record.key);
+  // Oversized entries (or ones larger than the whole budget) are never cached in memory
+  if (record.size > Math.min(config.maxBytes, config.maxEntryBytes)) return;
+  memory.set(record.key, record);
+  memoryBytes += record.size;
+  trimMemory();
+}
+
+// ============================================================================
+// Persistent Tier (IndexedDB)
+// ============================================================================
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!config.persistent || typeof indexedDB === "undefined") return Promise.resolve(null);
+
+  if (!databasePromise) {
+    const request = indexedDB.open(config.databaseName, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+    };
+    // Private browsing / blocked storage: continue with the memory tier only
+    databasePromise = requestToPromise(request).catch(() => null);
+  }
+  return databasePromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  const database = await openDatabase();
+  if (!database) return null;
+  try {
+    return await requestToPromise(run(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  } catch {
+    return null;
+  }
+}
+
+async function trimPersistent() {
+  const records = (await withStore("readonly", (store) => store.getAll() as IDBRequest<CacheRecord[]>)) ?? [];
+  let bytes = records.reduce((total, record) => total + record.size, 0);
+  let count = records.length;
+
+  // Evict least recently used first
+  records.sort((a, b) => a.lastAccess - b.lastAccess);
+  for (const record of records) {
+    if (count <= config.persistentMaxEntries && bytes <= config.persistentMaxBytes) break;
+    await withStore("readwrite", (store) => store.delete(record.key));
+    count--;
+    bytes -= record.size;
+  }
+}
+
+async function readPersistent(key: string): Promise<CacheRecord | null> {
+  const record = await withStore("readonly", (store) => store.get(key) as IDBRequest<CacheRecord | undefined>);
+  if (!record) return null;
+  record.lastAccess = Date.now();
+  void withStore("readwrite", (store) => store.put(record));
+  return record;
+}
+
+async function writePersistent(record: CacheRecord) {
+  if (record.size > Math.min(config.persistentMaxBytes, config.maxEntryBytes)) return;
+  await withStore("readwrite", (store) => store.put(record));
+  await trimPersistent();
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export interface CachedPeaksOptions {
+  /** Stop waiting (rejects with an AbortError); the shared load is cancelled once no caller needs it */
+  signal?: AbortSignal;
+  /** Load progress (0-1); cache hits report 1 */
+  onProgress?: ProgressCallback;
+}
+
+export interface PeakLoadOptions extends CachedPeaksOptions {
+  /** Bytes of the blob when they were just read for hashing (decode these instead of reading the blob again) */
+  arrayBuffer?: ArrayBuffer;
+}
+
+const getGeneration = (hash: string) => generation + (generationByHash.get(hash) ?? 0);
+const isStale = (version?: LoadVersion) => !!version && getGeneration(version.hash) !== version.generation;
+
+/**
+ * Look up memory, then IndexedDB, then `load()` (result stored in both tiers)
+ */
+async function loadThroughTiers<T extends CachedPeaks>(
+  blob: Blob,
+  key: string,
+  load: (options: PeakLoadOptions) => Promise<T>,
+  options: Required<CachedPeaksOptions>,
+  onHashed: (version: LoadVersion) => void
+): Promise<T> {
+  const { hash, arrayBuffer } = await readContentHash(blob);
+  const fullKey = `${hash}:${key}`;
+  const startGeneration = getGeneration(hash);
+  onHashed({ hash, generation: startGeneration });
+
+  const cached = readMemory(fullKey) ?? (await readPersistent(fullKey));
+  if (cached) {
+    writeMemory(cached);
+    options.onProgress(1);
+    return cached.value as T;
+  }
+
+  const value = await load({ ...options, arrayBuffer });
+  const record: CacheRecord = { key: fullKey, hash, value, size: estimateSize(value), lastAccess: Date.now() };
+  // Invalidated while loading: hand the result to the waiting callers without caching it
+  if (getGeneration(hash) !== startGeneration) return value;
+  writeMemory(record);
+  // Persisting is best effort and must not delay rendering
+  void writePersistent(record);
+  return value;
+}
+
+function startLoad<T extends CachedPeaks>(
+  blob: Blob,
+  key: string,
+  load: (options: PeakLoadOptions) => Promise<T>,
+  pending: Map<string, PendingLoad>,
+  settled: Map<string, SettledLoad>
+): PendingLoad {
+  const controller = new AbortController();
+  const entry: PendingLoad = {
+    promise: Promise.resolve([]),
+    controller,
+    progress: 0,
+    listeners: new Set(),
+    abortableSubscribers: 0,
+    hasPermanentSubscriber: false,
+  };
+  const onProgress = (progress: number) => {
+    entry.progress = progress;
+    for (const listener of entry.listeners) listener(progress);
+  };
+
+  const onHashed = (version: LoadVersion) => {
+    entry.version = version;
+  };
+  entry.promise = loadThroughTiers(blob, key, load, { signal: controller.signal, onProgress }, onHashed);
+  entry.promise.then(
+    () => {
+      entry.listeners.clear();
+      if (pending.get(key) !== entry) return;
+      pending.delete(key);
+      // Only the promise is kept, independent of the memory tier's limits
+      if (entry.version) settled.set(key, { promise: entry.promise, version: entry.version });
+    },
+    () => {
+      entry.listeners.clear();
+      // Failures leave after a short grace period, long enough for Suspense to re-render with the same promise
+      setTimeout(() => {
+        if (pending.get(key) === entry) pending.delete(key);
+      }, FAILED_LOAD_TTL);
+    }
+  );
+  return entry;
+}
+
+/**
+ * Load peaks through the cache: memory, then IndexedDB, then `load()` (result stored in both tiers)
+ * Without a signal, returns the same promise for the same Blob and key while the Blob is alive (until invalidated),
+ * so it is safe to unwrap during render
+ * @param key - Decode options identifying the result (e.g. "peaks:800:minmax:mono")
+ */
+export function getCachedPeaks<T extends CachedPeaks>(
+  blob: Blob,
+  key: string,
+  load: (options: PeakLoadOptions) => Promise<T>,
+  { signal, onProgress }: CachedPeaksOptions = {}
+): Promise<T> {
+  // SSR safe: nothing is decoded on the server, so there is nothing worth caching
+  if (typeof window === "undefined") return load({ signal, onProgress });
+  if (signal?.aborted) return Promise.reject(createAbortError());
+
+  const settled = settledByBlob.get(blob) ?? new Map<string, SettledLoad>();
+  settledByBlob.set(blob, settled);
+  const done = settled.get(key);
+  // Bytes invalidated through another Blob instance: start over instead of handing out the old result
+  if (done && isStale(done.version)) settled.delete(key);
+  else if (done) {
+    onProgress?.(1);
+    return done.promise as Promise<T>;
+  }
+
+  const pending = pendingByBlob.get(blob) ?? new Map<string, PendingLoad>();
+  pendingByBlob.set(blob, pending);
+
+  let entry = pending.get(key);
+  if (entry && isStale(entry.version)) entry = undefined;
+  if (!entry) {
+    entry = startLoad(blob, key, load, pending, settled);
+    pending.set(key, entry);
+  }
+
+  if (onProgress) {
+    entry.listeners.add(onProgress);
+    if (entry.progress > 0) onProgress(entry.progress);
+  }
+
+  if (!signal) {
+    entry.hasPermanentSubscriber = true;
+    return entry.promise as Promise<T>;
+  }
+
+  const shared = entry;
+  shared.abortableSubscribers++;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      if (onProgress) shared.listeners.delete(onProgress);
+      shared.abortableSubscribers--;
+      if (shared.abortableSubscribers === 0 && !shared.hasPermanentSubscriber) {
+        shared.controller.abort();
+        if (pending.get(key) === shared) pending.delete(key);
+      }
+      reject(createAbortError());
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    shared.promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value as T);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Remove cached peaks for one audio file (any Blob with the same bytes), or everything when no blob is given
+ */
+export async function invalidatePeakCache(blob?: Blob): Promise<void> {
+  if (!blob) {
+    generation++;
+    pendingByBlob = new WeakMap();
+    settledByBlob = new WeakMap();
+    memory.clear();
+    memoryBytes = 0;
+    await withStore("readwrite", (store) => store.clear());
+    return;
+  }
+
+  pendingByBlob.delete(blob);
+  settledByBlob.delete(blob);
+  const hash = await getContentHash(blob);
+  // Loads of other Blobs with the same bytes still in flight must not write the entries back
+  generationByHash.set(hash, (generationByHash.get(hash) ?? 0) + 1);
+
+  for (const record of Array.from(memory.values())) {
+    if (record.hash === hash) deleteFromMemory(record.key);
+  }
+
+  const keys = (await withStore("readonly", (store) => store.getAllKeys())) ?? [];
+  for (const key of keys) {
+    if (typeof key === "string" && key.startsWith(`${hash}:`)) {
+      await withStore("readwrite", (store) => store.delete(key));
+    }
+  }
+}
+
+/**
+ * List cached entries in both tiers (memory entries ordered from least to most recently used)
+ */
+export async function inspectPeakCache(): Promise<PeakCacheEntry[]> {
+  const toEntry = ({ key, hash, size, lastAccess }: CacheRecord, tier: PeakCacheEntry["tier"]): PeakCacheEntry => ({
+    key,
+    hash,
+    size,
+    lastAccess,
+    tier,
+  });
+
+  const persistent = (await withStore("readonly", (store) => store.getAll() as IDBRequest<CacheRecord[]>)) ?? [];
+  return [
+    ...Array.from(memory.values(), (record) => toEntry(record, "memory")),
+    ...persistent.map((record) => toEntry(record, "persistent")),
+  ];
+}
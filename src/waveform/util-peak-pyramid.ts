@@ -0,0 +1,104 @@
+import type { PeakPyramid, WaveformPeaksInput, WaveformPeaksSource } from "./types";
+import { extractPeaks, getPeakCount, getPeakRange, toChannelPeaks } from "./util-peaks";
+
+// ============================================================================
+// Peak Pyramid - Multi-resolution peaks for zoomable waveforms
+// ============================================================================
+
+const DEFAULT_SAMPLES_PER_PEAK = 256;
+const DEFAULT_MIN_PEAK_COUNT = 32;
+
+export interface PeakPyramidOptions {
+  /** Stop adding levels once a level has this many peaks or fewer. Default: 32 */
+  minPeakCount?: number;
+}
+
+/**
+ * Check whether a peaks source is a PeakPyramid
+ */
+export function isPeakPyramid(peaks: WaveformPeaksSource): peaks is PeakPyramid {
+  return !Array.isArray(peaks) && !(peaks instanceof Float32Array) && Array.isArray(peaks.levels);
+}
+
+/**
+ * Halve the resolution of interleaved min/max pairs (min of mins, max of maxes, so peaks never get lost)
+ */
+function halvePairs(pairs: Float32Array): Float32Array {
+  const count = Math.floor(pairs.length / 2);
+  const halvedCount = Math.ceil(count / 2);
+  const halved = new Float32Array(halvedCount * 2);
+
+  for (let i = 0; i < halvedCount; i++) {
+    const a = i * 4;
+    const hasSecond = i * 2 + 1 < count;
+    halved[i * 2] = hasSecond ? Math.min(pairs[a], pairs[a + 2]) : pairs[a];
+    halved[i * 2 + 1] = hasSecond ? Math.max(pairs[a + 1], pairs[a + 3]) : pairs[a + 1];
+  }
+
+  return halved;
+}
+
+/**
+ * Build pyramid levels on top of a finest level (one interleaved min/max Float32Array per channel)
+ */
+function buildLevels(base: Float32Array[], minPeakCount: number): Float32Array[][] {
+  const levels = [base];
+  let current = base;
+
+  while (current.length > 0 && getPeakCount(current[0]) > minPeakCount) {
+    current = current.map(halvePairs);
+    levels.push(current);
+  }
+
+  return levels;
+}
+
+/**
+ * Build a pyramid from already computed peaks in any supported shape (e.g. parsed audiowaveform data)
+ */
+export function createPeakPyramid(
+  peaks: WaveformPeaksInput,
+  { minPeakCount = DEFAULT_MIN_PEAK_COUNT, ...metadata }: PeakPyramidOptions & Omit<PeakPyramid, "levels"> = {}
+): PeakPyramid {
+  const base = toChannelPeaks(peaks).map((channel) => {
+    if (channel instanceof Float32Array) return channel;
+    const count = getPeakCount(channel);
+    const pairs = new Float32Array(count * 2);
+    for (let i = 0; i < count; i++) {
+      const { min, max } = getPeakRange(channel, i, i + 1);
+      pairs[i * 2] = min;
+      pairs[i * 2 + 1] = max;
+    }
+    return pairs;
+  });
+
+  return { levels: buildLevels(base, minPeakCount), ...metadata };
+}
+
+/**
+ * Build a pyramid from raw PCM channel data
+ * @param samplesPerPeak - Audio samples per peak at the finest level. Default: 256
+ */
+export function extractPeakPyramid(
+  channels: Float32Array[],
+  samplesPerPeak = DEFAULT_SAMPLES_PER_PEAK,
+  { minPeakCount = DEFAULT_MIN_PEAK_COUNT }: PeakPyramidOptions = {}
+): PeakPyramid {
+  const length = channels.length > 0 ? Math.min(...channels.map((channel) => channel.length)) : 0;
+  const peakCount = Math.ceil(length / Math.max(1, samplesPerPeak));
+  const base = extractPeaks(channels, peakCount, "minmax");
+  const actualSamplesPerPeak = base.length > 0 ? Math.floor(length / getPeakCount(base[0])) : samplesPerPeak;
+
+  return { levels: buildLevels(base, minPeakCount), samplesPerPeak: actualSamplesPerPeak };
+}
+
+/**
+ * Pick the coarsest level that still has at least `minPeakCount` peaks (falls back to the finest level)
+ */
+export function selectPyramidLevel(pyramid: PeakPyramid, minPeakCount: number): Float32Array[] {
+  for (let i = pyramid.levels.length - 1; i >= 0; i--) {
+    const level = pyramid.levels[i];
+    if (level.length > 0 && getPeakCount(level[0]) >= minPeakCount) return level;
+  }
+  return pyramid.levels[0] ?? [];
+}
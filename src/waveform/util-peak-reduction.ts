@@ -0,0 +1,121 @@
+import type { AudioMetadata, PeakFormat, PeakPyramid, WaveformPeaks } from "./types";
+import type { AudioCodec } from "./util-audio-sniff";
+import type { DecodedAudioChannels } from "./util-decoder-registry";
+import { extractPeakPyramid } from "./util-peak-pyramid";
+import { extractPeaks, getPeakTransferables, type PeakScaling } from "./util-peaks";
+
+// ============================================================================
+// Peak Reduction - How decoded channel data is summarized (shared by main thread and worker)
+// ============================================================================
+
+export type PeakReduction =
+  | { kind: "peaks"; sampleCount: number; peakFormat: PeakFormat; scaling?: PeakScaling }
+  | { kind: "pyramid"; samplesPerPeak: number };
+
+export type PeakReductionResult = WaveformPeaks[] | PeakPyramid;
+
+/**
+ * Shape of the decoded PCM, kept after channel data has been reduced (or transferred to a worker)
+ */
+export interface DecodedAudioInfo {
+  sampleRate: number;
+  numberOfChannels: number;
+  /** Sample frames per channel */
+  length: number;
+}
+
+export function getDecodedAudioInfo({ channelData, sampleRate }: DecodedAudioChannels): DecodedAudioInfo {
+  const length = channelData.length ? Math.min(...channelData.map((channel) => channel.length)) : 0;
+  return { sampleRate, numberOfChannels: channelData.length, length };
+}
+
+/**
+ * Time window of the audio to reduce, in seconds (whole file when omitted)
+ */
+export interface TimeRange {
+  /** Start of the window. Default: 0 */
+  startTime?: number;
+  /** End of the window. Default: end of the audio */
+  endTime?: number;
+}
+
+/**
+ * Frame bounds [start, end) of a time window, clamped to the audio
+ */
+function getRangeFrames(length: number, sampleRate: number, { startTime = 0, endTime }: TimeRange) {
+  if (!(sampleRate > 0)) return { start: 0, end: length };
+  const start = Math.min(length, Math.max(0, Math.round(startTime * sampleRate)));
+  const end = endTime === undefined ? length : Math.min(length, Math.max(start, Math.round(endTime * sampleRate)));
+  return { start, end };
+}
+
+/**
+ * Restrict channel data to a time window (views over the same buffers, nothing is copied)
+ */
+export function sliceChannelData(channels: Float32Array[], sampleRate: number, range: TimeRange): Float32Array[] {
+  const length = channels.length ? Math.min(...channels.map((channel) => channel.length)) : 0;
+  const { start, end } = getRangeFrames(length, sampleRate, range);
+  if (start === 0 && end === length) return channels;
+  return channels.map((channel) => channel.subarray(start, end));
+}
+
+/**
+ * Reduce raw channel data into peaks or a peak pyramid
+ */
+export function reduceChannelData(channels: Float32Array[], reduction: PeakReduction): PeakReductionResult {
+  return reduction.kind === "pyramid"
+    ? extractPeakPyramid(channels, reduction.samplesPerPeak)
+    : extractPeaks(channels, reduction.sampleCount, reduction.peakFormat, reduction.scaling);
+}
+
+/**
+ * Buffers to transfer when posting a reduction result across threads
+ */
+export function getReductionTransferables(result: PeakReductionResult): ArrayBuffer[] {
+  return Array.isArray(result) ? getPeakTransferables(result) : getPeakTransferables(result.levels.flat());
+}
+
+/**
+ * Metadata of the audio behind a reduction (the bucket size mirrors extractPeaks)
+ */
+export function getReductionMetadata(
+  { sampleRate, numberOfChannels, length }: DecodedAudioInfo,
+  codec: AudioCodec | null,
+  reduction: PeakReduction,
+  range: TimeRange = {}
+): AudioMetadata {
+  const hasAudio = sampleRate > 0 && length > 0;
+  const { start, end } = getRangeFrames(length, sampleRate, range);
+  const frames = end - start;
+  const samplesPerPeak =
+    reduction.kind === "pyramid"
+      ? reduction.samplesPerPeak
+      : Math.max(1, Math.floor(frames / Math.max(1, Math.min(reduction.sampleCount, frames))));
+
+  return {
+    duration: hasAudio ? length / sampleRate : 0,
+    sampleRate: sampleRate || 0,
+    numberOfChannels,
+    codec,
+    peaksPerSecond: hasAudio && frames > 0 ? sampleRate / samplesPerPeak : 0,
+    startTime: hasAudio ? start / sampleRate : 0,
+    endTime: hasAudio ? end / sampleRate : 0,
+  };
+}
+
+export const EMPTY_AUDIO_METADATA: AudioMetadata = {
+  duration: 0,
+  sampleRate: 0,
+  numberOfChannels: 0,
+  codec: null,
+  peaksPerSecond: 0,
+  startTime: 0,
+  endTime: 0,
+};
+
+/**
+ * Attach the decoded sample rate to a pyramid so time can be derived from peak indices
+ */
+export function withPyramidSampleRate(result: PeakReductionResult, sampleRate: number): PeakReductionResult {
+  return Array.isArray(result) || !sampleRate ? result : { ...result, sampleRate };
+}
@@ -0,0 +1,375 @@
+import type { PeakFormat, PeakPair, WaveformPeaks, WaveformPeaksInput } from "./types";
+
+// ============================================================================
+// Peak Extraction - Reduce raw channel data into normalized peaks
+// ============================================================================
+
+/**
+ * How peaks are scaled to the 0-1 drawing range
+ * - `peak`: loudest bucket fills the height (quiet and loud recordings look alike)
+ * - `none`: absolute amplitude (full scale = full height), so different files are comparable
+ * - `{ reference }`: this linear amplitude (0-1] fills the height, e.g. a loudness target shared by a list
+ */
+export type PeakNormalization = "peak" | "none" | { reference: number };
+
+/**
+ * Amplitude scale of each bucket
+ * - `linear`: mean-absolute (average) or min/max samples
+ * - `rms`: root mean square per bucket (closer to perceived loudness; min/max becomes symmetric ±rms)
+ * - `db`: linear values mapped logarithmically between `dbFloor` and 0 dB (quiet details stay visible)
+ */
+export type AmplitudeScale = "linear" | "rms" | "db";
+
+export interface PeakScaling {
+  /** Default: "peak" */
+  normalize?: PeakNormalization;
+  /** Default: "linear" */
+  scale?: AmplitudeScale;
+  /** Level (dB) drawn as silence with `scale: "db"`. Default: -60 */
+  dbFloor?: number;
+}
+
+const DEFAULT_DB_FLOOR = -60;
+
+/**
+ * Stable string for cache keys (only options that change the result)
+ */
+export function getPeakScalingKey({ normalize = "peak", scale = "linear", dbFloor = DEFAULT_DB_FLOOR }: PeakScaling) {
+  const normalizeKey = typeof normalize === "object" ? `ref${normalize.reference}` : normalize;
+  return scale === "db" ? `${normalizeKey}:db${dbFloor}` : `${normalizeKey}:${scale}`;
+}
+
+/**
+ * Build the value mapping for one extraction: normalization, clamping to -1..1, then optional dB mapping
+ * @param maxAbs - Largest absolute value across all channels (used by peak normalization)
+ */
+function createScaler(
+  { normalize = "peak", scale = "linear", dbFloor = DEFAULT_DB_FLOOR }: PeakScaling,
+  maxAbs: number
+) {
+  let factor = 1;
+  if (normalize === "peak" && maxAbs > 0) factor = 1 / maxAbs;
+  else if (typeof normalize === "object" && normalize.reference > 0) factor = 1 / normalize.reference;
+
+  const floor = Math.min(dbFloor, -1);
+  return (value: number) => {
+    const normalized = Math.max(-1, Math.min(1, value * factor));
+    if (scale !== "db" || normalized === 0) return normalized;
+    const db = 20 * Math.log10(Math.abs(normalized));
+    return Math.sign(normalized) * Math.max(0, (db - floor) / -floor);
+  };
+}
+
+const getMaxAbs = (channelValues: ArrayLike<number>[]) => {
+  let maxAbs = 0;
+  for (const values of channelValues) {
+    for (let i = 0; i < values.length; i++) {
+      if (Math.abs(values[i]) > maxAbs) maxAbs = Math.abs(values[i]);
+    }
+  }
+  return maxAbs;
+};
+
+/**
+ * Reduce channel data into mean-absolute (or RMS) peaks (not normalized)
+ */
+function reduceAverage(channelData: Float32Array, sampleCount: number, rms: boolean): number[] {
+  const blockSize = Math.max(1, Math.floor(channelData.length / sampleCount));
+  const peaks: number[] = [];
+
+  for (let i = 0; i < sampleCount; i++) {
+    const start = i * blockSize;
+    let sum = 0;
+    for (let j = 0; j < blockSize; j++) {
+      const sample = channelData[start + j] || 0;
+      sum += rms ? sample * sample : Math.abs(sample);
+    }
+    peaks.push(rms ? Math.sqrt(sum / blockSize) : sum / blockSize);
+  }
+
+  return peaks;
+}
+
+/**
+ * Reduce channel data into interleaved signed min/max pairs (not normalized)
+ * With `rms`, each pair is the symmetric ±RMS of the bucket
+ */
+function reduceMinMax(channelData: Float32Array, sampleCount: number, rms: boolean): Float32Array {
+  const blockSize = Math.max(1, Math.floor(channelData.length / sampleCount));
+  const pairs = new Float32Array(sampleCount * 2);
+
+  for (let i = 0; i < sampleCount; i++) {
+    const start = i * blockSize;
+    let min = channelData[start] || 0;
+    let max = min;
+    let sumSquares = 0;
+    for (let j = 0; j < blockSize; j++) {
+      const sample = channelData[start + j] || 0;
+      if (sample < min) min = sample;
+      if (sample > max) max = sample;
+      sumSquares += sample * sample;
+    }
+    if (rms) {
+      const value = Math.sqrt(sumSquares / blockSize);
+      min = -value;
+      max = value;
+    }
+    pairs[i * 2] = min;
+    pairs[i * 2 + 1] = max;
+  }
+
+  return pairs;
+}
+
+/**
+ * Extract peaks from one or more channels
+ * All channels share one scaling so level differences between channels stay visible
+ */
+export function extractPeaks(
+  channels: Float32Array[],
+  sampleCount: number,
+  format?: "average",
+  scaling?: PeakScaling
+): number[][];
+export function extractPeaks(
+  channels: Float32Array[],
+  sampleCount: number,
+  format: "minmax",
+  scaling?: PeakScaling
+): Float32Array[];
+export function extractPeaks(
+  channels: Float32Array[],
+  sampleCount: number,
+  format?: PeakFormat,
+  scaling?: PeakScaling
+): WaveformPeaks[];
+export function extractPeaks(
+  channels: Float32Array[],
+  sampleCount: number,
+  format: PeakFormat = "average",
+  scaling: PeakScaling = {}
+): WaveformPeaks[] {
+  if (channels.length === 0 || sampleCount <= 0) {
+    return [];
+  }
+
+  const length = Math.min(...channels.map((channel) => channel.length));
+  if (length === 0) return [];
+
+  const normalizedSampleCount = Math.min(sampleCount, length);
+  const rms = scaling.scale === "rms";
+
+  if (format === "minmax") {
+    const channelPairs = channels.map((channel) => reduceMinMax(channel, normalizedSampleCount, rms));
+    const scaler = createScaler(scaling, getMaxAbs(channelPairs));
+    for (const pairs of channelPairs) {
+      for (let i = 0; i < pairs.length; i++) pairs[i] = scaler(pairs[i]);
+    }
+    return channelPairs;
+  }
+
+  const channelPeaks = channels.map((channel) => reduceAverage(channel, normalizedSampleCount, rms));
+  const scaler = createScaler(scaling, getMaxAbs(channelPeaks));
+  return channelPeaks.map((peaks) => peaks.map(scaler));
+}
+
+/**
+ * Empty peaks in the requested format
+ */
+export function createEmptyPeaks(format: PeakFormat = "average"): WaveformPeaks {
+  return format === "minmax" ? new Float32Array(0) : [];
+}
+
+export interface StreamingPeakExtractor {
+  /** Append decoded samples (one Float32Array per channel, equal lengths) */
+  push(channels: Float32Array[]): void;
+  /**
+   * Normalized peaks for everything pushed so far (the trailing partial bucket included)
+   * @param count - Merge or repeat buckets to exactly this many peaks (when the bucket size was estimated)
+   */
+  getPeaks(count?: number): WaveformPeaks[];
+}
+
+/**
+ * Incremental peak extraction for progressively decoded audio
+ * Bucket size is fixed up front so earlier peaks never shift as more audio arrives
+ * A fractional `samplesPerPeak` alternates bucket lengths, so a known total length gives an exact peak count
+ */
+export function createStreamingPeakExtractor(
+  samplesPerPeak: number,
+  format: PeakFormat = "average",
+  scaling: PeakScaling = {}
+): StreamingPeakExtractor {
+  const bucketSize = Math.max(1, samplesPerPeak);
+  const rms = scaling.scale === "rms";
+  const valuesPerBucket = format === "minmax" ? 2 : 1;
+  // Per channel: completed buckets as [level] (average) or [min, max] (minmax) plus the running bucket
+  const completed: number[][] = [];
+  const running: { sum: number; sumSquares: number; min: number; max: number }[] = [];
+  let filled = 0;
+  let bucketCount = 0;
+  let pushed = 0;
+  // Sample count at which the running bucket closes
+  let bucketEnd = Math.round(bucketSize);
+
+  const push = (channels: Float32Array[]) => {
+    if (channels.length === 0) return;
+    while (completed.length < channels.length) {
+      completed.push([]);
+      running.push({ sum: 0, sumSquares: 0, min: 0, max: 0 });
+    }
+
+    const length = Math.min(...channels.map((channel) => channel.length));
+    for (let i = 0; i < length; i++) {
+      for (let c = 0; c < channels.length; c++) {
+        const sample = channels[c][i];
+        const bucket = running[c];
+        if (filled === 0) {
+          bucket.sum = 0;
+          bucket.sumSquares = 0;
+          bucket.min = sample;
+          bucket.max = sample;
+        }
+        bucket.sum += Math.abs(sample);
+        bucket.sumSquares += sample * sample;
+        if (sample < bucket.min) bucket.min = sample;
+        if (sample > bucket.max) bucket.max = sample;
+      }
+
+      filled++;
+      pushed++;
+      if (pushed >= bucketEnd) {
+        running.forEach((bucket, c) => {
+          completed[c].push(...closeBucket(bucket, filled));
+        });
+        filled = 0;
+        bucketCount++;
+        bucketEnd = Math.round((bucketCount + 1) * bucketSize);
+      }
+    }
+  };
+
+  // Bucket summary: [level] (average) or [min, max] (minmax)
+  const closeBucket = (bucket: (typeof running)[number], count: number): number[] => {
+    const level = rms ? Math.sqrt(bucket.sumSquares / count) : bucket.sum / count;
+    if (format !== "minmax") return [level];
+    return rms ? [-level, level] : [bucket.min, bucket.max];
+  };
+
+  // Resample bucket summaries to `count` buckets: levels are averaged, min/max merged
+  const rebucket = (values: number[], count: number): number[] => {
+    const total = values.length / valuesPerBucket;
+    if (total === 0 || total === count) return values;
+
+    const result: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const from = Math.min(total - 1, Math.floor((i * total) / count));
+      const to = Math.max(from + 1, Math.floor(((i + 1) * total) / count));
+      if (format === "minmax") {
+        let min = values[from * 2];
+        let max = values[from * 2 + 1];
+        for (let j = from + 1; j < to; j++) {
+          min = Math.min(min, values[j * 2]);
+          max = Math.max(max, values[j * 2 + 1]);
+        }
+        result.push(min, max);
+      } else {
+        let sum = 0;
+        for (let j = from; j < to; j++) sum += rms ? values[j] * values[j] : values[j];
+        result.push(rms ? Math.sqrt(sum / (to - from)) : sum / (to - from));
+      }
+    }
+    return result;
+  };
+
+  const getPeaks = (count?: number): WaveformPeaks[] => {
+    const channelValues = completed.map((values, c) => {
+      const all = filled === 0 ? values.slice() : [...values, ...closeBucket(running[c], filled)];
+      return count === undefined ? all : rebucket(all, count);
+    });
+    const scaler = createScaler(scaling, getMaxAbs(channelValues));
+
+    return channelValues.map((values) =>
+      format === "minmax" ? Float32Array.from(values, scaler) : values.map(scaler)
+    );
+  };
+
+  return { push, getPeaks };
+}
+
+/**
+ * Collect the ArrayBuffers behind Float32Array peaks / channel data so they can be transferred to or from a worker
+ */
+export function getPeakTransferables(arrays: (WaveformPeaks | Float32Array)[]): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+  for (const array of arrays) {
+    if (array instanceof Float32Array && array.buffer instanceof ArrayBuffer) {
+      buffers.add(array.buffer);
+    }
+  }
+  return Array.from(buffers);
+}
+
+// ============================================================================
+// Renderer Input - Shape normalization for single/multichannel peaks
+// ============================================================================
+
+/**
+ * Check whether peaks contain multiple channels (WaveformPeaks[])
+ */
+export function isMultiChannelPeaks(peaks: WaveformPeaksInput): peaks is WaveformPeaks[] {
+  if (!Array.isArray(peaks) || peaks.length === 0) return false;
+  const first = peaks[0];
+  return Array.isArray(first) || first instanceof Float32Array;
+}
+
+/**
+ * Normalize single or multichannel peaks into a list of channels
+ */
+export function toChannelPeaks(peaks: WaveformPeaksInput): WaveformPeaks[] {
+  if (peaks.length === 0) return [];
+  return isMultiChannelPeaks(peaks) ? peaks : [peaks as WaveformPeaks];
+}
+
+/**
+ * Number of buckets in a peak array (interleaved Float32Array holds two values per bucket)
+ */
+export function getPeakCount(peaks: WaveformPeaks): number {
+  return peaks instanceof Float32Array ? Math.floor(peaks.length / 2) : peaks.length;
+}
+
+/**
+ * Signed range covered by buckets [start, end)
+ * Mean-absolute peaks are sampled at `start` and mirrored around zero (symmetric bar),
+ * min/max peaks are merged over the whole span so transients are never skipped
+ */
+export function getPeakRange(peaks: WaveformPeaks, start: number, end: number): PeakPair {
+  const count = getPeakCount(peaks);
+  if (count === 0) return { min: 0, max: 0 };
+
+  const from = Math.min(Math.max(0, start), count - 1);
+  const to = Math.min(Math.max(from + 1, end), count);
+
+  if (peaks instanceof Float32Array) {
+    let min = peaks[from * 2];
+    let max = peaks[from * 2 + 1];
+    for (let i = from + 1; i < to; i++) {
+      if (peaks[i * 2] < min) min = peaks[i * 2];
+      if (peaks[i * 2 + 1] > max) max = peaks[i * 2 + 1];
+    }
+    return { min, max };
+  }
+
+  const first = peaks[from];
+  if (typeof first === "number") {
+    return { min: -first, max: first };
+  }
+
+  const pairs = peaks as PeakPair[];
+  let { min, max } = pairs[from];
+  for (let i = from + 1; i < to; i++) {
+    if (pairs[i].min < min) min = pairs[i].min;
+    if (pairs[i].max > max) max = pairs[i].max;
+  }
+  return { min, max };
+}
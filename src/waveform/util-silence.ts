@@ -0,0 +1,117 @@
+import type { TimeSpan } from "./types";
+import { throwIfAborted } from "./util-abort";
+import { decodeAudioChannels } from "./util-audio-decoder";
+import type { AudioDecodeOptions } from "./util-decoder-registry";
+import { encodeWAV } from "./util-wav-encoder";
+
+// ============================================================================
+// Silence Detection - Find quiet stretches in decoded audio and trim dead air
+// ============================================================================
+
+export interface SilenceOptions {
+  /** Level in dBFS below which audio counts as silence. Default: -50 */
+  thresholdDb?: number;
+  /** Shortest silence to report, in seconds. Default: 0.5 */
+  minDuration?: number;
+  /** Analysis window in seconds; each window is silent when its loudest sample is below the threshold. Default: 0.01 */
+  windowSize?: number;
+}
+
+/**
+ * Silent stretch of audio
+ * - `leading`: starts at the beginning (also used when the whole file is silent)
+ * - `trailing`: ends at the end
+ * - `internal`: everything in between
+ */
+export interface SilenceRange extends TimeSpan {
+  kind: "leading" | "trailing" | "internal";
+}
+
+/**
+ * Detect silence in decoded channel data
+ * A window is silent only when every channel is below the threshold
+ */
+export function detectSilence(
+  channels: Float32Array[],
+  sampleRate: number,
+  { thresholdDb = -50, minDuration = 0.5, windowSize = 0.01 }: SilenceOptions = {}
+): SilenceRange[] {
+  const length = channels.length ? Math.min(...channels.map((channel) => channel.length)) : 0;
+  if (length === 0 || sampleRate <= 0) return [];
+
+  const threshold = 10 ** (thresholdDb / 20);
+  const windowFrames = Math.max(1, Math.round(windowSize * sampleRate));
+  const minFrames = Math.max(0, minDuration * sampleRate);
+  const ranges: SilenceRange[] = [];
+  let silenceStart = -1;
+
+  const closeRange = (end: number) => {
+    if (silenceStart >= 0 && end - silenceStart >= minFrames) {
+      const kind = silenceStart === 0 ? "leading" : end === length ? "trailing" : "internal";
+      ranges.push({ startTime: silenceStart / sampleRate, endTime: end / sampleRate, kind });
+    }
+    silenceStart = -1;
+  };
+
+  for (let start = 0; start < length; start += windowFrames) {
+    const end = Math.min(start + windowFrames, length);
+    let silent = true;
+    for (const channel of channels) {
+      for (let i = start; i < end; i++) {
+        if (Math.abs(channel[i]) >= threshold) {
+          silent = false;
+          break;
+        }
+      }
+      if (!silent) break;
+    }
+
+    if (silent && silenceStart < 0) silenceStart = start;
+    if (!silent) closeRange(start);
+  }
+  closeRange(length);
+
+  return ranges;
+}
+
+/**
+ * Decode a blob and detect its silence
+ */
+export async function detectAudioSilence(
+  blob: Blob,
+  options: SilenceOptions & AudioDecodeOptions = {}
+): Promise<SilenceRange[]> {
+  const { channelData, sampleRate } = await decodeAudioChannels(blob, true, options);
+  throwIfAborted(options.signal);
+  return detectSilence(channelData, sampleRate, options);
+}
+
+export interface TrimSilenceOptions extends SilenceOptions, AudioDecodeOptions {
+  /** Silence kept before the first and after the last sound, in seconds. Default: 0.1 */
+  padding?: number;
+}
+
+/**
+ * Remove leading and trailing silence (e.g. the dead air at the start of a voice message)
+ * Returns a 16-bit PCM WAV blob; a fully silent input yields an empty (header-only) WAV
+ */
+export async function trimSilence(blob: Blob, { padding = 0.1, ...options }: TrimSilenceOptions = {}): Promise<Blob> {
+  const { channelData, sampleRate } = await decodeAudioChannels(blob, true, options);
+  throwIfAborted(options.signal);
+
+  const length = channelData.length ? Math.min(...channelData.map((channel) => channel.length)) : 0;
+  const ranges = detectSilence(channelData, sampleRate, options);
+  const leading = ranges.find((range) => range.kind === "leading");
+  const trailing = ranges.find((range) => range.kind === "trailing");
+
+  let start = leading ? Math.round(Math.max(0, leading.endTime - padding) * sampleRate) : 0;
+  let end = trailing ? Math.round(Math.min(length / sampleRate, trailing.startTime + padding) * sampleRate) : length;
+  // Whole file silent: nothing to keep
+  if (leading && leading.endTime * sampleRate >= length) {
+    start = 0;
+    end = 0;
+  }
+
+  const trimmed = channelData.map((channel) => channel.subarray(start, Math.max(start, end)));
+  return new Blob([encodeWAV(trimmed, sampleRate)], { type: "audio/wav" });
+}
@@ -0,0 +1,258 @@
+import type { WaveformPeaks } from "./types";
+import { throwIfAborted } from "./util-abort";
+import { type DecodeAudioOptions, decodeAudioBlob, decodeAudioBlobChannels } from "./util-audio-decoder";
+import { getCodecFromMimeType, getID3Size, readMP3SampleCount, sniffAudioCodec } from "./util-audio-sniff";
+import { createStreamingPeakExtractor, type StreamingPeakExtractor } from "./util-peaks";
+import { createMP3StreamDecoder } from "./util-wasm-decoder";
+
+// ============================================================================
+// Progressive Audio Loading
+// Fetches audio from a URL (streamed body, or HTTP Range requests) and emits partial peaks as data arrives
+// MP3 is decoded incrementally; other formats are decoded once fully downloaded
+// ============================================================================
+
+const DEFAULT_RANGE_CHUNK_SIZE = 1024 * 1024;
+// Bytes of the first MPEG frame kept to read its Xing/Info or VBRI header
+const MP3_FRAME_HEAD_SIZE = 64;
+
+export interface StreamAudioOptions extends Omit<DecodeAudioOptions, "startTime" | "endTime"> {
+  /** Number of peaks for the whole file */
+  sampleCount: number;
+  /** Extract peaks for every channel instead of only the first. Default: false */
+  splitChannels?: boolean;
+  /** Called whenever new peaks are available */
+  onPeaks?: (update: StreamedPeaks) => void;
+  /** Bytes per HTTP Range request, used when the response body cannot be streamed. Default: 1 MiB */
+  rangeChunkSize?: number;
+}
+
+export interface StreamedPeaks {
+  /** Peaks decoded so far, one entry per channel */
+  peaks: WaveformPeaks[];
+  /** Fraction of the file covered by `peaks` (0-1), or null when the total size is unknown */
+  progress: number | null;
+}
+
+interface AudioByteStream {
+  contentType: string;
+  totalBytes: number | null;
+  chunks: AsyncIterable<Uint8Array>;
+}
+
+async function* readBody(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<Uint8Array> {
+  const reader = body.getReader();
+  try {
+    while (true) {
+      throwIfAborted(signal);
+      const { done, value } = await reader.read();
+      if (done) return;
+      if (value && value.byteLength > 0) yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parse the total size from a `Content-Range: bytes 0-1023/4096` header
+ */
+function parseContentRangeTotal(header: string | null): number | null {
+  const match = header?.match(/\/(\d+)\s*$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Request the rest of the file range by range
+ * Without a known total size, reading stops at the first short or empty range (or 416 past the end)
+ */
+async function* readRanges(
+  src: string,
+  firstChunk: Uint8Array,
+  totalBytes: number | null,
+  chunkSize: number,
+  signal?: AbortSignal
+): AsyncGenerator<Uint8Array> {
+  yield firstChunk;
+
+  let offset = firstChunk.byteLength;
+  let lastChunkSize = firstChunk.byteLength;
+  while (totalBytes === null ? lastChunkSize >= chunkSize : offset < totalBytes) {
+    throwIfAborted(signal);
+    const end = Math.min(offset + chunkSize, totalBytes ?? Number.POSITIVE_INFINITY) - 1;
+    const response = await fetch(src, { signal, headers: { Range: `bytes=${offset}-${end}` } });
+    if (response.status === 416 && totalBytes === null) return;
+    if (response.status !== 206) {
+      throw new Error(`Range request failed for ${src} (status: ${response.status})`);
+    }
+    const chunk = new Uint8Array(await response.arrayBuffer());
+    if (chunk.byteLength === 0) return;
+    offset += chunk.byteLength;
+    lastChunkSize = chunk.byteLength;
+    yield chunk;
+  }
+}
+
+async function* readWhole(response: Response): AsyncGenerator<Uint8Array> {
+  yield new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Open a byte stream for a URL
+ * Prefers a streamed response body; without ReadableStream support, falls back to sequential Range requests
+ */
+async function openAudioStream(src: string, signal?: AbortSignal, rangeChunkSize = DEFAULT_RANGE_CHUNK_SIZE) {
+  const response = await fetch(src, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch audio from ${src} (status: ${response.status})`);
+  }
+
+  const contentType = response.headers.get("content-type") ?? "";
+  const contentLength = Number(response.headers.get("content-length"));
+  const totalBytes = Number.isFinite(contentLength) && contentLength > 0 ? contentLength : null;
+
+  if (response.body) {
+    return { contentType, totalBytes, chunks: readBody(response.body, signal) } satisfies AudioByteStream;
+  }
+
+  // No streaming body: try byte ranges so partial peaks can still render
+  const rangeResponse = await fetch(src, { signal, headers: { Range: `bytes=0-${rangeChunkSize - 1}` } });
+  if (rangeResponse.status === 206) {
+    // The total may be unknown (`bytes 0-1023/*`): then ranges are requested until one comes back short
+    const total = parseContentRangeTotal(rangeResponse.headers.get("content-range"));
+    const firstChunk = new Uint8Array(await rangeResponse.arrayBuffer());
+    return {
+      contentType,
+      totalBytes: total ?? totalBytes,
+      chunks: readRanges(src, firstChunk, total, rangeChunkSize, signal),
+    } satisfies AudioByteStream;
+  }
+
+  return { contentType, totalBytes, chunks: readWhole(rangeResponse) } satisfies AudioByteStream;
+}
+
+/**
+ * Load audio from a URL and report partial peaks while it downloads
+ * Resolves with the final peaks (one entry per channel)
+ */
+export async function streamAudioPeaks(src: string, options: StreamAudioOptions): Promise<WaveformPeaks[]> {
+  const {
+    sampleCount,
+    splitChannels = false,
+    peakFormat = "average",
+    signal,
+    onProgress,
+    onPeaks,
+    rangeChunkSize,
+    ...decodeOptions
+  } = options;
+
+  // SSR safe: return empty array in non-browser environment
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  const { contentType, totalBytes, chunks } = await openAudioStream(src, signal, rangeChunkSize);
+  const iterator = chunks[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  if (first.done) {
+    throw new Error(`Audio at ${src} is empty`);
+  }
+
+  let loadedBytes = first.value.byteLength;
+  const getProgress = () => (totalBytes ? Math.min(1, loadedBytes / totalBytes) : null);
+
+  // Incremental MP3 decoding needs the total length to fix the bucket size up front
+  const codec = sniffAudioCodec(first.value) ?? getCodecFromMimeType(contentType);
+  if (totalBytes && codec === "mp3") {
+    const decoder = await createMP3StreamDecoder();
+    let extractor: StreamingPeakExtractor | null = null;
+    let totalSamples = 0;
+    let decodedSamples = 0;
+    let decodedBytes = 0;
+
+    // The ID3 tag (cover art can be megabytes) may span several chunks; keep the frame right after it
+    const tagBytes = getID3Size(first.value);
+    let frameHead = new Uint8Array(0);
+    const collectFrameHead = (chunk: Uint8Array, chunkOffset: number) => {
+      const start = Math.max(0, tagBytes - chunkOffset);
+      if (frameHead.length >= MP3_FRAME_HEAD_SIZE || start >= chunk.byteLength) return;
+      const part = chunk.subarray(start, start + MP3_FRAME_HEAD_SIZE - frameHead.length);
+      const merged = new Uint8Array(frameHead.length + part.length);
+      merged.set(frameHead);
+      merged.set(part, frameHead.length);
+      frameHead = merged;
+    };
+
+    try {
+      let chunk: Uint8Array | undefined = first.value;
+      while (chunk) {
+        throwIfAborted(signal);
+        collectFrameHead(chunk, decodedBytes);
+        const result = decoder.decode(chunk);
+        decodedBytes += chunk.byteLength;
+
+        if (result.samplesDecoded > 0) {
+          decodedSamples += result.samplesDecoded;
+          if (!extractor) {
+            // Exact length from the Xing/VBRI frame count (VBR files); otherwise estimate it from the bitrate
+            // observed so far, leaving out the tag
+            const audioBytes = Math.max(1, decodedBytes - tagBytes);
+            totalSamples =
+              readMP3SampleCount(frameHead) ?? (decodedSamples / audioBytes) * Math.max(1, totalBytes - tagBytes);
+            extractor = createStreamingPeakExtractor(totalSamples / sampleCount, peakFormat, decodeOptions);
+          }
+          extractor.push(splitChannels ? result.channelData : result.channelData.slice(0, 1));
+          // Share of the timeline the peaks cover, so the loaded part lines up with the audio
+          const progress = Math.min(1, decodedSamples / totalSamples);
+          onPeaks?.({ peaks: extractor.getPeaks(), progress });
+          onProgress?.(progress);
+        }
+
+        const next = await iterator.next();
+        chunk = next.done ? undefined : next.value;
+      }
+    } finally {
+      decoder.free();
+    }
+
+    if (!extractor) {
+      throw new Error(`Unable to decode streamed MP3 audio from ${src}`);
+    }
+
+    // Estimated lengths can be off by a few percent: settle on exactly sampleCount peaks
+    const peaks = extractor.getPeaks(sampleCount);
+    onPeaks?.({ peaks, progress: 1 });
+    onProgress?.(1);
+    return peaks;
+  }
+
+  // Other formats: show download progress, then decode the complete file
+  // onProgress covers both phases: download (0-0.5), then decode (0.5-1); there are no peaks to emit until then
+  const reportDownload = () => {
+    const progress = getProgress();
+    if (progress !== null) onProgress?.(progress / 2);
+  };
+  const parts: Uint8Array[] = [first.value];
+  reportDownload();
+  for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+    parts.push(next.value);
+    loadedBytes += next.value.byteLength;
+    reportDownload();
+  }
+  throwIfAborted(signal);
+
+  const blob = new Blob(parts as BlobPart[], { type: contentType });
+  const blobOptions = {
+    ...decodeOptions,
+    peakFormat,
+    signal,
+    onProgress: onProgress && ((progress: number) => onProgress(0.5 + progress / 2)),
+  };
+  const peaks = splitChannels
+    ? await decodeAudioBlobChannels(blob, sampleCount, blobOptions)
+    : [await decodeAudioBlob(blob, sampleCount, blobOptions)];
+  throwIfAborted(signal);
+
+  onPeaks?.({ peaks, progress: 1 });
+  return peaks;
+}
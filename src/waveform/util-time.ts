@@ -0,0 +1,19 @@
+// ============================================================================
+// Time Formatting - Clock-style labels for hover tooltips and time axes
+// ============================================================================
+
+/**
+ * Format seconds as "m:ss" ("h:mm:ss" from one hour), with `decimals` fractional digits
+ * e.g. formatTime(65.25, 1) → "1:05.3"
+ */
+export function formatTime(seconds: number, decimals = 0): string {
+  const sign = seconds < 0 ? "-" : "";
+  const factor = 10 ** decimals;
+  // Round once up front so 59.96 with one decimal becomes "1:00.0", not "0:60.0"
+  const total = Math.round(Math.abs(seconds) * factor) / factor;
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = (total % 60).toFixed(decimals).padStart(decimals > 0 ? decimals + 3 : 2, "0");
+
+  return hours > 0 ? `${sign}${hours}:${String(minutes).padStart(2, "0")}:${secs}` : `${sign}${minutes}:${secs}`;
+}
@@ -0,0 +1,166 @@
+// ============================================================================
+// WASM Decoders - Fallback codecs for browsers without native support
+// Safe to import from Web Workers (no DOM / Web Audio dependency)
+// ============================================================================
+
+import { type ProgressCallback, throwIfAborted } from "./util-abort";
+import { type AudioCodec, getCodecFromMimeType, sniffAudioCodec } from "./util-audio-sniff";
+import { decodeWAV } from "./util-wav-decoder";
+
+// Dynamic import for SSR safety - WASM loaded only when needed in browser
+type MPEGDecoderType = import("mpg123-decoder").MPEGDecoder;
+
+interface DecodedPCM {
+  channelData: Float32Array[];
+  sampleRate: number;
+}
+
+export interface WASMDecodeOptions {
+  /** Checked between chunks (MP3) or before decoding (other codecs) */
+  signal?: AbortSignal;
+  /** Decode progress (0-1), reported per chunk for MP3 */
+  onProgress?: ProgressCallback;
+}
+
+// Bytes handed to the MP3 decoder per step (progress / abort granularity)
+const MP3_CHUNK_SIZE = 256 * 1024;
+
+/**
+ * Concatenate per-chunk channel data into one Float32Array per channel
+ */
+function concatChannels(chunks: Float32Array[][]): Float32Array[] {
+  const channelCount = Math.max(0, ...chunks.map((chunk) => chunk.length));
+  return Array.from({ length: channelCount }, (_, c) => {
+    const parts = chunks.map((chunk) => chunk[c] ?? chunk[0]);
+    const merged = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      merged.set(part, offset);
+      offset += part.length;
+    }
+    return merged;
+  });
+}
+
+// Shared surface of the wasm-audio-decoders file decoders
+interface WASMFileDecoder {
+  ready: Promise<void>;
+  decodeFile(data: Uint8Array): Promise<DecodedPCM>;
+  free(): void;
+}
+
+/**
+ * Decode MP3 using WASM decoder (mpg123)
+ * Used as fallback when native API fails. Decodes in chunks so it can report progress and be aborted
+ */
+export async function decodeMP3WithWASM(
+  arrayBuffer: ArrayBuffer,
+  { signal, onProgress }: WASMDecodeOptions = {}
+): Promise<DecodedPCM> {
+  const { MPEGDecoder } = await import("mpg123-decoder");
+  const decoder = new MPEGDecoder() as MPEGDecoderType;
+  await decoder.ready;
+
+  const bytes = new Uint8Array(arrayBuffer);
+  const chunks: Float32Array[][] = [];
+  let sampleRate = 0;
+
+  try {
+    for (let offset = 0; offset < bytes.length; offset += MP3_CHUNK_SIZE) {
+      throwIfAborted(signal);
+      const result = decoder.decode(bytes.subarray(offset, offset + MP3_CHUNK_SIZE));
+      if (result.channelData[0]?.length) {
+        chunks.push(result.channelData);
+        sampleRate = result.sampleRate || sampleRate;
+      }
+      onProgress?.(Math.min(1, (offset + MP3_CHUNK_SIZE) / bytes.length));
+      // Yield so abort signals and UI updates are processed between chunks
+      if (offset + MP3_CHUNK_SIZE < bytes.length) await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  } finally {
+    decoder.free();
+  }
+
+  if (chunks.length === 0) {
+    throw new Error("WASM decoder returned no channel data");
+  }
+
+  return { channelData: chunks.length === 1 ? chunks[0] : concatChannels(chunks), sampleRate };
+}
+
+/**
+ * Lazily import the WASM decoder for a container codec (each codec is a separate chunk)
+ */
+async function createFileDecoder(codec: Exclude<AudioCodec, "wav" | "mp3">): Promise<WASMFileDecoder> {
+  switch (codec) {
+    case "vorbis": {
+      const { OggVorbisDecoder } = await import("@wasm-audio-decoders/ogg-vorbis");
+      return new OggVorbisDecoder();
+    }
+    case "opus": {
+      const { OggOpusDecoder } = await import("ogg-opus-decoder");
+      return new OggOpusDecoder();
+    }
+    case "flac": {
+      const { FLACDecoder } = await import("@wasm-audio-decoders/flac");
+      return new FLACDecoder();
+    }
+  }
+}
+
+/**
+ * Decode audio without Web Audio: WAV is parsed in TypeScript, MP3 / Ogg Vorbis / Opus / FLAC use WASM
+ * The codec is sniffed from magic bytes; `mimeType` is only a hint for data without a recognizable header
+ */
+export async function decodeWithFallback(
+  arrayBuffer: ArrayBuffer,
+  mimeType = "",
+  { signal, onProgress }: WASMDecodeOptions = {}
+): Promise<DecodedPCM> {
+  const codec = sniffAudioCodec(new Uint8Array(arrayBuffer));
+  const resolved = codec ?? getCodecFromMimeType(mimeType);
+
+  if (!resolved) {
+    throw new Error("Unrecognized audio format for fallback decoding");
+  }
+  if (resolved === "wav") {
+    const decoded = decodeWAV(arrayBuffer);
+    onProgress?.(1);
+    return decoded;
+  }
+  if (resolved === "mp3") return decodeMP3WithWASM(arrayBuffer, { signal, onProgress });
+
+  const decoder = await createFileDecoder(resolved);
+  try {
+    await decoder.ready;
+    throwIfAborted(signal);
+    const { channelData, sampleRate } = await decoder.decodeFile(new Uint8Array(arrayBuffer));
+    if (!channelData[0]) {
+      throw new Error("WASM decoder returned no channel data");
+    }
+    onProgress?.(1);
+    return { channelData, sampleRate };
+  } finally {
+    decoder.free();
+  }
+}
+
+export interface MP3StreamDecoder {
+  /** Decode the next chunk of MP3 bytes (partial frames are buffered until complete) */
+  decode(chunk: Uint8Array): { channelData: Float32Array[]; samplesDecoded: number; sampleRate: number };
+  free(): void;
+}
+
+/**
+ * Create a stateful MP3 decoder for progressive (chunk-by-chunk) decoding
+ */
+export async function createMP3StreamDecoder(): Promise<MP3StreamDecoder> {
+  const { MPEGDecoder } = await import("mpg123-decoder");
+  const decoder = new MPEGDecoder() as MPEGDecoderType;
+  await decoder.ready;
+
+  return {
+    decode: (chunk) => decoder.decode(chunk),
+    free: () => decoder.free(),
+  };
+}
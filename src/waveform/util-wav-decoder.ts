@@ -0,0 +1,124 @@
+// ============================================================================
+// WAV Decoder - Pure TypeScript RIFF/WAVE parser (no WASM, no Web Audio)
+// Supports integer PCM (8/16/24/32-bit) and IEEE float (32/64-bit), including WAVE_FORMAT_EXTENSIBLE
+// ============================================================================
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+interface WAVFormat {
+  formatTag: number;
+  channels: number;
+  sampleRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+}
+
+const readASCII = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+function parseFormatChunk(view: DataView, offset: number, size: number): WAVFormat {
+  if (size < 16) {
+    throw new Error("Invalid WAV file: fmt chunk is truncated");
+  }
+
+  let formatTag = view.getUint16(offset, true);
+  // Extensible format stores the real format code in the first two bytes of the subformat GUID
+  if (formatTag === WAVE_FORMAT_EXTENSIBLE && size >= 40) {
+    formatTag = view.getUint16(offset + 24, true);
+  }
+
+  return {
+    formatTag,
+    channels: view.getUint16(offset + 2, true),
+    sampleRate: view.getUint32(offset + 4, true),
+    blockAlign: view.getUint16(offset + 12, true),
+    bitsPerSample: view.getUint16(offset + 14, true),
+  };
+}
+
+/**
+ * Create a reader that converts one sample at a byte offset to a float (-1 to 1)
+ */
+function createSampleReader({ formatTag, bitsPerSample }: WAVFormat, view: DataView): (offset: number) => number {
+  if (formatTag === WAVE_FORMAT_IEEE_FLOAT) {
+    if (bitsPerSample === 32) return (offset) => view.getFloat32(offset, true);
+    if (bitsPerSample === 64) return (offset) => view.getFloat64(offset, true);
+  }
+
+  if (formatTag === WAVE_FORMAT_PCM) {
+    switch (bitsPerSample) {
+      case 8:
+        // 8-bit PCM is unsigned with a 128 midpoint
+        return (offset) => (view.getUint8(offset) - 128) / 128;
+      case 16:
+        return (offset) => view.getInt16(offset, true) / 32768;
+      case 24:
+        return (offset) => {
+          const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+          return value / 8388608;
+        };
+      case 32:
+        return (offset) => view.getInt32(offset, true) / 2147483648;
+    }
+  }
+
+  throw new Error(`Unsupported WAV encoding (format: 0x${formatTag.toString(16)}, ${bitsPerSample} bits)`);
+}
+
+/**
+ * Decode a RIFF/WAVE file into per-channel float samples
+ */
+export function decodeWAV(arrayBuffer: ArrayBuffer): { channelData: Float32Array[]; sampleRate: number } {
+  const view = new DataView(arrayBuffer);
+  if (view.byteLength < 12 || readASCII(view, 0, 4) !== "RIFF" || readASCII(view, 8, 4) !== "WAVE") {
+    throw new Error("Invalid WAV file: missing RIFF/WAVE header");
+  }
+
+  let format: WAVFormat | null = null;
+  let dataOffset = -1;
+  let dataSize = 0;
+
+  // Walk chunks until both fmt and data are found (chunks are padded to even sizes)
+  for (let offset = 12; offset + 8 <= view.byteLength; ) {
+    const id = readASCII(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      format = parseFormatChunk(view, body, size);
+    } else if (id === "data") {
+      dataOffset = body;
+      // Streaming writers leave the size at 0 or 0xFFFFFFFF: read to the end of the file
+      dataSize = size === 0 || body + size > view.byteLength ? view.byteLength - body : size;
+      if (format) break;
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  if (!format) {
+    throw new Error("Invalid WAV file: missing fmt chunk");
+  }
+  if (dataOffset < 0) {
+    throw new Error("Invalid WAV file: missing data chunk");
+  }
+  if (format.channels === 0 || format.blockAlign === 0) {
+    throw new Error("Invalid WAV file: no channels");
+  }
+
+  const readSample = createSampleReader(format, view);
+  const bytesPerSample = format.bitsPerSample / 8;
+  const frameCount = Math.floor(dataSize / format.blockAlign);
+  const channelData = Array.from({ length: format.channels }, () => new Float32Array(frameCount));
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const frameOffset = dataOffset + frame * format.blockAlign;
+    for (let c = 0; c < format.channels; c++) {
+      channelData[c][frame] = readSample(frameOffset + c * bytesPerSample);
+    }
+  }
+
+  return { channelData, sampleRate: format.sampleRate };
+}
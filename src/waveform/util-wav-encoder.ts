@@ -0,0 +1,48 @@
+// ============================================================================
+// WAV Encoder - Writes channel data as 16-bit PCM RIFF/WAVE (plays everywhere, no dependencies)
+// ============================================================================
+
+const HEADER_SIZE = 44;
+const BYTES_PER_SAMPLE = 2;
+
+/**
+ * Encode channel data (-1 to 1) as an interleaved 16-bit PCM WAV file
+ */
+export function encodeWAV(channelData: Float32Array[], sampleRate: number): ArrayBuffer {
+  const channels = Math.max(1, channelData.length);
+  const frames = channelData.length ? Math.min(...channelData.map((channel) => channel.length)) : 0;
+  const blockAlign = channels * BYTES_PER_SAMPLE;
+  const dataSize = frames * blockAlign;
+
+  const buffer = new ArrayBuffer(HEADER_SIZE + dataSize);
+  const view = new DataView(buffer);
+  const writeASCII = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeASCII(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeASCII(8, "WAVE");
+  writeASCII(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true);
+  writeASCII(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  let offset = HEADER_SIZE;
+  for (let i = 0; i < frames; i++) {
+    for (const channel of channelData) {
+      const sample = Math.max(-1, Math.min(1, channel[i]));
+      // Asymmetric scaling keeps -1 and 1 both representable
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += BYTES_PER_SAMPLE;
+    }
+  }
+
+  return buffer;
+}
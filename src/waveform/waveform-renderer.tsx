@@ -1,28 +1,122 @@
-import { forwardRef, useCallback, useEffect, useImperativeHandle, useRef } from "react";
-import { DEFAULT_PLAYHEAD_APPEARANCE, DEFAULT_WAVEFORM_APPEARANCE } from "../constants";
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef } from "react";
+import {
+  DEFAULT_BEAT_APPEARANCE,
+  DEFAULT_DIMMED_APPEARANCE,
+  DEFAULT_HOVER_APPEARANCE,
+  DEFAULT_LOADING_APPEARANCE,
+  DEFAULT_LOUDNESS_APPEARANCE,
+  DEFAULT_MARKER_APPEARANCE,
+  DEFAULT_PLAYHEAD_APPEARANCE,
+  DEFAULT_REGION_APPEARANCE,
+  DEFAULT_WAVEFORM_APPEARANCE,
+} from "../constants";
 import type { AudioWaveformAppearance } from "../types";
+import type {
+  TimeSpan,
+  WaveformChannelLayout,
+  WaveformMarker,
+  WaveformPeaks,
+  WaveformPeaksSource,
+  WaveformRegion,
+} from "./types";
+import { type MarkerCallbacks, type MarkerFlagBox, useMarkerInteraction } from "./use-marker-interaction";
+import { type RegionCallbacks, useRegionInteraction } from "./use-region-interaction";
+import { type SeekCallbacks, useSeekInteraction } from "./use-seek-interaction";
+import { snapToNearest } from "./util-beats";
+import { createCanvasFill } from "./util-fill";
+import type { LoudnessCurve } from "./util-loudness";
+import { isPeakPyramid, selectPyramidLevel } from "./util-peak-pyramid";
+import { getPeakCount, getPeakRange, toChannelPeaks } from "./util-peaks";
+import { formatTime } from "./util-time";
 
 // ============================================================================
 // Common Waveform Renderer (A)
 // ============================================================================
 
-export interface WaveformRendererProps extends React.CanvasHTMLAttributes<HTMLCanvasElement> {
-  /** Normalized peak data to visualize */
-  peaks: number[] | null;
+// Bottom of the loudness overlay scale (LUFS); 0 LUFS is the top
+const LOUDNESS_FLOOR = -60;
+// Canvas hover label box
+const HOVER_LABEL_FONT = "11px sans-serif";
+const HOVER_LABEL_HEIGHT = 16;
+const HOVER_LABEL_PADDING = 4;
+const REGION_LABEL_FONT = "11px sans-serif";
+// Marker flag (icon + label) at the top of the line
+const MARKER_FLAG_FONT = "11px sans-serif";
+const MARKER_FLAG_HEIGHT = 16;
+const MARKER_FLAG_PADDING = 4;
+
+export interface WaveformRendererProps
+  extends React.CanvasHTMLAttributes<HTMLCanvasElement>,
+    SeekCallbacks,
+    RegionCallbacks,
+    MarkerCallbacks {
+  /**
+   * Normalized peak data to visualize (mean-absolute or signed min/max; one array per channel renders lanes)
+   * A peak pyramid renders from the coarsest level that still has a peak for every bar
+   */
+  peaks: WaveformPeaksSource | null;
+  /** Layout for multichannel peaks. Default: "stacked" */
+  channelLayout?: WaveformChannelLayout;
   /** Waveform appearance configuration (barColor, barWidth, playheadColor, etc.) */
   appearance?: AudioWaveformAppearance;
+  /**
+   * Fraction of the audio covered by `peaks` while loading progressively (0-1)
+   * Peaks fill the left part of the canvas and the rest is drawn as a loading region
+   */
+  loadingProgress?: number;
   /** Current playback time in seconds */
   currentTime?: number;
   /** Total audio duration in seconds */
   duration?: number;
-  /** Callback when user clicks on waveform (simple seek) */
-  onSeek?: (time: number) => void;
-  /** Callback when drag-to-seek starts (use to pause playback) */
-  onSeekStart?: () => void;
-  /** Callback during drag-to-seek with current time (real-time updates) */
-  onSeekDrag?: (time: number) => void;
-  /** Callback when drag-to-seek ends (use to resume playback) */
-  onSeekEnd?: (time: number) => void;
+  /**
+   * Start of the clip shown by `peaks` in seconds. Default: 0
+   * `currentTime` and seek times stay absolute; the playhead is placed relative to the clip
+   */
+  startTime?: number;
+  /** End of the clip shown by `peaks` in seconds. Default: `duration` */
+  endTime?: number;
+  /**
+   * Part of the clip drawn on the canvas when zoomed in, in absolute seconds. Default: the whole clip
+   * Bars are laid out across the whole clip and only the visible window is drawn
+   */
+  visibleStart?: number;
+  /** End of the visible window in absolute seconds. Default: end of the clip */
+  visibleEnd?: number;
+  /** Time ranges drawn dimmed (e.g. detected silence), in absolute seconds */
+  dimmedRanges?: TimeSpan[];
+  /**
+   * Short-term loudness curve drawn over the bars (e.g. `shortTerm` from `measureAudioLoudness`)
+   * Plotted from -60 LUFS at the bottom to 0 LUFS at the top, in absolute time like `currentTime`
+   */
+  loudness?: LoudnessCurve;
+  /** Target loudness in LUFS drawn as a dashed level line (e.g. -16 for podcasts) */
+  targetLoudness?: number;
+  /** Beat times in absolute seconds drawn as a grid (e.g. `beats` from `detectAudioBeats`) */
+  beats?: number[];
+  /** Snap click and drag seek positions to the nearest of `beats` (sorted). Default: false */
+  snapToBeats?: boolean;
+  /**
+   * Time ranges drawn as selectable regions, in absolute seconds (controlled)
+   * With `onRegionsChange`, dragging on empty space creates a region and edges/bodies resize/move it
+   */
+  regions?: WaveformRegion[];
+  /**
+   * Timestamped flags (chapters, comments, cue points) in absolute seconds, drawn like the playhead
+   * Clickable with `onMarkerClick`, draggable with `onMarkersChange`; [ / ] jump to the previous / next marker
+   */
+  markers?: WaveformMarker[];
+  /** Called with the time under the pointer (where a click would seek), and null when the pointer leaves */
+  onHover?: (time: number | null) => void;
+  /**
+   * Draw the hovered time next to the hover line on the canvas. `true` formats as "m:ss.s"; pass a function
+   * for a custom format. Default: false
+   */
+  hoverLabel?: boolean | ((time: number) => string);
+  /**
+   * Render a custom tooltip for the hovered time instead of the canvas label
+   * Positioned (fixed) above the canvas, centered on the hover line
+   */
+  renderHoverTooltip?: (time: number) => React.ReactNode;
 }
 
 export interface WaveformRendererRef {
@@ -30,18 +124,151 @@ export interface WaveformRendererRef {
 }
 
 export const WaveformRenderer = forwardRef<WaveformRendererRef, WaveformRendererProps>(function WaveformRenderer(
-  { peaks, appearance, currentTime, duration, onSeek, onSeekStart, onSeekDrag, onSeekEnd, onClick, style, ...props },
+  {
+    peaks,
+    channelLayout = "stacked",
+    appearance,
+    loadingProgress,
+    currentTime,
+    duration,
+    startTime,
+    endTime,
+    visibleStart,
+    visibleEnd,
+    dimmedRanges,
+    loudness,
+    targetLoudness,
+    beats,
+    snapToBeats = false,
+    regions,
+    onRegionsChange,
+    onRegionEnter,
+    onRegionLeave,
+    markers,
+    onMarkerClick,
+    onMarkersChange,
+    onHover,
+    hoverLabel = false,
+    renderHoverTooltip,
+    onSeek,
+    onSeekStart,
+    onSeekDrag,
+    onSeekEnd,
+    onClick,
+    onMouseMove,
+    onMouseLeave,
+    style,
+    ...props
+  },
   ref
 ) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const sizeRef = useRef({ width: 0, height: 0 });
   const rafRef = useRef<number>(0);
-  const isDraggingRef = useRef(false);
+  const flagBoxesRef = useRef<MarkerFlagBox[]>([]);
+
+  // Time window covered by the canvas: the whole file, or the clip between startTime and endTime
+  const clipStart = Math.max(0, startTime ?? 0);
+  const clipEnd = endTime ?? duration ?? 0;
+  const clipDuration = clipEnd - clipStart;
+  // Window drawn on the canvas (the clip unless zoomed in)
+  const viewStart = Math.max(clipStart, visibleStart ?? clipStart);
+  const viewEnd = Math.min(clipEnd, visibleEnd ?? clipEnd);
+  const viewDuration = viewEnd - viewStart;
 
   useImperativeHandle(ref, () => ({
     canvas: canvasRef.current,
   }));
 
+  const snapToBeat = useCallback((time: number) => snapToNearest(beats ?? [], time), [beats]);
+
+  const regionInteraction = useRegionInteraction({
+    canvasRef,
+    regions,
+    currentTime,
+    startTime: clipStart,
+    endTime: clipEnd,
+    visibleStart: viewStart,
+    visibleEnd: viewEnd,
+    snap: snapToBeats && beats?.length ? snapToBeat : undefined,
+    onRegionsChange,
+    onRegionEnter,
+    onRegionLeave,
+  });
+  const markerInteraction = useMarkerInteraction({
+    canvasRef,
+    markers,
+    flagBoxesRef,
+    currentTime,
+    startTime: clipStart,
+    endTime: clipEnd,
+    visibleStart: viewStart,
+    visibleEnd: viewEnd,
+    snap: snapToBeats && beats?.length ? snapToBeat : undefined,
+    onSeek,
+    onMarkerClick,
+    onMarkersChange,
+  });
+
+  // Presses go to markers first (drawn on top), then regions; marker clicks never seek, region clicks do unless dragged
+  const { handleMouseDown: handleRegionMouseDown, didDrag: didRegionDrag } = regionInteraction;
+  const { handleMouseDown: handleMarkerMouseDown } = markerInteraction;
+  const activeGestureRef = useRef<"marker" | "region" | null>(null);
+  const gesture = useMemo(
+    () => ({
+      onMouseDown: (e: React.MouseEvent<HTMLCanvasElement>) => {
+        activeGestureRef.current = handleMarkerMouseDown(e) ? "marker" : handleRegionMouseDown(e) ? "region" : null;
+        return activeGestureRef.current !== null;
+      },
+      consumesClick: () =>
+        activeGestureRef.current === "marker" || (activeGestureRef.current === "region" && didRegionDrag()),
+    }),
+    [handleMarkerMouseDown, handleRegionMouseDown, didRegionDrag]
+  );
+
+  const { handleMouseMove: handleRegionMouseMove, handleMouseLeave: handleRegionMouseLeave } = regionInteraction;
+  const { handleMouseMove: handleMarkerMouseMove, handleMouseLeave: handleMarkerMouseLeave } = markerInteraction;
+  const handleMouseMove = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      handleMarkerMouseMove(e);
+      handleRegionMouseMove(e);
+      onMouseMove?.(e);
+    },
+    [handleMarkerMouseMove, handleRegionMouseMove, onMouseMove]
+  );
+  const handleMouseLeave = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      handleMarkerMouseLeave();
+      handleRegionMouseLeave();
+      onMouseLeave?.(e);
+    },
+    [handleMarkerMouseLeave, handleRegionMouseLeave, onMouseLeave]
+  );
+
+  const { cursor, hover, canvasProps } = useSeekInteraction({
+    canvasRef,
+    currentTime,
+    startTime: clipStart,
+    endTime: clipEnd,
+    visibleStart: viewStart,
+    visibleEnd: viewEnd,
+    onSeek,
+    onSeekStart,
+    onSeekDrag,
+    onSeekEnd,
+    onHover,
+    trackHover: hoverLabel !== false || !!renderHoverTooltip,
+    onClick,
+    onMouseMove: handleMouseMove,
+    onMouseLeave: handleMouseLeave,
+    gesture,
+    onKeyDown: markerInteraction.handleKeyDown,
+    snap: snapToBeats && beats?.length ? snapToBeat : undefined,
+    labels: { interactive: "Audio seek", static: "Audio waveform" },
+  });
+
+  const hoverTime = hover?.time ?? null;
+
   const drawWaveform = useCallback(() => {
     const canvas = canvasRef.current;
     const { width, height } = sizeRef.current;
@@ -65,6 +292,7 @@ export const WaveformRenderer = forwardRef<WaveformRendererRef, WaveformRenderer
 
     // Extract styles from appearance (with defaults)
     const barColor = appearance?.barColor ?? DEFAULT_WAVEFORM_APPEARANCE.barColor;
+    const progressColor = appearance?.progressColor;
     const barWidth = appearance?.barWidth ?? DEFAULT_WAVEFORM_APPEARANCE.barWidth;
     const barGap = appearance?.barGap ?? DEFAULT_WAVEFORM_APPEARANCE.barGap;
     const barRadius = appearance?.barRadius ?? DEFAULT_WAVEFORM_APPEARANCE.barRadius;
@@ -72,19 +300,33 @@ export const WaveformRenderer = forwardRef<WaveformRendererRef, WaveformRenderer
 
     const totalBarWidth = barWidth + barGap;
     if (totalBarWidth <= 0) return;
-    const barsCount = Math.floor(width / totalBarWidth);
+    // Bars are laid out across the whole clip (wider than the canvas when zoomed in); only visible bars are drawn
+    const isZoomed = clipDuration > 0 && viewDuration > 0 && viewDuration < clipDuration;
+    const contentWidth = isZoomed ? (width * clipDuration) / viewDuration : width;
+    const scrollX = isZoomed ? ((viewStart - clipStart) / clipDuration) * contentWidth : 0;
+    const barsCount = Math.floor(contentWidth / totalBarWidth);
     if (barsCount <= 0) return;
-    const step = peaks.length / barsCount;
 
-    ctx.fillStyle = barColor;
+    // Progressive loading: peaks cover only the loaded part, the remainder is shaded
+    const loadedBars =
+      loadingProgress === undefined ? barsCount : Math.floor(barsCount * Math.max(0, Math.min(loadingProgress, 1)));
+    if (loadedBars < barsCount) {
+      const loadedX = Math.max(0, loadedBars * totalBarWidth - scrollX);
+      ctx.fillStyle = appearance?.loadingColor ?? DEFAULT_LOADING_APPEARANCE.loadingColor;
+      ctx.fillRect(loadedX, 0, width - loadedX, height);
+    }
+
+    const channels = isPeakPyramid(peaks) ? selectPyramidLevel(peaks, loadedBars) : toChannelPeaks(peaks);
+    if (channels.length === 0 || loadedBars === 0) return;
 
-    for (let i = 0; i < barsCount; i++) {
-      const peakIndex = Math.min(Math.floor(i * step), peaks.length - 1);
-      const peak = peaks[peakIndex];
-      const barHeight = Math.max(peak * height * barHeightScale, 2);
-      const x = i * totalBarWidth;
-      const y = (height - barHeight) / 2;
+    // Range of bars inside the canvas
+    const firstBar = Math.max(0, Math.floor(scrollX / totalBarWidth));
+    const lastBar = Math.min(loadedBars, Math.ceil((scrollX + width) / totalBarWidth));
+    const getBarX = (barIndex: number) => barIndex * totalBarWidth - scrollX;
+    // Absolute time to canvas x
+    const getTimeX = (time: number) => ((time - viewStart) / viewDuration) * width;
 
+    const drawBar = (x: number, y: number, barHeight: number) => {
       if (barRadius > 0) {
         ctx.beginPath();
         ctx.roundRect(x, y, barWidth, barHeight, barRadius);
@@ -92,18 +334,255 @@ export const WaveformRenderer = forwardRef<WaveformRendererRef, WaveformRenderer
       } else {
         ctx.fillRect(x, y, barWidth, barHeight);
       }
+    };
+
+    // Signed range of peaks covered by one bar (min/max peaks merge every bucket under the bar)
+    const getBarRange = (channel: WaveformPeaks, barIndex: number) => {
+      const step = getPeakCount(channel) / loadedBars;
+      return getPeakRange(channel, Math.floor(barIndex * step), Math.floor((barIndex + 1) * step));
+    };
+
+    // Draw bars `from` to `to` (exclusive) of every channel with the current fillStyle
+    const drawBars = (from: number, to: number) => {
+      if (channelLayout === "mirrored") {
+        // First channel grows upward, second channel grows downward (mono mirrors itself)
+        const upper = channels[0];
+        const lower = channels[1] ?? channels[0];
+        const center = height / 2;
+
+        for (let i = from; i < to; i++) {
+          const x = getBarX(i);
+          const upperRange = getBarRange(upper, i);
+          const lowerRange = getBarRange(lower, i);
+          const upperPeak = Math.max(Math.abs(upperRange.min), Math.abs(upperRange.max));
+          const lowerPeak = Math.max(Math.abs(lowerRange.min), Math.abs(lowerRange.max));
+          const upperHeight = Math.max(upperPeak * center * barHeightScale, 1);
+          const lowerHeight = Math.max(lowerPeak * center * barHeightScale, 1);
+          drawBar(x, center - upperHeight, upperHeight);
+          drawBar(x, center, lowerHeight);
+        }
+      } else {
+        // One lane per channel, each centered in its own slice of the canvas height
+        const laneHeight = height / channels.length;
+        const halfLane = (laneHeight / 2) * barHeightScale;
+
+        channels.forEach((channel, channelIndex) => {
+          const laneCenter = channelIndex * laneHeight + laneHeight / 2;
+          for (let i = from; i < to; i++) {
+            const { min, max } = getBarRange(channel, i);
+            // Positive samples go up (canvas y grows downward)
+            let top = laneCenter - max * halfLane;
+            let barHeight = (max - min) * halfLane;
+            if (barHeight < 2) {
+              top -= (2 - barHeight) / 2;
+              barHeight = 2;
+            }
+            drawBar(getBarX(i), top, barHeight);
+          }
+        });
+      }
+    };
+
+    // Regions: fills under the bars, edges and labels on top
+    const visibleRegions =
+      viewDuration > 0
+        ? (regions ?? []).filter((region) => region.endTime >= viewStart && region.startTime <= viewEnd)
+        : [];
+    for (const region of visibleRegions) {
+      ctx.fillStyle = region.color ?? appearance?.regionColor ?? DEFAULT_REGION_APPEARANCE.regionColor;
+      const from = getTimeX(region.startTime);
+      ctx.fillRect(from, 0, getTimeX(region.endTime) - from, height);
+    }
+
+    // Horizontal gradients span the whole clip so colors stay put while scrolling
+    const fillArea = { x: -scrollX, width: contentWidth, height };
+    ctx.fillStyle = createCanvasFill(ctx, barColor, fillArea);
+    drawBars(firstBar, lastBar);
+
+    // Played part: redraw the bars left of the playhead in progressColor, clipped so the boundary bar splits
+    if (progressColor !== undefined && currentTime !== undefined && viewDuration > 0) {
+      const progressX = Math.max(0, Math.min(getTimeX(currentTime), width));
+      if (progressX > 0) {
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(0, 0, progressX, height);
+        ctx.clip();
+        ctx.fillStyle = createCanvasFill(ctx, progressColor, fillArea);
+        drawBars(firstBar, Math.min(lastBar, Math.ceil((scrollX + progressX) / totalBarWidth)));
+        ctx.restore();
+      }
+    }
+
+    if (visibleRegions.length > 0) {
+      ctx.save();
+      ctx.font = REGION_LABEL_FONT;
+      ctx.textBaseline = "top";
+      for (const region of visibleRegions) {
+        const from = getTimeX(region.startTime);
+        const to = getTimeX(region.endTime);
+        ctx.fillStyle = appearance?.regionHandleColor ?? DEFAULT_REGION_APPEARANCE.regionHandleColor;
+        ctx.fillRect(from - 1, 0, 2, height);
+        ctx.fillRect(to - 1, 0, 2, height);
+
+        if (region.label) {
+          // Clipped to the region so long labels do not spill over
+          ctx.save();
+          ctx.beginPath();
+          ctx.rect(from, 0, to - from, height);
+          ctx.clip();
+          ctx.fillStyle = appearance?.regionLabelColor ?? DEFAULT_REGION_APPEARANCE.regionLabelColor;
+          ctx.fillText(region.label, Math.max(from, 0) + 4, 3);
+          ctx.restore();
+        }
+      }
+      ctx.restore();
+    }
+
+    // Beat grid: thin lines under the overlays
+    if (beats?.length && viewDuration > 0) {
+      ctx.fillStyle = appearance?.beatColor ?? DEFAULT_BEAT_APPEARANCE.beatColor;
+      for (const beat of beats) {
+        if (beat < viewStart || beat > viewEnd) continue;
+        ctx.fillRect(getTimeX(beat) - 0.5, 0, 1, height);
+      }
+    }
+
+    // Dimmed ranges: fade the bars already drawn there, whatever the background
+    if (dimmedRanges?.length && viewDuration > 0) {
+      const dimmedOpacity = appearance?.dimmedOpacity ?? DEFAULT_DIMMED_APPEARANCE.dimmedOpacity;
+      ctx.save();
+      ctx.globalCompositeOperation = "destination-out";
+      ctx.fillStyle = `rgba(0, 0, 0, ${1 - Math.max(0, Math.min(dimmedOpacity, 1))})`;
+      for (const range of dimmedRanges) {
+        const from = Math.max(0, getTimeX(range.startTime));
+        const to = Math.min(width, getTimeX(range.endTime));
+        if (to > from) ctx.fillRect(from, 0, to - from, height);
+      }
+      ctx.restore();
+    }
+
+    // Loudness overlay: short-term curve and target level on a LUFS scale
+    const getLoudnessY = (lufs: number) => height * Math.max(0, Math.min(lufs / LOUDNESS_FLOOR, 1));
+
+    if (targetLoudness !== undefined) {
+      const y = getLoudnessY(targetLoudness);
+      ctx.save();
+      ctx.strokeStyle = appearance?.loudnessTargetColor ?? DEFAULT_LOUDNESS_APPEARANCE.loudnessTargetColor;
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    if (loudness?.values.length && viewDuration > 0) {
+      ctx.save();
+      ctx.strokeStyle = appearance?.loudnessColor ?? DEFAULT_LOUDNESS_APPEARANCE.loudnessColor;
+      ctx.lineWidth = 1.5;
+      ctx.lineJoin = "round";
+      ctx.beginPath();
+      // Silent stretches (-Infinity) break the line
+      let drawing = false;
+      loudness.values.forEach((lufs, index) => {
+        const x = getTimeX(index * loudness.interval);
+        if (!Number.isFinite(lufs) || x < 0 || x > width) {
+          drawing = false;
+          return;
+        }
+        const y = getLoudnessY(lufs);
+        if (drawing) ctx.lineTo(x, y);
+        else ctx.moveTo(x, y);
+        drawing = true;
+      });
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    // Markers: a line in the playhead's coordinates plus a flag (icon and label) at the top
+    const flagBoxes: MarkerFlagBox[] = [];
+    if (markers?.length && viewDuration > 0) {
+      ctx.save();
+      ctx.font = MARKER_FLAG_FONT;
+      ctx.textBaseline = "middle";
+      for (const marker of markers) {
+        if (marker.time < viewStart || marker.time > viewEnd) continue;
+        const markerX = getTimeX(marker.time);
+        ctx.fillStyle = marker.color ?? appearance?.markerColor ?? DEFAULT_MARKER_APPEARANCE.markerColor;
+        ctx.fillRect(markerX - 0.5, 0, 1, height);
+        if (!marker.label && !marker.icon) continue;
+
+        const iconSize = marker.icon ? MARKER_FLAG_HEIGHT - 4 : 0;
+        const textWidth = marker.label ? ctx.measureText(marker.label).width : 0;
+        const gap = iconSize > 0 && textWidth > 0 ? MARKER_FLAG_PADDING : 0;
+        const flagWidth = MARKER_FLAG_PADDING * 2 + iconSize + gap + textWidth;
+        // Flags point right, or left near the right edge
+        const flagX = markerX + flagWidth > width ? markerX - flagWidth : markerX;
+
+        ctx.fillRect(flagX, 0, flagWidth, MARKER_FLAG_HEIGHT);
+        if (marker.icon) ctx.drawImage(marker.icon, flagX + MARKER_FLAG_PADDING, 2, iconSize, iconSize);
+        if (marker.label) {
+          ctx.fillStyle = appearance?.markerLabelColor ?? DEFAULT_MARKER_APPEARANCE.markerLabelColor;
+          ctx.fillText(marker.label, flagX + MARKER_FLAG_PADDING + iconSize + gap, MARKER_FLAG_HEIGHT / 2);
+        }
+        flagBoxes.push({ id: marker.id, left: flagX, right: flagX + flagWidth, bottom: MARKER_FLAG_HEIGHT });
+      }
+      ctx.restore();
     }
+    flagBoxesRef.current = flagBoxes;
 
-    // Render playhead (only when currentTime and duration are available)
-    if (currentTime !== undefined && duration !== undefined && duration > 0) {
-      const playheadX = (currentTime / duration) * width;
+    // Render playhead (only when currentTime and duration are available and inside the visible window)
+    if (currentTime !== undefined && viewDuration > 0 && currentTime >= viewStart && currentTime <= viewEnd) {
+      const playheadX = getTimeX(currentTime);
       const playheadColor = appearance?.playheadColor ?? DEFAULT_PLAYHEAD_APPEARANCE.playheadColor;
       const playheadWidth = appearance?.playheadWidth ?? DEFAULT_PLAYHEAD_APPEARANCE.playheadWidth;
 
       ctx.fillStyle = playheadColor;
       ctx.fillRect(playheadX - playheadWidth / 2, 0, playheadWidth, height);
     }
-  }, [peaks, appearance, currentTime, duration]);
+
+    // Hover line (and time label) where a click would land
+    if (hoverTime !== null && viewDuration > 0 && hoverTime >= viewStart && hoverTime <= viewEnd) {
+      const hoverX = getTimeX(hoverTime);
+      ctx.fillStyle = appearance?.hoverColor ?? DEFAULT_HOVER_APPEARANCE.hoverColor;
+      ctx.fillRect(hoverX - 0.5, 0, 1, height);
+
+      if (hoverLabel !== false && !renderHoverTooltip) {
+        const text = typeof hoverLabel === "function" ? hoverLabel(hoverTime) : formatTime(hoverTime, 1);
+        ctx.font = HOVER_LABEL_FONT;
+        const labelWidth = ctx.measureText(text).width + HOVER_LABEL_PADDING * 2;
+        // Right of the line, flipped to the left near the right edge
+        const labelX = hoverX + labelWidth + 2 > width ? hoverX - labelWidth - 2 : hoverX + 2;
+
+        ctx.fillStyle = appearance?.hoverLabelBackground ?? DEFAULT_HOVER_APPEARANCE.hoverLabelBackground;
+        ctx.fillRect(Math.max(0, labelX), 0, labelWidth, HOVER_LABEL_HEIGHT);
+        ctx.fillStyle = appearance?.hoverLabelColor ?? DEFAULT_HOVER_APPEARANCE.hoverLabelColor;
+        ctx.textBaseline = "middle";
+        ctx.fillText(text, Math.max(0, labelX) + HOVER_LABEL_PADDING, HOVER_LABEL_HEIGHT / 2);
+      }
+    }
+  }, [
+    peaks,
+    channelLayout,
+    appearance,
+    loadingProgress,
+    currentTime,
+    clipStart,
+    clipDuration,
+    viewStart,
+    viewEnd,
+    viewDuration,
+    dimmedRanges,
+    loudness,
+    targetLoudness,
+    beats,
+    regions,
+    markers,
+    hoverTime,
+    hoverLabel,
+    renderHoverTooltip,
+  ]);
 
   // ResizeObserver with RAF throttling
   useEffect(() => {
@@ -135,142 +614,35 @@ export const WaveformRenderer = forwardRef<WaveformRendererRef, WaveformRenderer
     drawWaveform();
   }, [drawWaveform]);
 
-  // Calculate time from mouse/touch position
-  const getTimeFromPosition = useCallback(
-    (clientX: number): number => {
-      const canvas = canvasRef.current;
-      if (!canvas || !duration || duration <= 0) return 0;
-
-      const rect = canvas.getBoundingClientRect();
-      const x = clientX - rect.left;
-      const ratio = Math.max(0, Math.min(x / rect.width, 1));
-      return ratio * duration;
-    },
-    [duration]
-  );
-
-  // Drag-to-seek: document-level handlers for dragging outside bounds
-  useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
-      if (!isDraggingRef.current) return;
-      const time = getTimeFromPosition(e.clientX);
-      onSeekDrag?.(time);
-    };
-
-    const handleMouseUp = (e: MouseEvent) => {
-      if (!isDraggingRef.current) return;
-      isDraggingRef.current = false;
-      document.body.style.cursor = "";
-      document.body.style.userSelect = "";
-      const time = getTimeFromPosition(e.clientX);
-      onSeekEnd?.(time);
-    };
-
-    // Only add listeners if drag-to-seek is enabled
-    if (onSeekDrag || onSeekEnd) {
-      document.addEventListener("mousemove", handleMouseMove);
-      document.addEventListener("mouseup", handleMouseUp);
-    }
-
-    return () => {
-      document.removeEventListener("mousemove", handleMouseMove);
-      document.removeEventListener("mouseup", handleMouseUp);
-    };
-  }, [getTimeFromPosition, onSeekDrag, onSeekEnd]);
-
-  // Mouse down handler: starts drag or simple click
-  const handleMouseDown = useCallback(
-    (e: React.MouseEvent<HTMLCanvasElement>) => {
-      if (!duration || duration <= 0) return;
-
-      // If drag-to-seek callbacks are provided, start dragging
-      if (onSeekStart || onSeekDrag || onSeekEnd) {
-        isDraggingRef.current = true;
-        document.body.style.cursor = "grabbing";
-        document.body.style.userSelect = "none";
-        onSeekStart?.();
-        const time = getTimeFromPosition(e.clientX);
-        onSeekDrag?.(time);
-      }
-    },
-    [duration, onSeekStart, onSeekDrag, onSeekEnd, getTimeFromPosition]
-  );
-
-  const isDragEnabled = !!onSeekStart || !!onSeekDrag || !!onSeekEnd;
-
-  // Click handler for simple seeking (only when not dragging)
-  const handleClick = useCallback(
-    (e: React.MouseEvent<HTMLCanvasElement>) => {
-      // Skip if drag-to-seek is enabled (handled by mouse events)
-      if (!isDragEnabled && onSeek && duration && duration > 0) {
-        const time = getTimeFromPosition(e.clientX);
-        onSeek(time);
-      }
-      onClick?.(e);
-    },
-    [onSeek, duration, isDragEnabled, getTimeFromPosition, onClick]
-  );
-
-  // Keyboard handler: Arrow keys seek 5s, Home/End jump to start/end
-  const handleKeyDown = useCallback(
-    (e: React.KeyboardEvent<HTMLCanvasElement>) => {
-      if (!onSeek || !duration || duration <= 0) return;
-
-      const SEEK_STEP = 5; // 5 second step
-      const current = currentTime ?? 0;
-
-      switch (e.key) {
-        case "ArrowLeft":
-          e.preventDefault();
-          onSeek(Math.max(0, current - SEEK_STEP));
-          break;
-        case "ArrowRight":
-          e.preventDefault();
-          onSeek(Math.min(duration, current + SEEK_STEP));
-          break;
-        case "Home":
-          e.preventDefault();
-          onSeek(0);
-          break;
-        case "End":
-          e.preventDefault();
-          onSeek(duration);
-          break;
-      }
-    },
-    [onSeek, duration, currentTime]
-  );
-
-  // Format time for screen readers (aria-valuetext): "1 minute 30 seconds"
-  const formatTimeForScreen = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    if (mins > 0) {
-      return `${mins} minute${mins > 1 ? "s" : ""} ${secs} second${secs !== 1 ? "s" : ""}`;
-    }
-    return `${secs} second${secs !== 1 ? "s" : ""}`;
-  };
-
-  // Interactive when any seek callback is provided
-  const isInteractive = (!!onSeek || !!onSeekStart || !!onSeekDrag || !!onSeekEnd) && !!duration && duration > 0;
-
-  return (
+  const canvas = (
     <canvas
       ref={canvasRef}
-      role={isInteractive ? "slider" : "img"}
-      aria-label={isInteractive ? "Audio seek" : "Audio waveform"}
-      aria-valuemin={isInteractive ? 0 : undefined}
-      aria-valuemax={isInteractive ? Math.floor(duration) : undefined}
-      aria-valuenow={isInteractive ? Math.floor(currentTime ?? 0) : undefined}
-      aria-valuetext={
-        isInteractive ? `${formatTimeForScreen(currentTime ?? 0)} / ${formatTimeForScreen(duration)}` : undefined
-      }
-      tabIndex={isInteractive ? 0 : -1}
-      onMouseDown={isDragEnabled ? handleMouseDown : undefined}
-      onClick={handleClick}
-      onKeyDown={isInteractive ? handleKeyDown : undefined}
-      style={{ cursor: isInteractive ? (isDragEnabled ? "grab" : "pointer") : undefined, ...style }}
+      {...canvasProps}
+      style={{ cursor: markerInteraction.cursor ?? regionInteraction.cursor ?? cursor, ...style }}
       {...props}
+      onBlur={(e) => {
+        markerInteraction.handleBlur();
+        props.onBlur?.(e);
+      }}
     />
   );
+  if (!renderHoverTooltip || !hover) return canvas;
+
+  return (
+    <>
+      {canvas}
+      <div
+        style={{
+          position: "fixed",
+          left: hover.clientX,
+          top: hover.clientY,
+          transform: "translate(-50%, -100%)",
+          pointerEvents: "none",
+          zIndex: 1,
+        }}
+      >
+        {renderHoverTooltip(hover.time)}
+      </div>
+    </>
+  );
 });
@@ -0,0 +1,70 @@
+import { type ReactNode, useEffect } from "react";
+import type { ScrollbarAppearance } from "../types";
+import { useThemedScrollbars } from "../use-themed-scrollbars";
+
+// ============================================================================
+// Zoom Viewport - Scroll container of a zoomed AudioWaveform
+// ============================================================================
+
+export interface ZoomViewportProps {
+  /** Host and scrolling viewport elements (from useWaveformZoom) */
+  hostRef: React.RefObject<HTMLDivElement | null>;
+  viewportRef: React.RefObject<HTMLDivElement | null>;
+  /** Width of the zoomed timeline in pixels (scroll range) */
+  contentWidth: number;
+  contentHeight: number;
+  scrollbar?: ScrollbarAppearance;
+  /** Host is focusable itself when the waveform canvas is not (keyboard zoom and scroll) */
+  focusable: boolean;
+  onScroll: React.UIEventHandler<HTMLDivElement>;
+  onKeyDown: React.KeyboardEventHandler<HTMLDivElement>;
+  className?: string;
+  style?: React.CSSProperties;
+  children: ReactNode;
+}
+
+/**
+ * OverlayScrollbars around our own viewport element (React keeps ownership of the DOM)
+ * Rendered only while zoomed, so non-zoomed waveforms create no scrollbar instance or theme style
+ * The canvas stays in view (sticky) while a spacer as wide as the zoomed timeline provides the scroll range
+ */
+export function ZoomViewport({
+  hostRef,
+  viewportRef,
+  contentWidth,
+  contentHeight,
+  scrollbar,
+  focusable,
+  onScroll,
+  onKeyDown,
+  className,
+  style,
+  children,
+}: ZoomViewportProps) {
+  const [initializeOS] = useThemedScrollbars(scrollbar);
+  useEffect(() => {
+    if (hostRef.current && viewportRef.current) {
+      initializeOS({ target: hostRef.current, elements: { viewport: viewportRef.current } });
+    }
+  }, [initializeOS, hostRef, viewportRef]);
+
+  return (
+    <div
+      ref={hostRef}
+      className={className}
+      role="application"
+      aria-label="Zoomable audio waveform"
+      style={{ position: "relative", overflow: "hidden", ...style }}
+      tabIndex={focusable ? 0 : undefined}
+      onKeyDown={onKeyDown}
+    >
+      <div
+        ref={viewportRef}
+        style={{ width: "100%", height: "100%", overflowX: "auto", overflowY: "hidden" }}
+        onScroll={onScroll}
+      >
+        <div style={{ width: contentWidth, height: contentHeight }}>{children}</div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
-import { decodeAudioBlob } from "../src/waveform/util-audio-decoder";
+import { decodeAudio, decodeAudioBlob, decodeAudioBlobChannels } from "../src/waveform/util-audio-decoder";
+import { encodeWAV } from "../src/waveform/util-wav-encoder";
 
 vi.mock("mpg123-decoder", () => {
   return {
@@ -18,11 +19,20 @@ vi.mock("mpg123-decoder", () => {
 type OfflineAudioContextLike = new (
   ...args: unknown[]
 ) => {
-  decodeAudioData: (buffer: ArrayBuffer) => Promise<{ getChannelData: (index: number) => Float32Array }>;
+  decodeAudioData: (
+    buffer: ArrayBuffer
+  ) => Promise<{ numberOfChannels?: number; getChannelData: (index: number) => Float32Array }>;
 };
 
 const originalOfflineAudioContext = global.OfflineAudioContext;
 
+// jsdom's Blob lacks arrayBuffer(); give test blobs their bytes directly
+const createBlob = (buffer: ArrayBuffer, type: string) => {
+  const blob = new Blob([buffer], { type });
+  Object.defineProperty(blob, "arrayBuffer", { value: () => Promise.resolve(buffer.slice(0)) });
+  return blob;
+};
+
 afterEach(() => {
   global.OfflineAudioContext = originalOfflineAudioContext;
 });
@@ -38,7 +48,7 @@ describe("decodeAudioBlob", () => {
     };
     global.OfflineAudioContext = OfflineAudioContextMock as typeof OfflineAudioContext;
 
-    const blob = new Blob([new Uint8Array([1, 2, 3])], { type: "audio/wav" });
+    const blob = createBlob(new Uint8Array([1, 2, 3]).buffer, "audio/wav");
     const peaks = await decodeAudioBlob(blob, 10);
 
     expect(peaks).toHaveLength(2);
@@ -55,7 +65,7 @@ describe("decodeAudioBlob", () => {
     };
     global.OfflineAudioContext = OfflineAudioContextMock as typeof OfflineAudioContext;
 
-    const blob = new Blob([new Uint8Array([1, 2, 3])], { type: "audio/mp4" });
+    const blob = createBlob(new Uint8Array([1, 2, 3]).buffer, "audio/mp4");
 
     await expect(decodeAudioBlob(blob, 4)).rejects.toThrow("MP3");
   });
@@ -68,7 +78,7 @@ describe("decodeAudioBlob", () => {
     };
     global.OfflineAudioContext = OfflineAudioContextMock as typeof OfflineAudioContext;
 
-    const blob = new Blob([new Uint8Array([1, 2, 3])], { type: "audio/mp3" });
+    const blob = createBlob(new Uint8Array([1, 2, 3]).buffer, "audio/mp3");
     const peaks = await decodeAudioBlob(blob, 10);
 
     expect(peaks).toHaveLength(4);
@@ -77,4 +87,72 @@ describe("decodeAudioBlob", () => {
       expect(peak).toBeLessThanOrEqual(1);
     }
   });
+
+  it("picks the fallback decoder from magic bytes instead of blob.type", async () => {
+    const OfflineAudioContextMock: OfflineAudioContextLike = class {
+      decodeAudioData() {
+        return Promise.reject(new Error("native decode failed"));
+      }
+    };
+    global.OfflineAudioContext = OfflineAudioContextMock as typeof OfflineAudioContext;
+
+    // 16-bit mono WAV with two samples, mislabeled as MP3
+    const wav = encodeWAV([new Float32Array([0.5, -1])], 8000);
+    const blob = createBlob(wav, "audio/mpeg");
+    const peaks = await decodeAudioBlob(blob, 10);
+
+    expect(peaks[0]).toBeCloseTo(0.5, 4);
+    expect(peaks[1]).toBe(1);
+  });
+});
+
+describe("decodeAudioBlobChannels", () => {
+  it("returns peaks per channel normalized against the loudest channel", async () => {
+    const channels = [new Float32Array([0.5, -0.5, 0.5, -0.5]), new Float32Array([0.25, -0.25, 0.25, -0.25])];
+    const OfflineAudioContextMock: OfflineAudioContextLike = class {
+      decodeAudioData() {
+        return Promise.resolve({
+          numberOfChannels: 2,
+          getChannelData: (index: number) => channels[index],
+        });
+      }
+    };
+    global.OfflineAudioContext = OfflineAudioContextMock as typeof OfflineAudioContext;
+
+    const blob = createBlob(new Uint8Array([1, 2, 3]).buffer, "audio/wav");
+    const peaks = await decodeAudioBlobChannels(blob, 2);
+
+    expect(peaks).toHaveLength(2);
+    expect(peaks[0]).toEqual([1, 1]);
+    expect(peaks[1]).toEqual([0.5, 0.5]);
+  });
+});
+
+describe("decodeAudio", () => {
+  it("returns metadata of the source audio alongside the peaks", async () => {
+    const channels = [new Float32Array(44100).fill(0.5), new Float32Array(44100).fill(0.25)];
+    const OfflineAudioContextMock = class {
+      decodeAudioData() {
+        return Promise.resolve({
+          numberOfChannels: 2,
+          sampleRate: 22050,
+          getChannelData: (index: number) => channels[index],
+        });
+      }
+    };
+    global.OfflineAudioContext = OfflineAudioContextMock as unknown as typeof OfflineAudioContext;
+
+    const blob = createBlob(new Uint8Array([0x66, 0x4c, 0x61, 0x43]).buffer, "");
+    const decoded = await decodeAudio(blob, { sampleCount: 100 });
+
+    expect(decoded.peaks).toHaveLength(1);
+    expect(decoded.peaks[0]).toHaveLength(100);
+    expect(decoded).toMatchObject({
+      duration: 2,
+      sampleRate: 22050,
+      numberOfChannels: 2,
+      codec: "flac",
+      peaksPerSecond: 50,
+    });
+  });
 });
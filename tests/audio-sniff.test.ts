@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { getCodecFromMimeType, sniffAudioCodec } from "../src/waveform/util-audio-sniff";
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+// First Ogg page header (27 bytes) with a single segment, followed by the identification packet
+const oggPage = (packet: number[]) =>
+  new Uint8Array([...ascii("OggS"), ...new Array(22).fill(0), 1, packet.length, ...packet]);
+
+describe("sniffAudioCodec", () => {
+  it("detects containers from magic bytes", () => {
+    expect(sniffAudioCodec(new Uint8Array([...ascii("RIFF"), 0, 0, 0, 0, ...ascii("WAVE")]))).toBe("wav");
+    expect(sniffAudioCodec(new Uint8Array(ascii("fLaC")))).toBe("flac");
+    expect(sniffAudioCodec(new Uint8Array([0xff, 0xfb, 0x90, 0x00]))).toBe("mp3");
+  });
+
+  it("identifies the codec inside Ogg", () => {
+    expect(sniffAudioCodec(oggPage(ascii("OpusHead")))).toBe("opus");
+    expect(sniffAudioCodec(oggPage([0x01, ...ascii("vorbis")]))).toBe("vorbis");
+    expect(sniffAudioCodec(oggPage([0x7f, ...ascii("FLAC")]))).toBe("flac");
+  });
+
+  it("looks past ID3 tags", () => {
+    const id3 = [...ascii("ID3"), 4, 0, 0, 0, 0, 0, 2, 0, 0];
+
+    expect(sniffAudioCodec(new Uint8Array([...id3, 0xff, 0xfb]))).toBe("mp3");
+    expect(sniffAudioCodec(new Uint8Array([...id3, ...ascii("fLaC")]))).toBe("flac");
+  });
+
+  it("ignores ADTS AAC and unknown data", () => {
+    expect(sniffAudioCodec(new Uint8Array([0xff, 0xf1, 0x50, 0x80]))).toBeNull();
+    expect(sniffAudioCodec(new Uint8Array([1, 2, 3]))).toBeNull();
+  });
+});
+
+describe("getCodecFromMimeType", () => {
+  it("maps common MIME types", () => {
+    expect(getCodecFromMimeType("audio/mpeg")).toBe("mp3");
+    expect(getCodecFromMimeType("audio/ogg; codecs=opus")).toBe("opus");
+    expect(getCodecFromMimeType("audio/ogg")).toBe("vorbis");
+    expect(getCodecFromMimeType("audio/mp4")).toBeNull();
+  });
+});
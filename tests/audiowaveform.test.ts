@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseAudiowaveformDat,
+  parseAudiowaveformJSON,
+  toAudiowaveformDat,
+  toAudiowaveformJSON,
+} from "../src/waveform/util-audiowaveform";
+
+describe("parseAudiowaveformJSON", () => {
+  it("splits multichannel data into normalized per-channel pairs", () => {
+    const data = parseAudiowaveformJSON({
+      version: 2,
+      channels: 2,
+      sample_rate: 48000,
+      samples_per_pixel: 480,
+      bits: 8,
+      length: 2,
+      data: [-127, 127, -64, 0, -128, 0, 0, 127],
+    });
+
+    expect(data.channels).toBe(2);
+    expect(data.duration).toBeCloseTo(0.02);
+    expect(Array.from(data.peaks[0])).toEqual([-1, 1, -1, 0]);
+    expect(Array.from(data.peaks[1])).toEqual([expect.closeTo(-64 / 127), 0, 0, 1]);
+  });
+
+  it("treats version 1 documents as a single channel", () => {
+    const data = parseAudiowaveformJSON(
+      JSON.stringify({ version: 1, sample_rate: 44100, samples_per_pixel: 256, bits: 16, length: 1, data: [-32767, 0] })
+    );
+
+    expect(data.channels).toBe(1);
+    expect(Array.from(data.peaks[0])).toEqual([-1, 0]);
+  });
+});
+
+describe("audiowaveform .dat", () => {
+  it.each([8, 16] as const)("round-trips %i-bit multichannel peaks", (bits) => {
+    const left = new Float32Array([-1, 1, -0.5, 0.5]);
+    const right = [
+      { min: 0, max: 0.25 },
+      { min: -0.25, max: 0 },
+    ];
+
+    const buffer = toAudiowaveformDat({ peaks: [left, right], sampleRate: 44100, samplesPerPixel: 512, bits });
+    const data = parseAudiowaveformDat(buffer);
+
+    expect(data).toMatchObject({ version: 2, channels: 2, sampleRate: 44100, samplesPerPixel: 512, bits, length: 2 });
+    const tolerance = bits === 8 ? 0.01 : 0.0001;
+    Array.from(data.peaks[0]).forEach((value, i) => {
+      expect(Math.abs(value - left[i])).toBeLessThan(tolerance);
+    });
+    Array.from(data.peaks[1]).forEach((value, i) => {
+      expect(Math.abs(value - [0, 0.25, -0.25, 0][i])).toBeLessThan(tolerance);
+    });
+  });
+
+  it("parses version 1 headers", () => {
+    const buffer = new ArrayBuffer(20 + 4);
+    const view = new DataView(buffer);
+    view.setInt32(0, 1, true);
+    view.setUint32(4, 1, true);
+    view.setInt32(8, 8000, true);
+    view.setInt32(12, 80, true);
+    view.setUint32(16, 2, true);
+    [-127, 127, 0, 127].forEach((value, i) => {
+      view.setInt8(20 + i, value);
+    });
+
+    const data = parseAudiowaveformDat(buffer);
+
+    expect(data).toMatchObject({ version: 1, channels: 1, bits: 8, length: 2, duration: 0.02 });
+    expect(Array.from(data.peaks[0])).toEqual([-1, 1, 0, 1]);
+  });
+
+  it("serializes the same values to JSON", () => {
+    const json = toAudiowaveformJSON({ peaks: [0.5, 1], sampleRate: 44100, samplesPerPixel: 256 });
+
+    expect(json).toEqual({
+      version: 2,
+      channels: 1,
+      sample_rate: 44100,
+      samples_per_pixel: 256,
+      bits: 8,
+      length: 2,
+      data: [-64, 64, -127, 127],
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { detectBeats, snapToNearest } from "../src/waveform/util-beats";
+
+const SAMPLE_RATE = 22050;
+
+// Decaying 1 kHz clicks at the given times
+const createClickTrack = (times: number[], seconds: number) => {
+  const channel = new Float32Array(seconds * SAMPLE_RATE);
+  for (const time of times) {
+    const start = Math.round(time * SAMPLE_RATE);
+    for (let i = 0; i < 0.05 * SAMPLE_RATE && start + i < channel.length; i++) {
+      channel[start + i] = Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE) * Math.exp(-i / (0.01 * SAMPLE_RATE));
+    }
+  }
+  return channel;
+};
+
+describe("detectBeats", () => {
+  it("finds onsets, tempo and a beat grid for a 120 BPM click track", () => {
+    const clicks = Array.from({ length: 20 }, (_, i) => 0.25 + i * 0.5);
+
+    const { bpm, onsets, beats } = detectBeats([createClickTrack(clicks, 10)], SAMPLE_RATE);
+
+    expect(bpm).toBeCloseTo(120, 0);
+    expect(onsets).toHaveLength(20);
+    for (const [i, onset] of onsets.entries()) {
+      expect(Math.abs(onset - clicks[i])).toBeLessThan(0.03);
+    }
+    expect(beats.length).toBeGreaterThanOrEqual(19);
+    expect(Math.abs(snapToNearest(beats, 3.3) - 3.25)).toBeLessThan(0.03);
+  });
+
+  it("returns no tempo for silence", () => {
+    expect(detectBeats([new Float32Array(SAMPLE_RATE)], SAMPLE_RATE)).toEqual({ bpm: 0, onsets: [], beats: [] });
+  });
+});
+
+describe("snapToNearest", () => {
+  it("returns the closest time", () => {
+    expect(snapToNearest([1, 2, 3], 1.4)).toBe(1);
+    expect(snapToNearest([1, 2, 3], 1.6)).toBe(2);
+    expect(snapToNearest([1, 2, 3], 5)).toBe(3);
+    expect(snapToNearest([1, 2, 3], -1)).toBe(1);
+    expect(snapToNearest([], 4)).toBe(4);
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  type AudioDecoder,
+  getAudioDecoders,
+  isAudioDecodeError,
+  registerDecoder,
+  runDecoders,
+  unregisterDecoder,
+} from "../src/waveform/util-decoder-registry";
+
+const blob = new Blob([new Uint8Array([1, 2, 3])], { type: "video/x-custom" });
+const data = new Uint8Array([1, 2, 3]).buffer;
+const decoded = { channelData: [new Float32Array([0.5])], sampleRate: 8000 };
+
+const createDecoder = (name: string, overrides: Partial<AudioDecoder> = {}): AudioDecoder => ({
+  name,
+  test: () => true,
+  decode: () => Promise.resolve(decoded),
+  ...overrides,
+});
+
+const cleanups: (() => void)[] = [];
+
+afterEach(() => {
+  for (const cleanup of cleanups.splice(0)) cleanup();
+});
+
+describe("decoder registry", () => {
+  it("orders decoders by priority around the built-in ones", () => {
+    cleanups.push(registerDecoder(createDecoder("first"), { priority: 200 }));
+    cleanups.push(registerDecoder(createDecoder("last")));
+
+    expect(getAudioDecoders().map((decoder) => decoder.name)).toEqual(["first", "native", "fallback", "last"]);
+  });
+
+  it("replaces decoders with the same name and removes them by name", () => {
+    cleanups.push(registerDecoder(createDecoder("custom"), { priority: 10 }));
+    cleanups.push(registerDecoder(createDecoder("custom"), { priority: 200 }));
+
+    expect(getAudioDecoders().filter((decoder) => decoder.name === "custom")).toHaveLength(1);
+    expect(getAudioDecoders()[0].name).toBe("custom");
+
+    unregisterDecoder("custom");
+    expect(getAudioDecoders().map((decoder) => decoder.name)).toEqual(["native", "fallback"]);
+  });
+
+  it("falls through failing and skipped decoders to the next one", async () => {
+    cleanups.push(
+      registerDecoder(createDecoder("broken", { decode: () => Promise.reject(new Error("boom")) }), { priority: 300 })
+    );
+    cleanups.push(registerDecoder(createDecoder("skipped", { test: () => false }), { priority: 250 }));
+    cleanups.push(registerDecoder(createDecoder("working"), { priority: 200 }));
+
+    const result = await runDecoders(blob, data, (decoder, input) => decoder.decode(input));
+
+    expect(result).toBe(decoded);
+  });
+
+  it("aggregates every failure into an AudioDecodeError", async () => {
+    cleanups.push(
+      registerDecoder(createDecoder("custom", { decode: () => Promise.reject(new Error("unsupported container")) }), {
+        priority: 200,
+      })
+    );
+
+    const error = await runDecoders(blob, data, (decoder, input) => decoder.decode(input)).catch((e) => e);
+
+    expect(isAudioDecodeError(error)).toBe(true);
+    expect(error.errors.map(({ decoder }: { decoder: string }) => decoder)).toEqual(["custom", "native"]);
+    expect(error.message).toContain("custom: unsupported container");
+  });
+});
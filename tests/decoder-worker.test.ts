@@ -0,0 +1,198 @@
+import { describe, expect, it, vi } from "vitest";
+import { createDecoderWorkerListener } from "../src/waveform/decoder-worker";
+import { decodeAudioBlob } from "../src/waveform/util-audio-decoder";
+import { getAudioDecoders, registerDecoder } from "../src/waveform/util-decoder-registry";
+import type { DecoderWorkerRequest } from "../src/waveform/util-decoder-worker";
+import { getDecoderWorker } from "../src/waveform/util-decoder-worker";
+import { extractPeakPyramid } from "../src/waveform/util-peak-pyramid";
+import { extractPeaks } from "../src/waveform/util-peaks";
+
+const mpeg = vi.hoisted(() => ({ decodeCalls: 0 }));
+
+vi.mock("mpg123-decoder", () => {
+  return {
+    MPEGDecoder: class {
+      ready = Promise.resolve();
+      decode() {
+        mpeg.decodeCalls++;
+        return {
+          channelData: [new Float32Array([0.5, -0.5, 0.25, -0.25]), new Float32Array([0.25, -0.25, 0.5, -0.5])],
+        };
+      }
+      free() {}
+    },
+  };
+});
+
+// Runs the worker listener in-process while recording what was sent and transferred
+const createInProcessWorker = () => {
+  const transferred: ArrayBuffer[] = [];
+  const requests: DecoderWorkerRequest[] = [];
+  const responses: unknown[] = [];
+  const listener = createDecoderWorkerListener((response) => {
+    responses.push(response);
+    worker.onmessage?.({ data: response });
+  });
+  const worker = {
+    onmessage: null as ((event: { data: unknown }) => void) | null,
+    onerror: null,
+    postMessage(message: DecoderWorkerRequest, transfer: ArrayBuffer[] = []) {
+      requests.push(message);
+      transferred.push(...transfer);
+      void listener(message);
+    },
+    terminate() {},
+  };
+  return { worker: worker as unknown as Worker, transferred, requests, responses };
+};
+
+// A worker whose script fails to load: it never answers and reports an error instead
+const createUnloadableWorker = () => {
+  const worker = {
+    onmessage: null,
+    onerror: null as ((event: Partial<ErrorEvent>) => void) | null,
+    postMessage: vi.fn(() => {
+      setTimeout(() => worker.onerror?.({ message: "Failed to fetch decoder-worker.js" }));
+    }),
+    terminate() {},
+  };
+  return worker;
+};
+
+const reduction = { kind: "peaks", sampleCount: 2, peakFormat: "average" } as const;
+
+describe("decoder worker", () => {
+  it("extracts the same peaks as the main thread and transfers channel buffers", async () => {
+    const { worker, transferred } = createInProcessWorker();
+    const client = getDecoderWorker(() => worker);
+    const channel = new Float32Array([0.5, -0.25, 0.125, -1]);
+    const expected = extractPeaks([channel.slice()], 2, "minmax");
+
+    const peaks = await client?.extract([channel], { kind: "peaks", sampleCount: 2, peakFormat: "minmax" });
+
+    expect(peaks).toEqual(expected);
+    expect(transferred).toContain(channel.buffer);
+  });
+
+  it("runs the fallback decoders inside the worker", async () => {
+    const { worker, transferred } = createInProcessWorker();
+    const client = getDecoderWorker(() => worker);
+    const data = new Uint8Array([1, 2, 3]).buffer;
+
+    const result = await client?.decode(data, "audio/mpeg", true, {
+      kind: "peaks",
+      sampleCount: 2,
+      peakFormat: "average",
+    });
+    const peaks = result?.peaks as number[][];
+
+    expect(peaks).toHaveLength(2);
+    expect(peaks?.[0]).toEqual([1, 0.5]);
+    expect(peaks?.[1]).toEqual([0.5, 1]);
+    expect(result?.audio).toMatchObject({ numberOfChannels: 2, length: 4 });
+    expect(transferred).toContain(data);
+  });
+
+  it("reports decode progress from the worker", async () => {
+    const { worker } = createInProcessWorker();
+    const client = getDecoderWorker(() => worker);
+    const onProgress = vi.fn();
+
+    await client?.decode(new Uint8Array([1, 2, 3]).buffer, "audio/mpeg", false, reduction, undefined, { onProgress });
+
+    expect(onProgress).toHaveBeenLastCalledWith(1);
+  });
+
+  it("cancels the decode inside the worker when aborted", async () => {
+    const { worker, requests, responses } = createInProcessWorker();
+    const client = getDecoderWorker(() => worker);
+    const controller = new AbortController();
+    // Three MP3 chunks, so the worker yields between them
+    const data = new Uint8Array(600 * 1024).buffer;
+    mpeg.decodeCalls = 0;
+
+    const job = client?.decode(data, "audio/mpeg", false, reduction, undefined, {
+      signal: controller.signal,
+      onProgress: () => controller.abort(),
+    });
+
+    await expect(job).rejects.toMatchObject({ name: "AbortError" });
+    expect(requests.at(-1)).toEqual({ id: requests[0].id, type: "cancel" });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(mpeg.decodeCalls).toBe(1);
+    expect(responses.some((response) => "peaks" in (response as object))).toBe(false);
+  });
+
+  it("builds peak pyramids inside the worker", async () => {
+    const { worker } = createInProcessWorker();
+    const client = getDecoderWorker(() => worker);
+    const channel = new Float32Array([0.5, -0.25, 0.125, -1]);
+
+    const pyramid = await client?.extract([channel], { kind: "pyramid", samplesPerPeak: 1 });
+
+    expect(pyramid).toEqual(extractPeakPyramid([channel.slice()], 1));
+  });
+
+  it("returns null for the bundled worker when Workers are unavailable", () => {
+    const originalWorker = global.Worker;
+    // @ts-expect-error - simulate environment without Web Workers
+    delete global.Worker;
+
+    expect(getDecoderWorker(true)).toBeNull();
+
+    global.Worker = originalWorker;
+  });
+
+  it("decodes on the main thread once the worker fails to load", async () => {
+    const worker = createUnloadableWorker();
+    const factory = vi.fn(() => worker as unknown as Worker);
+    const data = new Uint8Array([1, 2, 3]).buffer;
+    const decode = () =>
+      decodeAudioBlob(new Blob([data], { type: "audio/mpeg" }), 2, { worker: factory, arrayBuffer: data.slice(0) });
+    mpeg.decodeCalls = 0;
+
+    const peaks = await decode();
+    await expect(decode()).resolves.toEqual(peaks);
+
+    expect(peaks).toEqual([1, 0.5]);
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(worker.postMessage).toHaveBeenCalledTimes(1);
+    expect(mpeg.decodeCalls).toBe(2);
+  });
+
+  it("reduces on the main thread when the worker fails to load during extraction", async () => {
+    const worker = createUnloadableWorker();
+    const decode = vi.fn(() => ({ channelData: [new Float32Array([0.5, -0.5, 0.25, -0.25])], sampleRate: 4 }));
+    const unregister = registerDecoder({ name: "custom", test: () => true, decode }, { priority: 200 });
+    const data = new Uint8Array([1, 2, 3]).buffer;
+
+    const peaks = await decodeAudioBlob(new Blob([data], { type: "audio/x-custom" }), 2, {
+      worker: () => worker as unknown as Worker,
+      arrayBuffer: data,
+    });
+    unregister();
+
+    expect(peaks).toEqual([1, 0.5]);
+    // The first decode's channel buffers were transferred to the failed worker
+    expect(decode).toHaveBeenCalledTimes(2);
+  });
+
+  it("runs a custom decoder named fallback on the main thread", async () => {
+    const { worker, requests } = createInProcessWorker();
+    const builtin = getAudioDecoders().find((decoder) => decoder.name === "fallback");
+    const decode = vi.fn(() => ({ channelData: [new Float32Array([0.5, -0.5, 0.25, -0.25])], sampleRate: 4 }));
+    // Replaces the built-in fallback decoder
+    registerDecoder({ name: "fallback", test: () => true, decode }, { priority: 200 });
+    const data = new Uint8Array([1, 2, 3]).buffer;
+
+    const peaks = await decodeAudioBlob(new Blob([data], { type: "audio/mpeg" }), 2, {
+      worker: () => worker,
+      arrayBuffer: data,
+    });
+    if (builtin) registerDecoder(builtin, { priority: 50 });
+
+    expect(peaks).toEqual([1, 0.5]);
+    expect(decode).toHaveBeenCalledTimes(1);
+    expect(requests.map((request) => request.type)).toEqual(["extract"]);
+  });
+});
@@ -0,0 +1,10 @@
+// Shared test helpers
+
+/**
+ * Give an element a fixed layout box (jsdom has no layout): pointer positions map onto `width`
+ */
+export const mockCanvasRect = (element: Element, width = 100, height = 10) => {
+  Object.defineProperty(element, "getBoundingClientRect", {
+    value: () => ({ left: 0, top: 0, right: width, bottom: height, width, height, x: 0, y: 0, toJSON: () => "" }),
+  });
+};
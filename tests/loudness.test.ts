@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from "vitest";
+import { measureAudioLoudness, measureLoudness } from "../src/waveform/util-loudness";
+import { encodeWAV } from "../src/waveform/util-wav-encoder";
+
+const SAMPLE_RATE = 48000;
+
+const createSine = (seconds: number, amplitude: number, frequency = 997, phase = 0) =>
+  Float32Array.from(
+    { length: seconds * SAMPLE_RATE },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE + phase)
+  );
+
+describe("measureLoudness", () => {
+  it("measures a -20 dBFS stereo sine at -20 LUFS", () => {
+    const sine = createSine(5, 0.1);
+
+    const result = measureLoudness([sine, sine], SAMPLE_RATE, { truePeak: true });
+
+    expect(result.integrated).toBeCloseTo(-20, 1);
+    expect(result.samplePeak).toBeCloseTo(-20, 1);
+    expect(result.truePeak).toBeCloseTo(-20, 1);
+    expect(result.loudnessRange).toBeCloseTo(0, 1);
+    expect(result.shortTerm.interval).toBe(0.1);
+    expect(result.shortTerm.values).toHaveLength(50);
+    expect(result.shortTerm.values[25]).toBeCloseTo(-20, 1);
+  });
+
+  it("gates out silence from integrated loudness", () => {
+    const sine = createSine(4, 0.1);
+    const channel = new Float32Array(sine.length * 2);
+    channel.set(sine);
+
+    const result = measureLoudness([channel, channel], SAMPLE_RATE);
+
+    // Only the blocks straddling the edge of the tone lower it slightly
+    expect(result.integrated).toBeCloseTo(-20, 0);
+    expect(result.shortTerm.values.at(-1)).toBe(-Infinity);
+  });
+
+  it("finds inter-sample peaks above the sample peak", () => {
+    // Quarter sample rate at 45 degrees: every sample is ±0.707 while the waveform peaks at 1
+    const sine = createSine(1, 1, SAMPLE_RATE / 4, Math.PI / 4);
+
+    const result = measureLoudness([sine], SAMPLE_RATE, { truePeak: true });
+
+    expect(result.samplePeak).toBeCloseTo(-3.01, 1);
+    expect(result.truePeak).toBeGreaterThan(-0.5);
+  });
+
+  it("skips the true peak unless requested", () => {
+    const result = measureLoudness([createSine(1, 0.5)], SAMPLE_RATE);
+
+    expect(result.truePeak).toBeUndefined();
+    expect(result.samplePeak).toBeCloseTo(-6.02, 1);
+  });
+
+  it("returns -Infinity for empty or too short audio", () => {
+    expect(measureLoudness([], SAMPLE_RATE).integrated).toBe(-Infinity);
+    expect(measureLoudness([createSine(0.2, 0.5)], SAMPLE_RATE).integrated).toBe(-Infinity);
+  });
+});
+
+describe("measureAudioLoudness", () => {
+  it("measures the true peak of a decoded blob across several tasks", async () => {
+    const data = encodeWAV([createSine(3, 1, SAMPLE_RATE / 4, Math.PI / 4)], SAMPLE_RATE);
+    const blob = new Blob([data], { type: "audio/wav" });
+    const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+
+    const result = await measureAudioLoudness(blob, { truePeak: true, arrayBuffer: data });
+    const yields = setTimeoutSpy.mock.calls.filter(([, delay]) => delay === 0).length;
+    setTimeoutSpy.mockRestore();
+
+    expect(result.samplePeak).toBeCloseTo(-3.01, 1);
+    expect(result.truePeak).toBeGreaterThan(-0.5);
+    expect(yields).toBeGreaterThanOrEqual(2);
+  });
+
+  it("rejects when aborted during the measurement", async () => {
+    const data = encodeWAV([createSine(3, 0.5)], SAMPLE_RATE);
+    const controller = new AbortController();
+    const job = measureAudioLoudness(new Blob([data], { type: "audio/wav" }), {
+      truePeak: true,
+      arrayBuffer: data,
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 0);
+
+    await expect(job).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
@@ -0,0 +1,116 @@
+import { fireEvent, render } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { WaveformRenderer } from "../src/waveform/waveform-renderer";
+import { mockCanvasRect } from "./helpers";
+
+const press = (canvas: HTMLCanvasElement, from: number, to = from) => {
+  fireEvent.mouseDown(canvas, { clientX: from, clientY: 5, button: 0 });
+  if (to !== from) fireEvent.mouseMove(document, { clientX: to, clientY: 5 });
+  fireEvent.mouseUp(document, { clientX: to, clientY: 5 });
+  fireEvent.click(canvas, { clientX: to, clientY: 5 });
+};
+
+const markers = [
+  { id: "intro", time: 1, label: "Intro" },
+  { id: "verse", time: 4, label: "Verse" },
+  { id: "outro", time: 8 },
+];
+
+describe("WaveformRenderer markers", () => {
+  it("reports marker clicks instead of seeking", () => {
+    const onSeek = vi.fn();
+    const onMarkerClick = vi.fn();
+    const { container } = render(
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={10}
+        markers={markers}
+        onMarkerClick={onMarkerClick}
+        onSeek={onSeek}
+      />
+    );
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    press(canvas, 41);
+    expect(onMarkerClick).toHaveBeenCalledWith(markers[1]);
+    expect(onSeek).not.toHaveBeenCalled();
+
+    press(canvas, 60);
+    expect(onSeek).toHaveBeenCalledWith(6);
+  });
+
+  it("drags markers when editable, ahead of regions underneath", () => {
+    const onMarkersChange = vi.fn();
+    const onRegionsChange = vi.fn();
+    const { container } = render(
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={10}
+        markers={markers}
+        onMarkersChange={onMarkersChange}
+        regions={[{ id: "a", startTime: 2, endTime: 6 }]}
+        onRegionsChange={onRegionsChange}
+      />
+    );
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    press(canvas, 40, 55);
+
+    expect(onMarkersChange).toHaveBeenLastCalledWith([markers[0], { ...markers[1], time: 5.5 }, markers[2]]);
+    expect(onRegionsChange).not.toHaveBeenCalled();
+  });
+
+  it("jumps between markers with [ and ] and activates them with Enter", () => {
+    const onSeek = vi.fn();
+    const onMarkerClick = vi.fn();
+    const props = { peaks: [0.1, 0.2, 0.3], duration: 10, markers, onMarkerClick, onSeek };
+    const { container, rerender } = render(<WaveformRenderer {...props} currentTime={2} />);
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+
+    fireEvent.keyDown(canvas, { key: "]" });
+    expect(onSeek).toHaveBeenLastCalledWith(4);
+
+    rerender(<WaveformRenderer {...props} currentTime={4} />);
+    fireEvent.keyDown(canvas, { key: "Enter" });
+    expect(onMarkerClick).toHaveBeenCalledWith(markers[1]);
+
+    fireEvent.keyDown(canvas, { key: "[" });
+    expect(onSeek).toHaveBeenLastCalledWith(1);
+  });
+
+  it("forgets the marker reached with the keyboard once playback moves on or focus leaves", () => {
+    const onMarkerClick = vi.fn();
+    const props = { peaks: [0.1, 0.2, 0.3], duration: 10, markers, onMarkerClick, onSeek: vi.fn() };
+    const { container, rerender } = render(<WaveformRenderer {...props} currentTime={2} />);
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+
+    fireEvent.keyDown(canvas, { key: "]" });
+    rerender(<WaveformRenderer {...props} currentTime={4} />);
+    rerender(<WaveformRenderer {...props} currentTime={4.5} />);
+    fireEvent.keyDown(canvas, { key: "Enter" });
+
+    fireEvent.keyDown(canvas, { key: "]" });
+    fireEvent.blur(canvas);
+    fireEvent.keyDown(canvas, { key: "Enter" });
+
+    expect(onMarkerClick).not.toHaveBeenCalled();
+  });
+
+  it("restores the page cursor and selection when unmounted mid-drag", () => {
+    const { container, unmount } = render(
+      <WaveformRenderer peaks={[0.1, 0.2, 0.3]} duration={10} markers={markers} onMarkersChange={vi.fn()} />
+    );
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas);
+
+    fireEvent.mouseDown(canvas, { clientX: 40, clientY: 5, button: 0 });
+    fireEvent.mouseMove(document, { clientX: 60, clientY: 5 });
+    expect(document.body.style.cursor).toBe("grabbing");
+    unmount();
+
+    expect(document.body.style.cursor).toBe("");
+    expect(document.body.style.userSelect).toBe("");
+  });
+});
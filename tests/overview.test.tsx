@@ -0,0 +1,81 @@
+import { fireEvent, render } from "@testing-library/react";
+import { createRef } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { WaveformOverview } from "../src/overview";
+import type { AudioWaveformRef } from "../src/waveform";
+import { mockCanvasRect } from "./helpers";
+
+const renderOverview = () => {
+  const scrollToTime = vi.fn();
+  const waveformRef = createRef<AudioWaveformRef>() as React.MutableRefObject<AudioWaveformRef | null>;
+  waveformRef.current = { canvas: null, scrollToTime } as unknown as AudioWaveformRef;
+
+  const { container, unmount } = render(
+    <WaveformOverview
+      peaks={[0.1, 0.2, 0.3]}
+      duration={100}
+      waveformRef={waveformRef}
+      visibleRange={{ startTime: 10, endTime: 20 }}
+    />
+  );
+  mockCanvasRect(container.firstElementChild as Element, 1000, 40);
+  const viewport = container.querySelector('[role="slider"]') as HTMLElement;
+  return { container, viewport, scrollToTime, unmount };
+};
+
+describe("WaveformOverview", () => {
+  it("draws the detail waveform's visible range as the viewport", () => {
+    const { viewport } = renderOverview();
+
+    expect(viewport.style.left).toBe("10%");
+    expect(viewport.style.width).toBe("10%");
+    expect(viewport.getAttribute("aria-valuetext")).toBe("0:10 - 0:20");
+  });
+
+  it("scrolls the detail waveform while the viewport is dragged", () => {
+    const { viewport, scrollToTime } = renderOverview();
+
+    // Grab 5 s into the viewport, drop the pointer at 45 s: viewport 40-50 s
+    fireEvent.mouseDown(viewport, { clientX: 150, button: 0 });
+    fireEvent.mouseMove(document, { clientX: 450 });
+    fireEvent.mouseUp(document, { clientX: 450 });
+    fireEvent.mouseMove(document, { clientX: 900 });
+
+    expect(scrollToTime).toHaveBeenCalledTimes(1);
+    expect(scrollToTime).toHaveBeenCalledWith(45);
+  });
+
+  it("stops dragging when unmounted mid-drag", () => {
+    const { viewport, scrollToTime, unmount } = renderOverview();
+
+    fireEvent.mouseDown(viewport, { clientX: 150, button: 0 });
+    expect(document.body.style.cursor).toBe("grabbing");
+    unmount();
+    fireEvent.mouseMove(document, { clientX: 450 });
+
+    expect(scrollToTime).not.toHaveBeenCalled();
+    expect(document.body.style.cursor).toBe("");
+  });
+
+  it("centers the viewport on a press outside it", () => {
+    const { container, scrollToTime } = renderOverview();
+
+    fireEvent.mouseDown(container.querySelector("canvas") as HTMLCanvasElement, { clientX: 800, button: 0 });
+    fireEvent.mouseUp(document, { clientX: 800 });
+
+    expect(scrollToTime).toHaveBeenCalledWith(80);
+  });
+
+  it("moves the viewport with the keyboard", () => {
+    const { viewport, scrollToTime } = renderOverview();
+
+    fireEvent.keyDown(viewport, { key: "ArrowRight" });
+    expect(scrollToTime).toHaveBeenLastCalledWith(16);
+
+    fireEvent.keyDown(viewport, { key: "PageUp" });
+    expect(scrollToTime).toHaveBeenLastCalledWith(5);
+
+    fireEvent.keyDown(viewport, { key: "End" });
+    expect(scrollToTime).toHaveBeenLastCalledWith(95);
+  });
+});
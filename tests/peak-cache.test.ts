@@ -0,0 +1,262 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  configurePeakCache,
+  getCachedPeaks,
+  getContentHash,
+  inspectPeakCache,
+  invalidatePeakCache,
+  type PeakLoadOptions,
+} from "../src/waveform/util-peak-cache";
+
+// jsdom's Blob lacks arrayBuffer(); give test blobs their bytes directly
+const createBlob = (bytes: number[]) => {
+  const blob = new Blob([new Uint8Array(bytes)]);
+  Object.defineProperty(blob, "arrayBuffer", {
+    value: () => Promise.resolve(new Uint8Array(bytes).buffer),
+    configurable: true,
+    writable: true,
+  });
+  return blob;
+};
+
+// Failed loads are still handed out for a moment (Suspense); flush that grace period
+const expireFailedLoads = () => vi.advanceTimersByTime(1000);
+
+afterEach(async () => {
+  vi.useRealTimers();
+  configurePeakCache({ maxEntries: 100, maxBytes: 64 * 1024 * 1024, maxEntryBytes: 32 * 1024 * 1024 });
+  await invalidatePeakCache();
+});
+
+describe("peak cache", () => {
+  it("hashes content, not Blob identity", async () => {
+    expect(await getContentHash(createBlob([1, 2, 3]))).toBe(await getContentHash(createBlob([1, 2, 3])));
+    expect(await getContentHash(createBlob([1, 2, 3]))).not.toBe(await getContentHash(createBlob([1, 2, 4])));
+  });
+
+  it("returns the same promise for the same blob and key", () => {
+    const blob = createBlob([1]);
+    const load = () => Promise.resolve([0.5]);
+
+    expect(getCachedPeaks(blob, "peaks:10", load)).toBe(getCachedPeaks(blob, "peaks:10", load));
+  });
+
+  it("keeps results for different options apart", async () => {
+    const blob = createBlob([1, 2]);
+
+    const low = await getCachedPeaks(blob, "peaks:2", () => Promise.resolve([0.5, 1]));
+    const high = await getCachedPeaks(blob, "peaks:4", () => Promise.resolve([0.25, 0.5, 0.75, 1]));
+
+    expect(low).toHaveLength(2);
+    expect(high).toHaveLength(4);
+  });
+
+  it("reuses decoded peaks for a different Blob with the same bytes", async () => {
+    const load = vi.fn(() => Promise.resolve([0.5]));
+
+    await getCachedPeaks(createBlob([7, 7]), "peaks:1", load);
+    const peaks = await getCachedPeaks(createBlob([7, 7]), "peaks:1", load);
+
+    expect(peaks).toEqual([0.5]);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("evicts least recently used entries beyond the limits", async () => {
+    configurePeakCache({ maxEntries: 2 });
+    const first = createBlob([1]);
+
+    await getCachedPeaks(first, "a", () => Promise.resolve([0.1]));
+    await getCachedPeaks(createBlob([2]), "a", () => Promise.resolve([0.2]));
+    // Touch the first entry so the second one becomes the oldest
+    await getCachedPeaks(createBlob([1]), "a", () => Promise.resolve([0.1]));
+    await getCachedPeaks(createBlob([3]), "a", () => Promise.resolve([0.3]));
+
+    const hashes = (await inspectPeakCache()).map((entry) => entry.hash);
+    expect(hashes).toEqual([await getContentHash(first), await getContentHash(createBlob([3]))]);
+  });
+
+  it("invalidates every entry for a file", async () => {
+    const blob = createBlob([9]);
+    await getCachedPeaks(blob, "peaks:1", () => Promise.resolve([1]));
+    await getCachedPeaks(blob, "peaks:2", () => Promise.resolve([1, 1]));
+    await getCachedPeaks(createBlob([8]), "peaks:1", () => Promise.resolve([1]));
+
+    await invalidatePeakCache(blob);
+
+    const entries = await inspectPeakCache();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ tier: "memory", size: 8 });
+  });
+
+  it("keeps handing out the same promise once the load settled", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout"] });
+    const blob = createBlob([6, 1]);
+    const load = () => Promise.resolve([0.5]);
+
+    const first = getCachedPeaks(blob, "peaks:1", load);
+    await first;
+    vi.advanceTimersByTime(60_000);
+
+    expect(getCachedPeaks(blob, "peaks:1", load)).toBe(first);
+  });
+
+  it("keeps the promise for a live Blob after its peaks are evicted or too large to cache", async () => {
+    configurePeakCache({ maxEntries: 1, maxBytes: 4 });
+    const blob = createBlob([6, 2]);
+    const load = vi.fn(() => Promise.resolve([0.5, 0.5]));
+
+    const first = getCachedPeaks(blob, "peaks:1", load);
+    await first;
+    await getCachedPeaks(createBlob([6, 3]), "peaks:1", () => Promise.resolve([0.25]));
+
+    expect(await inspectPeakCache()).toHaveLength(0);
+    expect(getCachedPeaks(blob, "peaks:1", load)).toBe(first);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("reloads evicted peaks for another Blob with the same bytes", async () => {
+    configurePeakCache({ maxEntries: 1 });
+    const load = vi.fn(() => Promise.resolve([0.5]));
+
+    await getCachedPeaks(createBlob([6, 4]), "peaks:1", load);
+    await getCachedPeaks(createBlob([6, 5]), "peaks:1", () => Promise.resolve([0.25]));
+    await getCachedPeaks(createBlob([6, 4]), "peaks:1", load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not cache results larger than maxEntryBytes", async () => {
+    configurePeakCache({ maxEntryBytes: 8 });
+    const load = vi.fn(() => Promise.resolve(new Float32Array(4)));
+
+    await getCachedPeaks(createBlob([6, 6]), "peaks:4", load);
+    await getCachedPeaks(createBlob([6, 6]), "peaks:4", load);
+    await getCachedPeaks(createBlob([6, 6]), "peaks:1", () => Promise.resolve(new Float32Array(1)));
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect((await inspectPeakCache()).map((entry) => entry.size)).toEqual([4]);
+  });
+
+  it("retries a failed load", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout"] });
+    const blob = createBlob([6, 4]);
+    const load = vi.fn().mockRejectedValueOnce(new Error("decode failed")).mockResolvedValueOnce([1]);
+
+    await expect(getCachedPeaks(blob, "peaks:1", load)).rejects.toThrow("decode failed");
+    expireFailedLoads();
+
+    await expect(getCachedPeaks(blob, "peaks:1", load)).resolves.toEqual([1]);
+  });
+
+  it("reads the blob once and hands the bytes to the loader", async () => {
+    const blob = createBlob([6, 5]);
+    const readBytes = vi.spyOn(blob, "arrayBuffer");
+    const load = vi.fn((_options: PeakLoadOptions) => Promise.resolve([1]));
+
+    await getCachedPeaks(blob, "peaks:1", load);
+
+    expect(readBytes).toHaveBeenCalledTimes(1);
+    expect(new Uint8Array(load.mock.calls[0][0].arrayBuffer as ArrayBuffer)).toEqual(new Uint8Array([6, 5]));
+  });
+
+  it("retries hashing after a failed read", async () => {
+    const blob = createBlob([6, 6]);
+    vi.spyOn(blob, "arrayBuffer").mockRejectedValueOnce(new Error("read failed"));
+
+    await expect(getContentHash(blob)).rejects.toThrow("read failed");
+    await expect(getContentHash(blob)).resolves.toBe(await getContentHash(createBlob([6, 6])));
+  });
+
+  it("does not cache a load that finishes after its bytes were invalidated", async () => {
+    let resolve: (value: number[]) => void = () => {};
+    const load = vi.fn(
+      () =>
+        new Promise<number[]>((res) => {
+          resolve = res;
+        })
+    );
+    const blob = createBlob([6, 7]);
+    const pending = getCachedPeaks(blob, "peaks:1", load);
+    await vi.waitFor(() => expect(load).toHaveBeenCalledTimes(1));
+
+    // A different Blob instance with the same bytes
+    await invalidatePeakCache(createBlob([6, 7]));
+    resolve([1]);
+
+    await expect(pending).resolves.toEqual([1]);
+    expect(await inspectPeakCache()).toEqual([]);
+    expect(getCachedPeaks(blob, "peaks:1", load)).not.toBe(pending);
+    await vi.waitFor(() => expect(load).toHaveBeenCalledTimes(2));
+  });
+});
+
+describe("peak cache cancellation", () => {
+  // A load that only settles when the test says so, exposing the signal it received
+  const createDeferredLoad = () => {
+    let resolve: (value: number[]) => void = () => {};
+    let received: AbortSignal | undefined;
+    const load = vi.fn(({ signal }: { signal?: AbortSignal }) => {
+      received = signal;
+      return new Promise<number[]>((res) => {
+        resolve = res;
+      });
+    });
+    return { load, resolve: (value: number[]) => resolve(value), getSignal: () => received };
+  };
+
+  it("aborts the shared load once every caller has aborted", async () => {
+    const { load, getSignal } = createDeferredLoad();
+    const blob = createBlob([4, 2]);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = getCachedPeaks(blob, "peaks:1", load, { signal: first.signal });
+    const b = getCachedPeaks(blob, "peaks:1", load, { signal: second.signal });
+    await vi.waitFor(() => expect(load).toHaveBeenCalledTimes(1));
+
+    first.abort();
+    await expect(a).rejects.toThrow("aborted");
+    expect(getSignal()?.aborted).toBe(false);
+
+    second.abort();
+    await expect(b).rejects.toThrow("aborted");
+    expect(getSignal()?.aborted).toBe(true);
+  });
+
+  it("keeps loading for callers without a signal", async () => {
+    const { load, resolve, getSignal } = createDeferredLoad();
+    const blob = createBlob([4, 3]);
+    const controller = new AbortController();
+
+    const aborted = getCachedPeaks(blob, "peaks:1", load, { signal: controller.signal });
+    const permanent = getCachedPeaks(blob, "peaks:1", load);
+    await vi.waitFor(() => expect(load).toHaveBeenCalledTimes(1));
+
+    controller.abort();
+    await expect(aborted).rejects.toThrow("aborted");
+    expect(getSignal()?.aborted).toBe(false);
+
+    resolve([1]);
+    await expect(permanent).resolves.toEqual([1]);
+  });
+
+  it("forwards progress and reports 1 for cache hits", async () => {
+    const blob = createBlob([5]);
+    const progress: number[] = [];
+    await getCachedPeaks(
+      blob,
+      "peaks:1",
+      ({ onProgress }) => {
+        onProgress?.(0.5);
+        return Promise.resolve([1]);
+      },
+      { onProgress: (value) => progress.push(value) }
+    );
+
+    await getCachedPeaks(createBlob([5]), "peaks:1", () => Promise.resolve([1]), {
+      onProgress: (value) => progress.push(value),
+    });
+
+    expect(progress).toEqual([0.5, 1]);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  createPeakPyramid,
+  extractPeakPyramid,
+  isPeakPyramid,
+  selectPyramidLevel,
+} from "../src/waveform/util-peak-pyramid";
+
+describe("extractPeakPyramid", () => {
+  it("halves each level with min of mins and max of maxes", () => {
+    const channel = new Float32Array([0.5, -0.25, 1, -0.5, 0.25, -1, 0.125, 0]);
+
+    const pyramid = extractPeakPyramid([channel], 2, { minPeakCount: 1 });
+
+    expect(pyramid.samplesPerPeak).toBe(2);
+    expect(pyramid.levels).toHaveLength(3);
+    expect(Array.from(pyramid.levels[0][0])).toEqual([-0.25, 0.5, -0.5, 1, -1, 0.25, 0, 0.125]);
+    expect(Array.from(pyramid.levels[1][0])).toEqual([-0.5, 1, -1, 0.25]);
+    expect(Array.from(pyramid.levels[2][0])).toEqual([-1, 1]);
+  });
+
+  it("keeps an odd trailing peak when halving", () => {
+    const channel = new Float32Array([0.5, -0.5, 0.25]);
+
+    const pyramid = extractPeakPyramid([channel], 1, { minPeakCount: 1 });
+
+    expect(pyramid.levels.map((level) => level[0].length / 2)).toEqual([3, 2, 1]);
+    expect(Array.from(pyramid.levels[1][0])).toEqual([-1, 1, 0.5, 0.5]);
+  });
+
+  it("builds levels for every channel", () => {
+    const pyramid = extractPeakPyramid([new Float32Array([1, 0.5]), new Float32Array([0.5, 0.25])], 1, {
+      minPeakCount: 1,
+    });
+
+    expect(pyramid.levels[0]).toHaveLength(2);
+    expect(Array.from(pyramid.levels[1][1])).toEqual([0.25, 0.5]);
+  });
+});
+
+describe("createPeakPyramid", () => {
+  it("converts mean-absolute peaks into symmetric min/max pairs", () => {
+    const pyramid = createPeakPyramid([0.5, 1], { minPeakCount: 1, samplesPerPeak: 256 });
+
+    expect(pyramid.samplesPerPeak).toBe(256);
+    expect(Array.from(pyramid.levels[0][0])).toEqual([-0.5, 0.5, -1, 1]);
+    expect(Array.from(pyramid.levels[1][0])).toEqual([-1, 1]);
+  });
+
+  it("is recognized as a pyramid while plain peaks are not", () => {
+    expect(isPeakPyramid(createPeakPyramid([0.5]))).toBe(true);
+    expect(isPeakPyramid([0.5])).toBe(false);
+    expect(isPeakPyramid(new Float32Array(2))).toBe(false);
+  });
+});
+
+describe("selectPyramidLevel", () => {
+  const pyramid = extractPeakPyramid([new Float32Array(64).fill(0.5)], 1, { minPeakCount: 4 });
+
+  it("picks the coarsest level with enough peaks", () => {
+    expect(selectPyramidLevel(pyramid, 10)[0].length / 2).toBe(16);
+    expect(selectPyramidLevel(pyramid, 16)[0].length / 2).toBe(16);
+    expect(selectPyramidLevel(pyramid, 3)[0].length / 2).toBe(4);
+  });
+
+  it("falls back to the finest level when more bars than peaks are requested", () => {
+    expect(selectPyramidLevel(pyramid, 1000)[0].length / 2).toBe(64);
+  });
+});
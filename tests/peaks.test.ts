@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  createStreamingPeakExtractor,
+  extractPeaks,
+  getPeakRange,
+  isMultiChannelPeaks,
+} from "../src/waveform/util-peaks";
+
+describe("extractPeaks", () => {
+  it("keeps signed min/max per bucket in minmax format", () => {
+    const channel = new Float32Array([0.5, -0.25, 0.125, -1]);
+    const [pairs] = extractPeaks([channel], 2, "minmax");
+
+    expect(Array.from(pairs)).toEqual([-0.25, 0.5, -1, 0.125]);
+  });
+
+  it("normalizes every channel against the loudest one", () => {
+    const left = new Float32Array([0.5, 0.5]);
+    const right = new Float32Array([0.25, 0.25]);
+
+    expect(extractPeaks([left, right], 2)).toEqual([
+      [1, 1],
+      [0.5, 0.5],
+    ]);
+  });
+});
+
+describe("extractPeaks scaling", () => {
+  const quiet = new Float32Array([0.25, -0.25, 0.125, -0.125]);
+
+  it("keeps absolute amplitude without normalization", () => {
+    expect(extractPeaks([quiet], 2, "average", { normalize: "none" })).toEqual([[0.25, 0.125]]);
+    expect(extractPeaks([quiet], 2, "average")).toEqual([[1, 0.5]]);
+  });
+
+  it("normalizes against a reference level and clamps above it", () => {
+    expect(extractPeaks([quiet], 2, "average", { normalize: { reference: 0.5 } })).toEqual([[0.5, 0.25]]);
+    expect(extractPeaks([quiet], 2, "average", { normalize: { reference: 0.125 } })).toEqual([[1, 1]]);
+  });
+
+  it("reduces buckets to RMS", () => {
+    const channel = new Float32Array([0.5, 0, 0.5, 0]);
+
+    expect(extractPeaks([channel], 1, "average", { normalize: "none", scale: "rms" })[0][0]).toBeCloseTo(
+      Math.sqrt(0.125)
+    );
+    expect(Array.from(extractPeaks([channel], 1, "minmax", { normalize: "none", scale: "rms" })[0])).toEqual([
+      expect.closeTo(-Math.sqrt(0.125)),
+      expect.closeTo(Math.sqrt(0.125)),
+    ]);
+  });
+
+  it("maps levels logarithmically between the floor and 0 dB", () => {
+    // 0.1 = -20 dB, 0.001 = -60 dB, 0.0001 = below the floor
+    const channel = new Float32Array([1, 0.1, 0.001, 0.0001]);
+
+    const [peaks] = extractPeaks([channel], 4, "average", { normalize: "none", scale: "db", dbFloor: -60 });
+
+    expect(peaks[0]).toBe(1);
+    expect(peaks[1]).toBeCloseTo(2 / 3);
+    expect(peaks[2]).toBeCloseTo(0);
+    expect(peaks[3]).toBe(0);
+  });
+
+  it("keeps the sign of min/max pairs on the dB scale", () => {
+    const channel = new Float32Array([0.1, -0.1]);
+
+    const [pairs] = extractPeaks([channel], 1, "minmax", { normalize: "none", scale: "db", dbFloor: -40 });
+
+    expect(pairs[0]).toBeCloseTo(-0.5);
+    expect(pairs[1]).toBeCloseTo(0.5);
+  });
+});
+
+describe("getPeakRange", () => {
+  it("mirrors mean-absolute peaks around zero", () => {
+    expect(getPeakRange([0.2, 0.8], 1, 2)).toEqual({ min: -0.8, max: 0.8 });
+  });
+
+  it("merges min/max pairs across the requested span", () => {
+    const interleaved = new Float32Array([-0.125, 0.25, -0.75, 0.5, -0.25, 1]);
+    expect(getPeakRange(interleaved, 0, 3)).toEqual({ min: -0.75, max: 1 });
+    expect(
+      getPeakRange(
+        [
+          { min: -0.5, max: 0.1 },
+          { min: -0.2, max: 0.4 },
+        ],
+        0,
+        2
+      )
+    ).toEqual({ min: -0.5, max: 0.4 });
+  });
+});
+
+describe("isMultiChannelPeaks", () => {
+  it("distinguishes channel lists from single-channel shapes", () => {
+    expect(isMultiChannelPeaks([0.1, 0.2])).toBe(false);
+    expect(isMultiChannelPeaks([{ min: -0.1, max: 0.1 }])).toBe(false);
+    expect(isMultiChannelPeaks(new Float32Array(4))).toBe(false);
+    expect(isMultiChannelPeaks([new Float32Array(4), new Float32Array(4)])).toBe(true);
+    expect(isMultiChannelPeaks([[0.1], [0.2]])).toBe(true);
+  });
+});
+
+describe("createStreamingPeakExtractor", () => {
+  it("matches one-shot extraction once all chunks are pushed", () => {
+    const samples = new Float32Array([0.5, -0.25, 0.125, -1, 0.25, 0.75]);
+    const extractor = createStreamingPeakExtractor(2, "minmax");
+
+    extractor.push([samples.subarray(0, 3)]);
+    extractor.push([samples.subarray(3)]);
+
+    expect(extractor.getPeaks()).toEqual(extractPeaks([samples], 3, "minmax"));
+  });
+
+  it("includes the trailing partial bucket", () => {
+    const extractor = createStreamingPeakExtractor(4);
+    extractor.push([new Float32Array([0.5, -0.5, 0.25, -0.25, 0.1875])]);
+
+    expect(extractor.getPeaks()).toEqual([[1, 0.5]]);
+  });
+
+  it("alternates bucket lengths for a fractional bucket size", () => {
+    const extractor = createStreamingPeakExtractor(2.5);
+    extractor.push([new Float32Array(10).fill(0.5)]);
+
+    expect(extractor.getPeaks()[0]).toHaveLength(4);
+  });
+
+  it("merges buckets to a requested count", () => {
+    const extractor = createStreamingPeakExtractor(1, "minmax");
+    extractor.push([new Float32Array([0.5, -1, 0.25, 0.75])]);
+
+    expect(extractor.getPeaks(2)).toEqual([Float32Array.from([-1, 0.5, 0.25, 0.75])]);
+  });
+});
@@ -0,0 +1,110 @@
+import { fireEvent, render } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import type { WaveformRegion } from "../src/waveform/types";
+import { WaveformRenderer } from "../src/waveform/waveform-renderer";
+import { mockCanvasRect } from "./helpers";
+
+// Press at `from`, drag to `to` and release, like a user would
+const drag = (canvas: HTMLCanvasElement, from: number, to: number) => {
+  fireEvent.mouseDown(canvas, { clientX: from, button: 0 });
+  fireEvent.mouseMove(document, { clientX: to });
+  fireEvent.mouseUp(document, { clientX: to });
+  fireEvent.click(canvas, { clientX: to });
+};
+
+const renderRegions = (
+  regions: WaveformRegion[],
+  extra: Partial<React.ComponentProps<typeof WaveformRenderer>> = {}
+) => {
+  const onRegionsChange = vi.fn();
+  const onSeek = vi.fn();
+  const { container, rerender, unmount } = render(
+    <WaveformRenderer
+      peaks={[0.1, 0.2, 0.3]}
+      duration={10}
+      regions={regions}
+      onRegionsChange={onRegionsChange}
+      onSeek={onSeek}
+      {...extra}
+    />
+  );
+  const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+  mockCanvasRect(canvas, 100);
+  return { canvas, onRegionsChange, onSeek, rerender, unmount };
+};
+
+describe("WaveformRenderer regions", () => {
+  it("creates a region by dragging on empty space without seeking", () => {
+    const { canvas, onRegionsChange, onSeek } = renderRegions([]);
+
+    drag(canvas, 20, 50);
+
+    expect(onRegionsChange).toHaveBeenLastCalledWith([
+      expect.objectContaining({ id: expect.any(String), startTime: 2, endTime: 5 }),
+    ]);
+    expect(onSeek).not.toHaveBeenCalled();
+  });
+
+  it("restores the page cursor and selection when unmounted mid-drag", () => {
+    const { canvas, unmount } = renderRegions([{ id: "intro", startTime: 2, endTime: 5 }]);
+
+    fireEvent.mouseDown(canvas, { clientX: 35, button: 0 });
+    expect(document.body.style.userSelect).toBe("none");
+    unmount();
+
+    expect(document.body.style.cursor).toBe("");
+    expect(document.body.style.userSelect).toBe("");
+  });
+
+  it("resizes from an edge and moves by the body", () => {
+    const region = { id: "intro", startTime: 2, endTime: 5, label: "Intro" };
+    const { canvas, onRegionsChange } = renderRegions([region]);
+
+    drag(canvas, 50, 70);
+    expect(onRegionsChange).toHaveBeenLastCalledWith([{ ...region, endTime: 7 }]);
+
+    drag(canvas, 35, 45);
+    expect(onRegionsChange).toHaveBeenLastCalledWith([{ ...region, startTime: 3, endTime: 6 }]);
+
+    // Moving stops at the end of the audio
+    drag(canvas, 35, 100);
+    expect(onRegionsChange).toHaveBeenLastCalledWith([{ ...region, startTime: 7, endTime: 10 }]);
+  });
+
+  it("still seeks on a plain click", () => {
+    const { canvas, onRegionsChange, onSeek } = renderRegions([{ id: "a", startTime: 2, endTime: 5 }]);
+
+    drag(canvas, 35, 35);
+
+    expect(onRegionsChange).not.toHaveBeenCalled();
+    expect(onSeek).toHaveBeenCalledWith(3.5);
+  });
+
+  it("fires enter and leave as the playhead crosses a region", () => {
+    const regions = [{ id: "loop", startTime: 2, endTime: 5 }];
+    const onRegionEnter = vi.fn();
+    const onRegionLeave = vi.fn();
+    const props = { peaks: [0.1, 0.2, 0.3], duration: 10, regions, onRegionEnter, onRegionLeave };
+    const { rerender } = render(<WaveformRenderer {...props} currentTime={1} />);
+
+    rerender(<WaveformRenderer {...props} currentTime={2.5} />);
+    rerender(<WaveformRenderer {...props} currentTime={3} />);
+    expect(onRegionEnter).toHaveBeenCalledTimes(1);
+    expect(onRegionEnter).toHaveBeenCalledWith(regions[0]);
+
+    rerender(<WaveformRenderer {...props} currentTime={5} />);
+    expect(onRegionLeave).toHaveBeenCalledWith(regions[0]);
+  });
+
+  it("fires leave for a region removed while the playhead is inside it", () => {
+    const region = { id: "loop", startTime: 2, endTime: 5 };
+    const onRegionLeave = vi.fn();
+    const props = { peaks: [0.1, 0.2, 0.3], duration: 10, currentTime: 3, onRegionLeave };
+    const { rerender } = render(<WaveformRenderer {...props} regions={[region]} />);
+
+    rerender(<WaveformRenderer {...props} regions={[{ id: "other", startTime: 6, endTime: 8 }]} />);
+
+    expect(onRegionLeave).toHaveBeenCalledTimes(1);
+    expect(onRegionLeave).toHaveBeenCalledWith(region);
+  });
+});
@@ -0,0 +1,78 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from "vitest";
+import { decodeAudio } from "../src/server";
+import { extractPeaks } from "../src/waveform/util-peaks";
+import { decodeWAV } from "../src/waveform/util-wav-decoder";
+import { encodeWAV } from "../src/waveform/util-wav-encoder";
+
+vi.mock("mpg123-decoder", () => {
+  return {
+    MPEGDecoder: class {
+      ready = Promise.resolve();
+      decode() {
+        return {
+          channelData: [new Float32Array([0.5, -0.5, 0.25, -0.25]), new Float32Array([0.25, -0.25, 0.5, -0.5])],
+          samplesDecoded: 4,
+          sampleRate: 8000,
+          errors: [],
+        };
+      }
+      free() {}
+    },
+  };
+});
+
+// 16-bit WAV at 8000 Hz, same samples on both channels unless given separately
+const createWAV = (left: number[], right = left) => encodeWAV([new Float32Array(left), new Float32Array(right)], 8000);
+
+describe("server decodeAudio", () => {
+  it("runs without window or Web Audio", () => {
+    expect(typeof window).toBe("undefined");
+    expect(typeof OfflineAudioContext).toBe("undefined");
+  });
+
+  it("decodes WAV into the same peaks as the client", async () => {
+    const left = [0.5, -0.5, 0.25, -0.25];
+    const right = [1, -1, 0.5, -0.5];
+    const wav = createWAV(left, right);
+
+    const decoded = await decodeAudio(wav, { sampleCount: 2, splitChannels: true, peakFormat: "minmax" });
+    const expected = extractPeaks(decodeWAV(wav.slice(0)).channelData, 2, "minmax");
+
+    expect(decoded.peaks).toEqual(expected);
+    expect(decoded).toMatchObject({ duration: 4 / 8000, sampleRate: 8000, numberOfChannels: 2, codec: "wav" });
+  });
+
+  it("decodes MP3 from a Node.js Buffer", async () => {
+    const bytes = Buffer.concat([Buffer.alloc(16), Buffer.from([0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 0])]);
+    const decoded = await decodeAudio(bytes.subarray(16), { sampleCount: 4 });
+
+    expect(decoded.codec).toBe("mp3");
+    expect(decoded.peaks).toHaveLength(1);
+    expect(decoded.peaks[0]).toEqual([1, 1, 0.5, 0.5]);
+  });
+
+  it("builds peak pyramids with the source sample rate", async () => {
+    const wav = createWAV(Array.from({ length: 32 }, (_, index) => (index % 2 ? 0.5 : -0.5)));
+
+    const decoded = await decodeAudio(new Blob([wav], { type: "audio/wav" }), { pyramid: true, samplesPerPeak: 4 });
+
+    expect(decoded.peaks.sampleRate).toBe(8000);
+    expect(decoded.peaks.levels[0][0]).toHaveLength(16);
+  });
+
+  it("computes peaks only for the requested time window", async () => {
+    // 8 frames at 8000 Hz: quiet first half, loud second half
+    const wav = createWAV([0.1, 0.1, 0.1, 0.1, 0.8, 0.8, 0.8, 0.8]);
+
+    const decoded = await decodeAudio(wav, { sampleCount: 2, startTime: 4 / 8000, normalize: "none" });
+
+    expect(decoded.peaks[0]).toHaveLength(2);
+    expect((decoded.peaks[0] as number[])[0]).toBeCloseTo(0.8, 3);
+    expect(decoded).toMatchObject({ startTime: 4 / 8000, endTime: 8 / 8000, duration: 8 / 8000, peaksPerSecond: 4000 });
+  });
+
+  it("rejects empty input", async () => {
+    await expect(decodeAudio(new ArrayBuffer(0))).rejects.toThrow("empty");
+  });
+});
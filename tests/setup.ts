@@ -0,0 +1,9 @@
+// Shared jsdom shims for component tests (vitest setupFiles)
+
+if (typeof window !== "undefined" && !global.ResizeObserver) {
+  // @ts-expect-error - jsdom shim
+  global.ResizeObserver = class {
+    observe() {}
+    disconnect() {}
+  };
+}
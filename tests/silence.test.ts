@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { detectSilence, trimSilence } from "../src/waveform/util-silence";
+import { decodeWAV } from "../src/waveform/util-wav-decoder";
+import { encodeWAV } from "../src/waveform/util-wav-encoder";
+
+const SAMPLE_RATE = 1000;
+
+// Concatenate [seconds, amplitude] segments into one channel
+const createChannel = (segments: [number, number][]) =>
+  Float32Array.from(
+    segments.flatMap(([seconds, amplitude]) =>
+      Array.from({ length: seconds * SAMPLE_RATE }, (_, i) => (i % 2 ? amplitude : -amplitude))
+    )
+  );
+
+const readBlob = (blob: Blob) =>
+  new Promise<ArrayBuffer>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const createBlob = (buffer: ArrayBuffer) => {
+  const blob = new Blob([buffer], { type: "audio/wav" });
+  Object.defineProperty(blob, "arrayBuffer", { value: () => Promise.resolve(buffer.slice(0)) });
+  return blob;
+};
+
+describe("detectSilence", () => {
+  it("finds leading, internal and trailing silence", () => {
+    const channel = createChannel([
+      [1, 0],
+      [1, 0.5],
+      [0.6, 0.001],
+      [1, 0.5],
+      [0.5, 0],
+    ]);
+
+    const ranges = detectSilence([channel], SAMPLE_RATE, { thresholdDb: -40, minDuration: 0.5 });
+
+    expect(ranges).toEqual([
+      { startTime: 0, endTime: 1, kind: "leading" },
+      { startTime: 2, endTime: 2.6, kind: "internal" },
+      { startTime: 3.6, endTime: 4.1, kind: "trailing" },
+    ]);
+  });
+
+  it("ignores silence shorter than minDuration and sound in any channel", () => {
+    const quiet = createChannel([[2, 0]]);
+    const loud = createChannel([
+      [0.2, 0],
+      [1.8, 0.5],
+    ]);
+
+    expect(detectSilence([quiet, loud], SAMPLE_RATE, { minDuration: 0.5 })).toEqual([]);
+    expect(detectSilence([quiet], SAMPLE_RATE)).toEqual([{ startTime: 0, endTime: 2, kind: "leading" }]);
+  });
+});
+
+describe("trimSilence", () => {
+  it("removes leading and trailing silence and keeps the padding", async () => {
+    const channel = createChannel([
+      [1, 0],
+      [1, 0.5],
+      [1, 0],
+    ]);
+    const blob = createBlob(encodeWAV([channel], SAMPLE_RATE));
+
+    const trimmed = await trimSilence(blob, { padding: 0.1 });
+    const { channelData } = decodeWAV(await readBlob(trimmed));
+
+    expect(trimmed.type).toBe("audio/wav");
+    expect(channelData[0]).toHaveLength(1.2 * SAMPLE_RATE);
+  });
+});
@@ -0,0 +1,88 @@
+import { fireEvent, render } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { Spectrogram } from "../src/spectrogram";
+import { computeSpectrogram } from "../src/spectrogram/util-spectrogram";
+import { mockCanvasRect } from "./helpers";
+
+const SAMPLE_RATE = 8000;
+
+const createSine = (frequency: number, seconds = 1, amplitude = 1) =>
+  Float32Array.from(
+    { length: seconds * SAMPLE_RATE },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+  );
+
+// Row with the highest level in one frame
+const loudestRow = (values: Float32Array, frame: number, rows: number) => {
+  const column = Array.from(values.subarray(frame * rows, (frame + 1) * rows));
+  return column.indexOf(Math.max(...column));
+};
+
+describe("computeSpectrogram", () => {
+  it("puts a sine at its frequency row with full level", () => {
+    const data = computeSpectrogram([createSine(1000)], SAMPLE_RATE, { fftSize: 256, frameCount: 10 });
+
+    expect(data.frameCount).toBe(10);
+    expect(data.frequencyBins).toBe(128);
+    expect(data.values).toHaveLength(10 * 128);
+    expect(data.duration).toBe(1);
+
+    const row = loudestRow(data.values, 5, 128);
+    expect(data.frequencies[row]).toBeCloseTo(1000, -2);
+    expect(data.values[5 * 128 + row]).toBeGreaterThan(0.95);
+  });
+
+  it("maps frequencies onto mel and log rows", () => {
+    const sine = createSine(440);
+
+    for (const frequencyScale of ["mel", "log"] as const) {
+      const data = computeSpectrogram([sine], SAMPLE_RATE, {
+        fftSize: 1024,
+        frameCount: 4,
+        frequencyScale,
+        frequencyBins: 64,
+      });
+      const frequencies = Array.from(data.frequencies);
+
+      expect(data.frequencyBins).toBe(64);
+      expect(frequencies).toEqual([...frequencies].sort((a, b) => a - b));
+      expect(frequencies[1] - frequencies[0]).toBeLessThan(frequencies[63] - frequencies[62]);
+      expect(Math.abs(frequencies[loudestRow(data.values, 2, 64)] - 440)).toBeLessThan(60);
+    }
+  });
+
+  it("maps silence to 0 and rejects FFT sizes that are not powers of 2", () => {
+    const data = computeSpectrogram([new Float32Array(SAMPLE_RATE)], SAMPLE_RATE, { fftSize: 256, frameCount: 2 });
+
+    expect(Array.from(data.values).every((value) => value === 0)).toBe(true);
+    expect(() => computeSpectrogram([createSine(100)], SAMPLE_RATE, { fftSize: 1000 })).toThrow("power of 2");
+  });
+
+  it("caps the default frame count for long audio", () => {
+    // One frame every 64 samples would be 5000 frames of 1024 rows; the cap allows 2^21 levels
+    const options = { fftSize: 256, frequencyBins: 1024 };
+    const long = computeSpectrogram([new Float32Array(320_000)], SAMPLE_RATE, options);
+    const short = computeSpectrogram([new Float32Array(6400)], SAMPLE_RATE, options);
+
+    expect(long.frameCount).toBe(2048);
+    expect(long.values).toHaveLength(2 ** 21);
+    expect(short.frameCount).toBe(100);
+  });
+});
+
+describe("Spectrogram", () => {
+  it("seeks with the same props as AudioWaveform", () => {
+    const onSeek = vi.fn();
+    const data = computeSpectrogram([createSine(1000)], SAMPLE_RATE, { fftSize: 256, frameCount: 4 });
+    const { container } = render(<Spectrogram data={data} duration={10} currentTime={2} onSeek={onSeek} />);
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas);
+
+    expect(canvas.getAttribute("role")).toBe("slider");
+    fireEvent.click(canvas, { clientX: 25 });
+    expect(onSeek).toHaveBeenCalledWith(2.5);
+    fireEvent.keyDown(canvas, { key: "ArrowRight" });
+    expect(onSeek).toHaveBeenLastCalledWith(7);
+  });
+});
@@ -0,0 +1,181 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { streamAudioPeaks } from "../src/waveform/util-stream-decoder";
+
+// Samples decoded from each chunk (four by default)
+const mockDecoder = vi.hoisted(() => ({ samplesFor: (_chunk: Uint8Array) => 4 }));
+
+vi.mock("mpg123-decoder", () => {
+  return {
+    MPEGDecoder: class {
+      ready = Promise.resolve();
+      decode(chunk: Uint8Array) {
+        const samples = Float32Array.from({ length: mockDecoder.samplesFor(chunk) }, (_, i) => (i % 2 ? -0.5 : 0.5));
+        return {
+          channelData: [samples],
+          samplesDecoded: samples.length,
+          sampleRate: 44100,
+          errors: [],
+        };
+      }
+      free() {}
+    },
+  };
+});
+
+const createChunkedResponse = (chunks: Uint8Array[], contentType: string) => {
+  const totalBytes = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    headers: { "content-type": contentType, "content-length": String(totalBytes) },
+  });
+};
+
+// First MPEG-1 Layer III stereo frame with a Xing header counting `frames` frames (1152 samples each)
+const createXingFrame = (frames: number) => {
+  const bytes = new Uint8Array(64);
+  bytes.set([0xff, 0xfb, 0x90, 0x00]);
+  bytes.set(
+    [..."Xing"].map((char) => char.charCodeAt(0)),
+    36
+  );
+  new DataView(bytes.buffer).setUint32(40, 1);
+  new DataView(bytes.buffer).setUint32(44, frames);
+  return bytes;
+};
+
+// A server without streamed bodies that answers Range requests without a total size (`bytes 0-7/*`)
+const createRangeFetch = (data: Uint8Array) => {
+  const ranges: string[] = [];
+  const fetchMock = vi.fn((_src: string, init?: RequestInit) => {
+    const range = (init?.headers as Record<string, string> | undefined)?.Range;
+    if (!range) {
+      return Promise.resolve(
+        new Response(null, { headers: { "content-type": "audio/mpeg", "content-length": String(data.byteLength) } })
+      );
+    }
+    ranges.push(range);
+    const [start, end] = range.replace("bytes=", "").split("-").map(Number);
+    if (start >= data.byteLength) return Promise.resolve(new Response(null, { status: 416 }));
+    const chunk = data.slice(start, end + 1);
+    return Promise.resolve(
+      new Response(chunk, {
+        status: 206,
+        headers: { "content-range": `bytes ${start}-${start + chunk.byteLength - 1}/*` },
+      })
+    );
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return ranges;
+};
+
+const collectPeaks = async (chunks: Uint8Array[], sampleCount: number) => {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(() => Promise.resolve(createChunkedResponse(chunks, "audio/mpeg")))
+  );
+  const updates: { progress: number | null; count: number }[] = [];
+  const peaks = await streamAudioPeaks("/audio.mp3", {
+    sampleCount,
+    onPeaks: (update) => updates.push({ progress: update.progress, count: update.peaks[0]?.length ?? 0 }),
+  });
+  return { peaks, updates };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  mockDecoder.samplesFor = () => 4;
+});
+
+describe("streamAudioPeaks", () => {
+  it("emits partial MP3 peaks with increasing progress", async () => {
+    const chunks = [new Uint8Array([0x49, 0x44, 0x33, 0]), new Uint8Array(4), new Uint8Array(4), new Uint8Array(4)];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() => Promise.resolve(createChunkedResponse(chunks, "audio/mpeg")))
+    );
+
+    const progress: (number | null)[] = [];
+    const peakCounts: number[] = [];
+    const peaks = await streamAudioPeaks("/audio.mp3", {
+      sampleCount: 8,
+      onPeaks: (update) => {
+        progress.push(update.progress);
+        peakCounts.push(update.peaks[0]?.length ?? 0);
+      },
+    });
+
+    expect(progress).toEqual([0.25, 0.5, 0.75, 1, 1]);
+    expect(peakCounts).toEqual([2, 4, 6, 8, 8]);
+    expect(peaks[0]).toHaveLength(8);
+  });
+
+  it("sizes buckets from the Xing frame count instead of the byte ratio", async () => {
+    // 2 frames = 2304 samples, decoded in four chunks of very different byte sizes
+    mockDecoder.samplesFor = () => 576;
+    const chunks = [createXingFrame(2), new Uint8Array(1000), new Uint8Array(10), new Uint8Array(5000)];
+    const { peaks, updates } = await collectPeaks(chunks, 8);
+
+    expect(updates.map((update) => update.progress)).toEqual([0.25, 0.5, 0.75, 1, 1]);
+    expect(updates.map((update) => update.count)).toEqual([2, 4, 6, 8, 8]);
+    expect(peaks[0]).toHaveLength(8);
+  });
+
+  it("finds the Xing header behind an ID3 tag spanning several chunks", async () => {
+    // 10-byte ID3 header declaring 100 bytes of tag data; the tag decodes to nothing
+    const tag = new Uint8Array(110);
+    tag.set([0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 100]);
+    mockDecoder.samplesFor = (chunk) => (chunk[0] === 0x49 || chunk[0] === 0xaa ? 0 : 576);
+    const chunks = [tag.subarray(0, 50).fill(0xaa, 10), tag.subarray(50).fill(0xaa), createXingFrame(2)];
+    chunks.push(new Uint8Array(3000), new Uint8Array(3000), new Uint8Array(3000));
+    const { peaks, updates } = await collectPeaks(chunks, 8);
+
+    expect(updates[0]).toEqual({ progress: 0.25, count: 2 });
+    expect(peaks[0]).toHaveLength(8);
+  });
+
+  it("ends with exactly sampleCount peaks when the estimated length was off", async () => {
+    // The first chunk suggests 32 samples, the stream holds 16
+    const chunks = [new Uint8Array(4), new Uint8Array(4), new Uint8Array(4), new Uint8Array(20)];
+    const { peaks, updates } = await collectPeaks(chunks, 8);
+
+    expect(updates[updates.length - 2].count).toBe(4);
+    expect(peaks[0]).toHaveLength(8);
+  });
+
+  it("requests ranges until a short one when the total size is unknown", async () => {
+    const ranges = createRangeFetch(new Uint8Array(20));
+
+    const peaks = await streamAudioPeaks("/audio.mp3", { sampleCount: 6, rangeChunkSize: 8 });
+
+    expect(ranges).toEqual(["bytes=0-7", "bytes=8-15", "bytes=16-23"]);
+    // Four samples per chunk from every range, not just the first one
+    expect(peaks[0]).toEqual(new Array(6).fill(1));
+  });
+
+  it("stops at an unsatisfiable range when the file is a multiple of the range size", async () => {
+    const ranges = createRangeFetch(new Uint8Array(16));
+
+    const peaks = await streamAudioPeaks("/audio.mp3", { sampleCount: 4, rangeChunkSize: 8 });
+
+    expect(ranges).toEqual(["bytes=0-7", "bytes=8-15", "bytes=16-23"]);
+    expect(peaks[0]).toHaveLength(4);
+  });
+
+  it("stops reading when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() => Promise.reject(new DOMException("Aborted", "AbortError")))
+    );
+
+    await expect(streamAudioPeaks("/audio.mp3", { sampleCount: 8, signal: controller.signal })).rejects.toThrow(
+      "Aborted"
+    );
+  });
+});
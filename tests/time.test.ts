@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { formatTime } from "../src/waveform/util-time";
+
+describe("formatTime", () => {
+  it("formats minutes and seconds", () => {
+    expect(formatTime(0)).toBe("0:00");
+    expect(formatTime(5)).toBe("0:05");
+    expect(formatTime(65.25, 1)).toBe("1:05.3");
+  });
+
+  it("adds hours from one hour on", () => {
+    expect(formatTime(3725)).toBe("1:02:05");
+  });
+
+  it("carries rounding into the next minute", () => {
+    expect(formatTime(59.96, 1)).toBe("1:00.0");
+    expect(formatTime(59.5)).toBe("1:00");
+  });
+});
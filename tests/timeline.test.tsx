@@ -0,0 +1,61 @@
+import { render } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { formatTimelineLabel, getTimelineTicks } from "../src/timeline/util-ticks";
+import { AudioWaveform } from "../src/waveform";
+
+describe("getTimelineTicks", () => {
+  it("spaces labels at least minLabelSpacing apart with minor ticks in between", () => {
+    // 40 px per second: labels every 2 s, minor ticks every 0.2 s
+    const ticks = getTimelineTicks(0, 10, 400);
+    const majors = ticks.filter((tick) => tick.major).map((tick) => tick.time);
+
+    expect(majors).toEqual([0, 2, 4, 6, 8, 10]);
+    expect(ticks).toHaveLength(51);
+  });
+
+  it("adapts to zoom and starts at the visible range", () => {
+    // 1000 px per second: labels every 0.1 s
+    const majors = getTimelineTicks(10.05, 11, 1000).filter((tick) => tick.major);
+
+    expect(majors[0].time).toBeCloseTo(10.1);
+    expect(majors[1].time - majors[0].time).toBeCloseTo(0.1);
+  });
+
+  it("uses whole frames below one second for the frames format", () => {
+    // 30 fps at 1000 px per second: labels every 5 frames
+    const majors = getTimelineTicks(0, 1, 1000, { frameRate: 30 }).filter((tick) => tick.major);
+    expect(majors[1].time).toBeCloseTo(5 / 30);
+  });
+});
+
+describe("formatTimelineLabel", () => {
+  it("formats mm:ss, hh:mm:ss and frames", () => {
+    expect(formatTimelineLabel(65, "mm:ss", 5)).toBe("1:05");
+    expect(formatTimelineLabel(65, "hh:mm:ss", 5)).toBe("0:01:05");
+    expect(formatTimelineLabel(3725, "hh:mm:ss", 5)).toBe("1:02:05");
+    expect(formatTimelineLabel(65.5, "frames", 0.5, 30)).toBe("1:05:15");
+  });
+
+  it("adds decimals for sub-second steps and accepts a custom formatter", () => {
+    expect(formatTimelineLabel(65.5, "mm:ss", 0.5)).toBe("1:05.5");
+    expect(formatTimelineLabel(1.25, "mm:ss", 0.05)).toBe("0:01.25");
+    expect(formatTimelineLabel(90, (time) => `${time}s`, 10)).toBe("90s");
+  });
+});
+
+describe("AudioWaveform visible range", () => {
+  it("reports the shown range for a timeline", () => {
+    const onVisibleRangeChange = vi.fn();
+    render(
+      <AudioWaveform
+        peaks={[0.1, 0.2, 0.3]}
+        duration={120}
+        startTime={30}
+        endTime={75}
+        onVisibleRangeChange={onVisibleRangeChange}
+      />
+    );
+
+    expect(onVisibleRangeChange).toHaveBeenLastCalledWith({ startTime: 30, endTime: 75 });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { decodeWAV } from "../src/waveform/util-wav-decoder";
+import { encodeWAV } from "../src/waveform/util-wav-encoder";
+
+// Build a minimal RIFF/WAVE file around raw sample bytes
+const createWAV = ({
+  formatTag = 1,
+  channels = 1,
+  sampleRate = 8000,
+  bitsPerSample,
+  data,
+  extensible = false,
+}: {
+  formatTag?: number;
+  channels?: number;
+  sampleRate?: number;
+  bitsPerSample: number;
+  data: Uint8Array;
+  extensible?: boolean;
+}) => {
+  const fmtSize = extensible ? 40 : 16;
+  const buffer = new ArrayBuffer(12 + 8 + fmtSize + 8 + data.byteLength);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const writeASCII = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) bytes[offset + i] = text.charCodeAt(i);
+  };
+  const blockAlign = (bitsPerSample / 8) * channels;
+
+  writeASCII(0, "RIFF");
+  view.setUint32(4, buffer.byteLength - 8, true);
+  writeASCII(8, "WAVE");
+  writeASCII(12, "fmt ");
+  view.setUint32(16, fmtSize, true);
+  view.setUint16(20, extensible ? 0xfffe : formatTag, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+  if (extensible) view.setUint16(44, formatTag, true);
+  writeASCII(20 + fmtSize, "data");
+  view.setUint32(24 + fmtSize, data.byteLength, true);
+  bytes.set(data, 28 + fmtSize);
+
+  return buffer;
+};
+
+describe("decodeWAV", () => {
+  it("decodes unsigned 8-bit PCM", () => {
+    const { channelData, sampleRate } = decodeWAV(createWAV({ bitsPerSample: 8, data: new Uint8Array([0, 128, 192]) }));
+
+    expect(sampleRate).toBe(8000);
+    expect(Array.from(channelData[0])).toEqual([-1, 0, 0.5]);
+  });
+
+  it("decodes interleaved 16-bit stereo PCM", () => {
+    const data = new Uint8Array(new Int16Array([-32768, 16384, 8192, 0]).buffer);
+
+    const { channelData } = decodeWAV(createWAV({ channels: 2, bitsPerSample: 16, data }));
+
+    expect(Array.from(channelData[0])).toEqual([-1, 0.25]);
+    expect(Array.from(channelData[1])).toEqual([0.5, 0]);
+  });
+
+  it("decodes signed 24-bit PCM", () => {
+    // 0x400000 (0.5) and 0xC00000 (-0.5), little-endian
+    const data = new Uint8Array([0x00, 0x00, 0x40, 0x00, 0x00, 0xc0]);
+
+    const { channelData } = decodeWAV(createWAV({ bitsPerSample: 24, data }));
+
+    expect(Array.from(channelData[0])).toEqual([0.5, -0.5]);
+  });
+
+  it("decodes 32-bit integer PCM", () => {
+    const data = new Uint8Array(new Int32Array([1073741824, -2147483648]).buffer);
+
+    const { channelData } = decodeWAV(createWAV({ bitsPerSample: 32, data }));
+
+    expect(Array.from(channelData[0])).toEqual([0.5, -1]);
+  });
+
+  it("decodes 32-bit float and extensible 64-bit float", () => {
+    const float32 = decodeWAV(
+      createWAV({ formatTag: 3, bitsPerSample: 32, data: new Uint8Array(new Float32Array([0.25, -0.75]).buffer) })
+    );
+    const float64 = decodeWAV(
+      createWAV({
+        formatTag: 3,
+        bitsPerSample: 64,
+        extensible: true,
+        data: new Uint8Array(new Float64Array([0.125, -1]).buffer),
+      })
+    );
+
+    expect(Array.from(float32.channelData[0])).toEqual([0.25, -0.75]);
+    expect(Array.from(float64.channelData[0])).toEqual([0.125, -1]);
+  });
+
+  it("rejects unsupported encodings and non-WAV data", () => {
+    expect(() => decodeWAV(createWAV({ formatTag: 0x11, bitsPerSample: 16, data: new Uint8Array(2) }))).toThrow(
+      "Unsupported WAV encoding"
+    );
+    expect(() => decodeWAV(new Uint8Array([1, 2, 3, 4]).buffer)).toThrow("Invalid WAV file");
+  });
+});
+
+describe("encodeWAV", () => {
+  it("round-trips channel data through the WAV parser", () => {
+    const left = new Float32Array([0, 0.5, -0.5, 1, -1]);
+    const right = new Float32Array([0.25, -0.25, 0, 0.75, -0.75]);
+
+    const { channelData, sampleRate } = decodeWAV(encodeWAV([left, right], 16000));
+
+    expect(sampleRate).toBe(16000);
+    expect(channelData).toHaveLength(2);
+    channelData.forEach((channel, c) => {
+      const source = c === 0 ? left : right;
+      for (let i = 0; i < source.length; i++) expect(channel[i]).toBeCloseTo(source[i], 3);
+    });
+  });
+});
@@ -1,30 +1,10 @@
-import { fireEvent, render } from "@testing-library/react";
+import { act, fireEvent, render } from "@testing-library/react";
+import { createRef } from "react";
 import { describe, expect, it, vi } from "vitest";
+import { AudioWaveform, type AudioWaveformRef } from "../src/waveform";
+import { createCanvasFill } from "../src/waveform/util-fill";
 import { WaveformRenderer } from "../src/waveform/waveform-renderer";
-
-if (!global.ResizeObserver) {
-  // @ts-expect-error - jsdom shim
-  global.ResizeObserver = class {
-    observe() {}
-    disconnect() {}
-  };
-}
-
-const mockCanvasRect = (canvas: HTMLCanvasElement, width = 100) => {
-  Object.defineProperty(canvas, "getBoundingClientRect", {
-    value: () => ({
-      left: 0,
-      top: 0,
-      right: width,
-      bottom: 10,
-      width,
-      height: 10,
-      x: 0,
-      y: 0,
-      toJSON: () => "",
-    }),
-  });
-};
+import { mockCanvasRect } from "./helpers";
 
 describe("WaveformRenderer", () => {
   it("fires onSeek and onClick when drag-to-seek is disabled", () => {
@@ -68,4 +48,186 @@ describe("WaveformRenderer", () => {
     expect(onSeek).not.toHaveBeenCalled();
     expect(onClick).toHaveBeenCalledTimes(1);
   });
+
+  it("maps seek positions and keyboard seeks onto the clip window", () => {
+    const onSeek = vi.fn();
+    const { container } = render(
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={120}
+        startTime={30}
+        endTime={75}
+        currentTime={40}
+        onSeek={onSeek}
+      />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.click(canvas, { clientX: 20 });
+    expect(onSeek).toHaveBeenLastCalledWith(39);
+
+    fireEvent.keyDown(canvas, { key: "Home" });
+    expect(onSeek).toHaveBeenLastCalledWith(30);
+    fireEvent.keyDown(canvas, { key: "End" });
+    expect(onSeek).toHaveBeenLastCalledWith(75);
+
+    expect(canvas.getAttribute("aria-valuemin")).toBe("30");
+    expect(canvas.getAttribute("aria-valuemax")).toBe("75");
+  });
+
+  it("snaps seek positions to the nearest beat", () => {
+    const onSeek = vi.fn();
+    const { container } = render(
+      <WaveformRenderer peaks={[0.1, 0.2, 0.3]} duration={10} beats={[0, 2.5, 5, 7.5]} snapToBeats onSeek={onSeek} />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.click(canvas, { clientX: 42 });
+    expect(onSeek).toHaveBeenLastCalledWith(5);
+    fireEvent.click(canvas, { clientX: 95 });
+    expect(onSeek).toHaveBeenLastCalledWith(7.5);
+  });
+
+  it("snaps keyboard seeks to the nearest beat", () => {
+    const onSeek = vi.fn();
+    const renderAt = (currentTime: number) => (
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={10}
+        currentTime={currentTime}
+        beats={[0, 4, 8]}
+        snapToBeats
+        onSeek={onSeek}
+      />
+    );
+    const { container, rerender } = render(renderAt(2));
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+
+    fireEvent.keyDown(canvas, { key: "ArrowRight" });
+    expect(onSeek).toHaveBeenLastCalledWith(8);
+    fireEvent.keyDown(canvas, { key: "End" });
+    expect(onSeek).toHaveBeenLastCalledWith(8);
+
+    // No beat ahead: the plain step still moves forward
+    rerender(renderAt(8));
+    fireEvent.keyDown(canvas, { key: "ArrowRight" });
+    expect(onSeek).toHaveBeenLastCalledWith(10);
+  });
+
+  it("maps seek positions onto the visible window while zoomed", () => {
+    const onSeek = vi.fn();
+    const { container } = render(
+      <WaveformRenderer peaks={[0.1, 0.2, 0.3]} duration={60} visibleStart={20} visibleEnd={30} onSeek={onSeek} />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.click(canvas, { clientX: 50 });
+    expect(onSeek).toHaveBeenLastCalledWith(25);
+  });
+
+  it("reports hover times and renders a custom tooltip", () => {
+    const onHover = vi.fn();
+    const { container, getByText, queryByText } = render(
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={10}
+        onHover={onHover}
+        renderHoverTooltip={(time) => <span>at {time}s</span>}
+      />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.mouseMove(canvas, { clientX: 25 });
+    expect(onHover).toHaveBeenLastCalledWith(2.5);
+    expect(getByText("at 2.5s")).not.toBeNull();
+
+    fireEvent.mouseMove(canvas, { clientX: 25 });
+    expect(onHover).toHaveBeenCalledTimes(1);
+
+    fireEvent.mouseLeave(canvas);
+    expect(onHover).toHaveBeenLastCalledWith(null);
+    expect(queryByText("at 2.5s")).toBeNull();
+  });
+});
+
+describe("AudioWaveform zoom", () => {
+  it("renders a plain canvas unless zoom is set", () => {
+    const { container } = render(<AudioWaveform peaks={[0.1, 0.2, 0.3]} duration={10} />);
+    expect(container.firstElementChild?.tagName).toBe("CANVAS");
+  });
+
+  it("injects the scrollbar theme only while zoomed", () => {
+    const themeStyles = () => document.head.querySelectorAll('style[id^="wavekit-os-theme-"]').length;
+    const before = themeStyles();
+
+    const plain = render(<AudioWaveform peaks={[0.1, 0.2, 0.3]} duration={10} />);
+    expect(themeStyles()).toBe(before);
+
+    plain.rerender(<AudioWaveform peaks={[0.1, 0.2, 0.3]} duration={10} zoom={50} />);
+    expect(themeStyles()).toBe(before + 1);
+    plain.unmount();
+    expect(themeStyles()).toBe(before);
+  });
+
+  it("clamps and reports zoom changes from the ref", () => {
+    const ref = createRef<AudioWaveformRef>();
+    const onZoomChange = vi.fn();
+    const { container } = render(
+      <AudioWaveform
+        ref={ref}
+        peaks={[0.1, 0.2, 0.3]}
+        duration={10}
+        zoom={50}
+        maxZoom={150}
+        onZoomChange={onZoomChange}
+      />
+    );
+
+    expect(container.querySelector("canvas")).not.toBeNull();
+    expect(ref.current?.getZoom()).toBe(50);
+
+    act(() => ref.current?.zoomIn());
+    expect(onZoomChange).toHaveBeenLastCalledWith(100);
+    expect(ref.current?.getZoom()).toBe(100);
+
+    act(() => ref.current?.setZoom(1000));
+    expect(onZoomChange).toHaveBeenLastCalledWith(150);
+  });
+});
+
+describe("createCanvasFill", () => {
+  const createContext = () => {
+    const gradient = { addColorStop: vi.fn() };
+    const ctx = { createLinearGradient: vi.fn(() => gradient) } as unknown as CanvasRenderingContext2D;
+    return { ctx, gradient };
+  };
+
+  it("passes CSS colors through", () => {
+    const { ctx } = createContext();
+    expect(createCanvasFill(ctx, "#ff5500", { x: 0, width: 100, height: 50 })).toBe("#ff5500");
+    expect(ctx.createLinearGradient).not.toHaveBeenCalled();
+  });
+
+  it("builds vertical gradients over the height and horizontal ones over the whole clip", () => {
+    const { ctx, gradient } = createContext();
+    const stops = [
+      { offset: 0, color: "#ff5500" },
+      { offset: 1.5, color: "#ff9900" },
+    ];
+
+    createCanvasFill(ctx, { stops }, { x: -200, width: 400, height: 50 });
+    expect(ctx.createLinearGradient).toHaveBeenLastCalledWith(0, 0, 0, 50);
+    expect(gradient.addColorStop).toHaveBeenLastCalledWith(1, "#ff9900");
+
+    createCanvasFill(ctx, { direction: "horizontal", stops }, { x: -200, width: 400, height: 50 });
+    expect(ctx.createLinearGradient).toHaveBeenLastCalledWith(-200, 0, 200, 0);
+  });
 });